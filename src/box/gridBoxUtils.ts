@@ -1,4 +1,4 @@
-import { Coordinate, copyCoordinate } from "../geometry";
+import { Coordinate, Matrix2x2, addCoordinates, boundingBox, copyCoordinate, multiply, subtractCoordinates } from "../geometry";
 import { GridBox } from "./gridBoxTypes";
 
 
@@ -53,6 +53,34 @@ export const copyGridBox = (box: GridBox): GridBox => {
     };
 };
 
+/**
+ * Applies a linear map to a {@link GridBox}.
+ *
+ * @remarks
+ * Both corners of the box are mapped with `matrix`; the result is the box spanning
+ * the mapped corners, so its origin is again the corner with the smallest
+ * coordinates. With reflections, rotations by quarter turns and the transposition
+ * the result covers exactly the image of the box.
+ *
+ * @param box - The box to map.
+ * @param matrix - The 2x2 matrix applied to the corners.
+ * @returns A new normalized {@link GridBox}.
+ *
+ * @example
+ * ```typescript
+ * // A 3x1 box at (2, 0) becomes a 1x3 box at (0, 2)
+ * const transposed = transformGridBox(makeGridBox({ x: 2, y: 0 }, { x: 3, y: 1 }), transposition);
+ * ```
+ */
+export const transformGridBox = (box: GridBox, matrix: Matrix2x2): GridBox => {
+    const { min, max } = boundingBox([
+        multiply(matrix, box.origin),
+        multiply(matrix, addCoordinates(box.origin, box.diagonal)),
+    ]);
+
+    return makeGridBox(min, subtractCoordinates(max, min));
+};
+
 
 
 
@@ -14,7 +14,8 @@ export type {
 // Utilities
 export {
     makeGridBox,
-    copyGridBox
+    copyGridBox,
+    transformGridBox
 } from './gridBoxUtils';
 
 // Position calculations
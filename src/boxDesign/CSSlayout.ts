@@ -8,25 +8,35 @@
  * Main pipeline:
  * 1. Convert layout transformations to local section coordinates
  * 2. Calculate bounding boxes for each section
- * 3. Transform to absolute CSS Grid coordinates
- * 4. Optionally validate for overlapping elements
+ * 3. Transform to absolute CSS Grid coordinates, optionally removing empty tracks
+ *    and dividing the lines by their greatest common divisor
+ * 4. Optionally transpose rows and columns for portrait screens, then rescale the columns
+ * 5. Optionally mirror the columns for right-to-left layouts
+ * 6. Optionally validate for overlapping elements
  * 
  * Features:
  * - Multi-breakpoint responsive layout support
  * - Configurable overlap detection (allow/warn/error)
  * - Comprehensive diagnostic reporting
  * - Type-safe section and block ID handling
+ * - Hooks after each stage that may inspect or replace its result
+ * - Opt-in trace of every transformation and stage for debugging
  */
 
 // Layout type definitions for different transformation stages
 import {
   Layout,
   LayoutAbsolute,           // Final layout with absolute CSS coordinates
+  LayoutSectionBounds,      // Boxes with their section bounding boxes
+  LayoutSectionLocal,       // Boxes in section-local coordinates
   LayoutWithTx,             // Input layout with transformation configurations
 } from "../boxLayout/boxLayoutTypes";
 
+// Transformation registry types
+import { BoxMovesFunctions, CustomBoxMovesProps } from "../boxTransformations";
+
 // Responsive breakpoint definitions
-import { BREAKPOINTS } from "../breakpoints";
+import { Breakpoint, BREAKPOINTS, NoInferBP } from "../breakpoints";
 
 // Error handling and diagnostic utilities
 import {
@@ -41,13 +51,23 @@ import { CSSCoordinates } from "../gridNodeTypes";
 import { ThemeForLayout } from "../layoutTheme";
 
 // Template identifiers for sections and blocks
-import { BlocksIDs, SectionIDs } from "../templates";
+import { BlocksIDs, NodeID, SectionIDs } from "../templates";
 
 // Transformation pipeline functions
 import { layoutSectionBtoAbsolute } from "./layoutSectionBtoAbsolute";
 import { layoutSectionToBounds } from "./layoutSectionToBounds";
 import { layoutToTx } from "./layoutToTx";
 import { layoutTxToSectionLocal } from "./layoutTxToSectionLocal";
+import { LayoutDirection, mirrorLayoutAbsolute } from "./mirrorLayoutAbsolute";
+import { CSSLayoutHooks, runPipelineHooks } from "./pipelineHooks";
+import { LayoutTraceRecord, snapshotBoxes, traceStageBoxes, traceStageCoordinates } from "./layoutTrace";
+import { transposeLayoutAbsolute } from "./transposeLayoutAbsolute";
+
+// Removal of empty rows and columns
+import { compactLayoutAbsolute, CompactOptions } from "./compactLayoutAbsolute";
+
+// Fitting the grid lines to a usable number of tracks
+import { quantizeLayoutAbsolute, rescaleLayoutAbsolute, RescaleOptions } from "./quantizeLayoutAbsolute";
 
 /**
  * Configuration for grid validation and diagnostic behavior
@@ -58,26 +78,101 @@ import { layoutTxToSectionLocal } from "./layoutTxToSectionLocal";
  *   - "error": Check and report errors for overlaps
  * @property breakpoints - Which breakpoints to validate (defaults to all)
  */
-type GridDiagnostic = {
+type GridDiagnostic<BP extends string = Breakpoint> = {
   overlapPolicy?: "allow" | "warn" | "error";
-  breakpoints?: readonly (typeof BREAKPOINTS)[number][];
+  breakpoints?: readonly BP[];
 };
 
+/**
+ * Input of `CSSLayout` tagged with the pipeline stage it belongs to.
+ * The pipeline starts at the stage that takes this input, so precomputed
+ * boxes skip the stages that would produce them. An untagged `Layout` is
+ * the same as `{ kind: "Layout", layout }`.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * // GridBox maps built by hand start at layoutTxToSectionLocal
+ * CSSLayout({ layout: { kind: "LayoutWithTx", layout: myLayoutWithTx }, diagnostics });
+ *
+ * // Stored section bounds start at layoutSectionBtoAbsolute
+ * CSSLayout({ layout: { kind: "LayoutSectionBounds", layout: savedBounds }, diagnostics });
+ * ```
+ */
+export type CSSLayoutInput<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> =
+  | { kind: "Layout"; layout: Layout<sectionIDs, blockIDs, BP> }
+  | { kind: "LayoutWithTx"; layout: LayoutWithTx<sectionIDs, blockIDs, Ext, BP> }
+  | { kind: "LayoutSectionLocal"; layout: LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP> }
+  | { kind: "LayoutSectionBounds"; layout: LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP> };
+
 /**
  * Props for the main CSSLayout function
  * 
  * @template sectionIDs - Union type of valid section identifiers
  * @template blockIDs - Union type of valid block identifiers
- * @property layout - Input layout definition before transformation processing
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property layout - Input layout definition before transformation processing, or the
+ *   output of a later stage tagged with its kind (see `CSSLayoutInput`). Hooks and trace
+ *   records are only produced for the stages that run.
  * @property diagnostics - Array to collect errors, warnings, and diagnostic information
  * @property theme - Optional layout theme for applying transformations and styling
  * @property gridDiagnostic - Optional validation configuration for overlap detection
+ * @property transformationFactory - Optional transformation registry (defaults to `DefaultBoxTransformations()`)
+ * @property breakpoints - Optional breakpoint names, smallest first (defaults to `BREAKPOINTS`).
+ *   The theme and the overlap check use the same names; they are only inferred from this list.
+ * @property direction - Optional inline direction (defaults to "ltr"). With "rtl" the columns
+ *   of every box and section are mirrored within the grid width at each breakpoint.
+ * @property transpose - Optional flag to swap rows and columns of the whole layout at each
+ *   breakpoint (defaults to false), so one layout serves both landscape and portrait screens.
+ * @property compact - Optional removal of the rows and columns no box occupies, right after
+ *   the absolute coordinates are computed (defaults to false). Pass options to keep every
+ *   empty track between boxes. See `compactLayoutAbsolute`.
+ * @property quantize - Optional flag to divide the grid lines of each axis by their greatest
+ *   common divisor (defaults to false), so pixel-like extents give small grids.
+ *   See `quantizeLayoutAbsolute`.
+ * @property rescale - Optional target column count, for all or per breakpoint, with a rounding
+ *   policy. Applied after transposition, so it always counts the final columns.
+ *   See `rescaleLayoutAbsolute`.
+ * @property hooks - Optional hooks run after the pipeline stages, or a list of them run in
+ *   order. A hook may return a replacement for the stage result or add diagnostics.
+ * @property trace - Optional array that turns tracing on. It receives, per breakpoint and
+ *   section, a snapshot of every box after each transformation (with the transformation
+ *   props and the boxes it changed) and after each stage that runs, before the
+ *   `afterAbsolute` hooks. See `explainBox`.
  */
-type CSSLayoutProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
-  layout: Layout<sectionIDs, blockIDs>;
+export type CSSLayoutProps<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = {
+  layout:
+    | Layout<sectionIDs, blockIDs, NoInferBP<BP>>
+    | CSSLayoutInput<sectionIDs, blockIDs, Ext, NoInferBP<BP>>;
   diagnostics: DiagnosticEntry[];
-  theme?: ThemeForLayout<sectionIDs, blockIDs>;
-  gridDiagnostic?: GridDiagnostic;
+  theme?: ThemeForLayout<sectionIDs, blockIDs, Ext, NoInferBP<BP>>;
+  gridDiagnostic?: GridDiagnostic<NoInferBP<BP>>;
+  transformationFactory?: BoxMovesFunctions<NodeID, Ext>;
+  breakpoints?: readonly BP[];
+  direction?: LayoutDirection;
+  transpose?: boolean;
+  compact?: boolean | CompactOptions;
+  quantize?: boolean;
+  rescale?: RescaleOptions<NoInferBP<BP>>;
+  hooks?:
+    | CSSLayoutHooks<sectionIDs, blockIDs, Ext, NoInferBP<BP>>
+    | readonly CSSLayoutHooks<sectionIDs, blockIDs, Ext, NoInferBP<BP>>[];
+  trace?: LayoutTraceRecord<NoInferBP<BP>>[];
 };
 
 /**
@@ -91,8 +186,16 @@ type CSSLayoutProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> =
  * 1. layoutToTx - Applies theme transformations and converts to LayoutWithTx
  * 2. layoutTxToSectionLocal - Resolves transformations to local section coordinates
  * 3. layoutSectionToBounds - Calculates bounding boxes for each section
- * 4. layoutSectionBtoAbsolute - Converts to absolute CSS Grid coordinates
- * 5. checkSectionsOverlap - Validates for overlapping elements (if enabled)
+ * 4. layoutSectionBtoAbsolute - Converts to absolute CSS Grid coordinates, then
+ *    compactLayoutAbsolute removes empty rows and columns (if compact is set) and
+ *    quantizeLayoutAbsolute divides the lines by their GCD (if quantize is set)
+ * 5. transposeLayoutAbsolute - Swaps rows and columns (if transpose is set), then
+ *    rescaleLayoutAbsolute maps the columns onto a target count (if rescale is set)
+ * 6. mirrorLayoutAbsolute - Mirrors the columns (if direction is "rtl")
+ * 7. checkSectionsOverlap - Validates for overlapping elements (if enabled)
+ * 
+ * A tagged `LayoutWithTx`, `LayoutSectionLocal` or `LayoutSectionBounds` input starts
+ * the pipeline at the stage that takes it (see `CSSLayoutInput`).
  * 
  * Features:
  * - Handles multi-breakpoint responsive layouts automatically
@@ -102,6 +205,8 @@ type CSSLayoutProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> =
  * 
  * @template sectionIDs - Union type of valid section identifiers  
  * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param props - Configuration object containing layout definition and options
  * @returns Complete layout with absolute CSS Grid coordinates for all sections and blocks
  * 
@@ -114,44 +219,304 @@ type CSSLayoutProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> =
  *   theme: customTheme, // optional
  *   gridDiagnostic: { overlapPolicy: 'warn' } // optional
  * });
+ * 
+ * // With custom transformations registered next to the defaults
+ * const layoutWithDock = CSSLayout<SectionIDs, BlocksIDs, CompanyMoves>({
+ *   layout: myLayout,
+ *   diagnostics,
+ *   theme: companyTheme, // may emit { dockToSidebar: {...} }
+ *   transformationFactory: extendBoxTransformations<CompanyMoves>({ dockToSidebar }),
+ * });
+ *
+ * // With a custom breakpoint set (the renderer's MUI theme must define the same keys)
+ * const widgetBreakpoints = ['mobile', 'desktop'] as const;
+ * const widgetLayout = CSSLayout({
+ *   layout: myLayout,
+ *   diagnostics,
+ *   theme: getDefaultTheme(myLayout, widgetBreakpoints),
+ *   breakpoints: widgetBreakpoints,
+ * });
+ *
+ * // Right-to-left: sidebars and horizontal stacks flip
+ * const rtlLayout = CSSLayout({ layout: myLayout, diagnostics, direction: 'rtl' });
+ *
+ * // Portrait kiosk: the same layout with rows and columns swapped
+ * const portraitLayout = CSSLayout({ layout: myLayout, diagnostics, transpose: isPortrait });
+ *
+ * // With hooks between the stages (a list runs in order, like middleware)
+ * const rankedLayout = CSSLayout({
+ *   layout: myLayout,
+ *   diagnostics,
+ *   hooks: [analyticsOrder, houseRules],
+ * });
+ *
+ * // GridBox maps built by hand skip the theme
+ * const handBuilt = CSSLayout({
+ *   layout: { kind: 'LayoutWithTx', layout: myLayoutWithTx },
+ *   diagnostics,
+ * });
+ *
+ * // Why is block_3 where it is?
+ * const trace: LayoutTraceRecord[] = [];
+ * CSSLayout({ layout: myLayout, diagnostics, trace });
+ * const moves = explainBox(trace, 'md', 'main', 'block_3');
  * ```
  */
-export function CSSLayout<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs >({
-  layout ,
-  diagnostics,
-  theme,
-  gridDiagnostic = { overlapPolicy: "allow", breakpoints: BREAKPOINTS },
-}: CSSLayoutProps<sectionIDs, blockIDs  >): LayoutAbsolute<
+export function CSSLayout<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+>(props: CSSLayoutProps<sectionIDs, blockIDs, Ext, BP>): LayoutAbsolute<
   sectionIDs,
-  blockIDs
+  blockIDs,
+  BP
 > {
+  const {
+    layout,
+    diagnostics,
+    theme,
+    transformationFactory,
+    breakpoints = BREAKPOINTS as readonly string[] as readonly BP[],
+    hooks = [],
+    trace,
+  } = props;
+
+  const input = tagLayoutInput(layout);
+
+  // Section-local boxes and bounding boxes start at section placement
+  if (input.kind === "LayoutSectionLocal" || input.kind === "LayoutSectionBounds") {
+    return completeCSSLayout(input, { ...props, breakpoints });
+  }
+
+  const hookList = listHooks<sectionIDs, blockIDs, Ext, BP>(hooks);
+  const hookContext = { diagnostics, breakpoints };
 
-  const layoutWithTx = layoutToTx(layout, diagnostics, theme);
+  let layoutWithTx: LayoutWithTx<sectionIDs, blockIDs, Ext, BP>;
+
+  if (input.kind === "LayoutWithTx") {
+    layoutWithTx = input.layout;
+  } else {
+    layoutWithTx = runPipelineHooks(
+      hookList.map((h) => h.afterLayoutToTx),
+      layoutToTx(input.layout, diagnostics, theme, breakpoints),
+      hookContext
+    );
+
+    if (trace) {
+      const gridBoxes: Partial<Record<sectionIDs, (typeof layoutWithTx.sections)[sectionIDs]["gridBoxes"]>> = {};
+      for (const sectionId of recordKeys(layoutWithTx.sections)) {
+        gridBoxes[sectionId] = layoutWithTx.sections[sectionId].gridBoxes;
+      }
+      traceStageBoxes(trace, "layoutToTx", gridBoxes, breakpoints);
+    }
+  }
 
   // Step 1: Apply transformations and convert to local section coordinates
   // This resolves all transformation rules and positions boxes within sections
-  const layoutSectionLocal = layoutTxToSectionLocal(layoutWithTx, diagnostics);
+  const layoutSectionLocal = runPipelineHooks(
+    hookList.map((h) => h.afterSectionLocal),
+    layoutTxToSectionLocal(layoutWithTx, diagnostics, transformationFactory, breakpoints, trace),
+    hookContext
+  );
+
+  if (trace) {
+    traceStageBoxes(trace, "layoutTxToSectionLocal", layoutSectionLocal.sections, breakpoints);
+  }
+
+  return completeCSSLayout({ kind: "LayoutSectionLocal", layout: layoutSectionLocal }, { ...props, breakpoints });
+}
+
+/**
+ * Tag an untagged `Layout` passed to `CSSLayout`
+ *
+ * Tagged inputs are recognized by their `kind`, which is never a section ID.
+ *
+ * @param layout - The `layout` prop of `CSSLayout`
+ * @returns The input tagged with its stage
+ */
+function tagLayoutInput<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string
+>(
+  layout: Layout<sectionIDs, blockIDs, BP> | CSSLayoutInput<sectionIDs, blockIDs, Ext, BP>
+): CSSLayoutInput<sectionIDs, blockIDs, Ext, BP> {
+  if ("kind" in layout && typeof layout.kind === "string") {
+    return layout as CSSLayoutInput<sectionIDs, blockIDs, Ext, BP>;
+  }
+
+  return { kind: "Layout", layout: layout as Layout<sectionIDs, blockIDs, BP> };
+}
+
+/**
+ * Normalize the `hooks` prop to a list run in registration order
+ *
+ * @param hooks - A single hooks object or a list of them
+ * @returns The list of hooks objects
+ */
+export function listHooks<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string
+>(
+  hooks: CSSLayoutProps<sectionIDs, blockIDs, Ext, BP>["hooks"] = []
+): readonly CSSLayoutHooks<sectionIDs, blockIDs, Ext, BP>[] {
+  return Array.isArray(hooks) ? hooks : [hooks as CSSLayoutHooks<sectionIDs, blockIDs, Ext, BP>];
+}
 
-  // Step 2: Calculate bounding boxes for each section across all breakpoints
-  // This finds the minimum rectangle that contains all boxes in each section
-  const layoutSecBonds = layoutSectionToBounds(layoutSectionLocal, diagnostics);
+/**
+ * Run the `CSSLayout` pipeline from section placement on
+ *
+ * Takes section-local boxes (the result of `layoutTxToSectionLocal`) or section bounds,
+ * and runs the remaining stages: bounds, absolute coordinates, then the optional
+ * compaction, quantization, transposition, rescaling and mirroring, the overlap check
+ * and the hooks and trace records of the stages that run.
+ * `CSSLayout` and the incremental engine share it; the `layout` and `theme` props
+ * are not used.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param input - Section-local boxes or section bounds, tagged with their stage
+ * @param props - The `CSSLayout` props of the run
+ * @returns Complete layout with absolute CSS Grid coordinates
+ */
+export function completeCSSLayout<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+>(
+  input: Extract<
+    CSSLayoutInput<sectionIDs, blockIDs, Ext, BP>,
+    { kind: "LayoutSectionLocal" | "LayoutSectionBounds" }
+  >,
+  {
+    diagnostics,
+    gridDiagnostic = { overlapPolicy: "allow" },
+    transformationFactory,
+    breakpoints = BREAKPOINTS as readonly string[] as readonly BP[],
+    direction = "ltr",
+    transpose = false,
+    compact = false,
+    quantize = false,
+    rescale,
+    hooks = [],
+    trace,
+  }: Omit<CSSLayoutProps<sectionIDs, blockIDs, Ext, BP>, "layout" | "theme">
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const hookList = listHooks<sectionIDs, blockIDs, Ext, BP>(hooks);
+  const hookContext = { diagnostics, breakpoints };
+
+  let layoutSecBonds: LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP>;
+
+  if (input.kind === "LayoutSectionBounds") {
+    layoutSecBonds = input.layout;
+  } else {
+    // Step 2: Calculate bounding boxes for each section across all breakpoints
+    // This finds the minimum rectangle that contains all boxes in each section
+    layoutSecBonds = runPipelineHooks(
+      hookList.map((h) => h.afterSectionBounds),
+      layoutSectionToBounds(input.layout, diagnostics, breakpoints),
+      hookContext
+    );
+  }
+
+  if (trace && input.kind === "LayoutSectionLocal") {
+    traceStageBoxes(trace, "layoutSectionToBounds", layoutSecBonds.sections, breakpoints);
+    for (const bp of breakpoints) {
+      trace.push({
+        kind: "stage",
+        stage: "layoutSectionToBounds",
+        bp,
+        boxes: snapshotBoxes(layoutSecBonds.boundingBoxes[bp]),
+      });
+    }
+  }
 
   // Step 3: Convert to absolute CSS Grid coordinates
   // This positions sections absolutely and ensures all coordinates are valid for CSS Grid
-  const layoutSecAbs = layoutSectionBtoAbsolute(layoutSecBonds, diagnostics);
+  const layoutSecAbsFull = layoutSectionBtoAbsolute(
+    layoutSecBonds,
+    diagnostics,
+    transformationFactory,
+    breakpoints,
+    trace
+  );
+
+  if (trace) {
+    traceStageCoordinates(trace, "layoutSectionBtoAbsolute", layoutSecAbsFull.sections, breakpoints);
+  }
+
+  // Optionally drop the rows and columns no box occupies
+  const layoutSecAbsCompact = compact
+    ? compactLayoutAbsolute(layoutSecAbsFull, diagnostics, compact === true ? {} : compact, breakpoints)
+    : layoutSecAbsFull;
+
+  if (trace && compact) {
+    traceStageCoordinates(trace, "compactLayoutAbsolute", layoutSecAbsCompact.sections, breakpoints);
+  }
+
+  // Optionally divide the lines by their greatest common divisor
+  const layoutSecAbsLandscape = quantize
+    ? quantizeLayoutAbsolute(layoutSecAbsCompact, diagnostics, breakpoints)
+    : layoutSecAbsCompact;
+
+  if (trace && quantize) {
+    traceStageCoordinates(trace, "quantizeLayoutAbsolute", layoutSecAbsLandscape.sections, breakpoints);
+  }
+
+  // Step 4: Swap rows and columns for portrait screens
+  // The result is normalized back to lines starting from 1
+  const layoutSecAbsOriented = transpose
+    ? transposeLayoutAbsolute(layoutSecAbsLandscape, breakpoints)
+    : layoutSecAbsLandscape;
+
+  if (trace && transpose) {
+    traceStageCoordinates(trace, "transposeLayoutAbsolute", layoutSecAbsOriented.sections, breakpoints);
+  }
+
+  // Optionally map the columns onto a target column count
+  const layoutSecAbsLtr = rescale
+    ? rescaleLayoutAbsolute(layoutSecAbsOriented, diagnostics, rescale, breakpoints)
+    : layoutSecAbsOriented;
+
+  if (trace && rescale) {
+    traceStageCoordinates(trace, "rescaleLayoutAbsolute", layoutSecAbsLtr.sections, breakpoints);
+  }
+
+  // Step 5: Mirror the columns for right-to-left layouts
+  // Rows are kept; columns are reflected within the grid width of each breakpoint
+  const layoutSecAbsFinal =
+    direction === "rtl" ? mirrorLayoutAbsolute(layoutSecAbsLtr, breakpoints) : layoutSecAbsLtr;
+
+  if (trace && direction === "rtl") {
+    traceStageCoordinates(trace, "mirrorLayoutAbsolute", layoutSecAbsFinal.sections, breakpoints);
+  }
+
+  // The final coordinates go through the hooks before the overlap check
+  const layoutSecAbs = runPipelineHooks(
+    hookList.map((h) => h.afterAbsolute),
+    layoutSecAbsFinal,
+    hookContext
+  );
 
   // Extract diagnostic configuration with defaults
   const overlapPolicy = gridDiagnostic.overlapPolicy || "allow";
-  const breakpoints = gridDiagnostic.breakpoints || BREAKPOINTS;
+  const overlapBreakpoints = gridDiagnostic.breakpoints || breakpoints;
 
-  // Step 4: Optional overlap detection and validation
+  // Step 6: Optional overlap detection and validation
   // Check for overlapping boxes if overlap policy is not "allow"
   if (overlapPolicy !== "allow") {
-    checkSectionsOverlap<sectionIDs, blockIDs>(
+    checkSectionsOverlap<sectionIDs, blockIDs, BP>(
       layoutSecAbs,
       diagnostics,
       overlapPolicy,
-      breakpoints
+      overlapBreakpoints
     );
   }
 
@@ -185,9 +550,10 @@ type OverlapRef<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
  */
 type OverlapDetails<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  BP extends string
 > = {
-  bp: (typeof BREAKPOINTS)[number];        // Which breakpoint the overlap occurs at
+  bp: BP;                                  // Which breakpoint the overlap occurs at
   a: OverlapRef<sectionIDs, blockIDs>;     // First overlapping box
   b: OverlapRef<sectionIDs, blockIDs>;     // Second overlapping box
   pairKey: string;                         // Unique identifier for this overlap pair
@@ -197,9 +563,9 @@ type OverlapDetails<
  * Box with metadata for overlap detection processing
  * Combines box coordinates with identification information
  */
-type BoxWithMeta<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
+type BoxWithMeta<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs, BP extends string> = {
   id: string;                              // Composite unique identifier
-  bp: (typeof BREAKPOINTS)[number];       // Breakpoint this box exists at
+  bp: BP;                                 // Breakpoint this box exists at
   sectionId: sectionIDs;                  // Parent section identifier
   boxId: blockIDs;                        // Box identifier within section
   coords: CSSCoordinates;                 // Actual CSS Grid coordinates
@@ -270,6 +636,7 @@ function overlaps(a: CSSCoordinates, b: CSSCoordinates): boolean {
  * 
  * @template sectionIDs - Section identifier type
  * @template blockIDs - Block identifier type
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param layoutAbsolute - Layout with final absolute CSS coordinates
  * @param diagnostics - Array to add overlap reports to
  * @param overlapPolicy - Whether to generate warnings or errors for overlaps
@@ -277,12 +644,13 @@ function overlaps(a: CSSCoordinates, b: CSSCoordinates): boolean {
  */
 export function checkSectionsOverlap<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
 >(
-  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs>,
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
   diagnostics: DiagnosticEntry[],
   overlapPolicy: "warn" | "error",
-  breakpoints: readonly (typeof BREAKPOINTS)[number][]
+  breakpoints: readonly BP[]
 ) {
   // Get all section IDs for iteration
   const sectionIds = recordKeys(layoutAbsolute.sections);
@@ -290,7 +658,7 @@ export function checkSectionsOverlap<
   // Process each breakpoint separately
   for (const bp of breakpoints) {
     // Collect all boxes at this breakpoint into a flat list for comparison
-    const boxesByBp: BoxWithMeta<sectionIDs, blockIDs>[] = [];
+    const boxesByBp: BoxWithMeta<sectionIDs, blockIDs, BP>[] = [];
 
     // Flatten all boxes from all sections
     for (const sectionId of sectionIds) {
@@ -326,7 +694,7 @@ export function checkSectionsOverlap<
         if (!overlaps(a.coords, b.coords)) continue;
 
         // Create detailed overlap information for diagnostic reporting
-        const details: OverlapDetails<sectionIDs, blockIDs> = {
+        const details: OverlapDetails<sectionIDs, blockIDs, BP> = {
           bp,
           a: {
             sectionId: a.sectionId,
@@ -0,0 +1,70 @@
+// CSSLayout.bounds.test.ts
+
+import { Layout, LayoutAbsolute } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { CSSCoordinates } from '../../gridNodeTypes';
+import { CSSLayout } from '../CSSlayout';
+
+type S = 'header' | 'main' | 'footer';
+type B = 'block_1' | 'block_2';
+
+describe('section bounds in LayoutAbsolute', () => {
+  const layout: Layout<S, B> = {
+    header: { block_1: { spanX: 6, spanY: 1 }, block_2: { spanX: 3, spanY: 1 } },
+    main: { block_1: { spanX: 3, spanY: 2 }, block_2: { spanX: { xs: 3, md: 6 }, spanY: 2 } },
+    footer: { block_1: { spanX: 12, spanY: 1, visible: { xs: false, md: true } } },
+  };
+
+  // Smallest rectangle around the boxes of a section
+  const hull = (boxes: Partial<Record<B, CSSCoordinates>>): CSSCoordinates => {
+    const coords = Object.values(boxes) as CSSCoordinates[];
+    return {
+      gridColumnStart: Math.min(...coords.map((c) => c.gridColumnStart)),
+      gridColumnEnd: Math.max(...coords.map((c) => c.gridColumnEnd)),
+      gridRowStart: Math.min(...coords.map((c) => c.gridRowStart)),
+      gridRowEnd: Math.max(...coords.map((c) => c.gridRowEnd)),
+    };
+  };
+
+  const expectTightBounds = (absolute: LayoutAbsolute<S, B>) => {
+    for (const section of Object.keys(absolute.sections) as S[]) {
+      for (const bp of BREAKPOINTS) {
+        const boxes = absolute.sections[section].coordinates[bp];
+        const bounds = absolute.sections[section].bounds?.[bp];
+        if (Object.keys(boxes).length === 0) {
+          expect(bounds).toBeUndefined();
+        } else {
+          expect(bounds).toEqual(hull(boxes));
+        }
+      }
+    }
+  };
+
+  test('every visible section has the rectangle around its boxes', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({ layout, diagnostics });
+
+    expectTightBounds(absolute);
+    expect(absolute.sections.main.bounds?.md).toEqual({
+      gridColumnStart: 1,
+      gridColumnEnd: 10,
+      gridRowStart: 2,
+      gridRowEnd: 4,
+    });
+  });
+
+  test('sections hidden at a breakpoint have no bounds there', () => {
+    const absolute = CSSLayout({ layout, diagnostics: [] });
+
+    expect(absolute.sections.footer.bounds?.xs).toBeUndefined();
+    expect(absolute.sections.footer.bounds?.sm).toBeUndefined();
+    expect(absolute.sections.footer.bounds?.md).toBeDefined();
+  });
+
+  test('bounds follow the boxes when mirrored and transposed', () => {
+    expectTightBounds(CSSLayout({ layout, diagnostics: [], direction: 'rtl' }));
+    expectTightBounds(CSSLayout({ layout, diagnostics: [], transpose: true }));
+    expectTightBounds(CSSLayout({ layout, diagnostics: [], direction: 'rtl', transpose: true }));
+  });
+});
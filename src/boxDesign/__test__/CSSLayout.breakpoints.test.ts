@@ -0,0 +1,55 @@
+// CSSLayout.breakpoints.test.ts
+
+import { BREAKPOINTS, cascadeBps } from '../../breakpoints';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { getLayoutFromCatalog } from '../../templates';
+import { CSSLayout } from '../CSSlayout';
+
+describe('configurable breakpoint sets', () => {
+  const layout = getLayoutFromCatalog('primary20', 'page_dashboard_kpis_then_content');
+
+  test('cascadeBps follows the given breakpoint order', () => {
+    const widget = ['mobile', 'tablet', 'desktop'] as const;
+
+    expect(cascadeBps({ mobile: 1, desktop: 3 }, undefined, widget)).toEqual({
+      mobile: 1,
+      tablet: 1,
+      desktop: 3,
+    });
+  });
+
+  test('a mobile | desktop pair runs through the whole pipeline', () => {
+    const widget = ['mobile', 'desktop'] as const;
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const absolute = CSSLayout({
+      layout,
+      diagnostics,
+      theme: getDefaultTheme(layout, widget),
+      gridDiagnostic: { overlapPolicy: 'error' },
+      breakpoints: widget,
+    });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(Object.keys(absolute.gridDimensions.columns)).toEqual(['mobile', 'desktop']);
+    expect(Object.keys(absolute.sections.main.coordinates)).toEqual(['mobile', 'desktop']);
+
+    // The smallest breakpoint plays the role of xs in the default theme
+    const standard = CSSLayout({ layout, diagnostics: [] });
+    expect(absolute.gridDimensions.columns.mobile).toBe(standard.gridDimensions.columns.xs);
+    expect(absolute.sections.main.coordinates.mobile).toEqual(standard.sections.main.coordinates.xs);
+    expect(absolute.sections.main.coordinates.desktop).toEqual(standard.sections.main.coordinates.sm);
+  });
+
+  test('an extra xxl breakpoint is resolved like the ones below it', () => {
+    const wall = [...BREAKPOINTS, 'xxl'] as const;
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const absolute = CSSLayout({ layout, diagnostics, breakpoints: wall });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(absolute.gridDimensions.columns.xxl).toBe(absolute.gridDimensions.columns.xl);
+    expect(absolute.sections.main.coordinates.xxl).toEqual(absolute.sections.main.coordinates.xl);
+  });
+});
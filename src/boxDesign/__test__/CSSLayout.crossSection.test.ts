@@ -0,0 +1,119 @@
+// CSSLayout.crossSection.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { BoxMovesProps } from '../../boxTransformations';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { ThemeForLayout } from '../../layoutTheme/layoutThemeTypes';
+import { CSSLayout } from '../CSSlayout';
+import { layoutTxToSectionLocal } from '../layoutTxToSectionLocal';
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2';
+
+describe('cross-section references', () => {
+  // header: a 3-column logo and a 4-column menu; main: one 2-column block
+  const layout = {
+    header: { block_1: { spanX: 3, spanY: 1 }, block_2: { spanX: 4, spanY: 1 } },
+    main: { block_1: { spanX: 2, spanY: 1 } },
+  } satisfies Layout<S, B>;
+
+  // main's transformations at md end with `extra`
+  const themeWith = (extra: BoxMovesProps<B>): ThemeForLayout<S, B> => {
+    const defaultTheme = getDefaultTheme(layout);
+    return {
+      ...defaultTheme,
+      sectionBoxTransforms: (section, layout) => {
+        const base = defaultTheme.sectionBoxTransforms(section, layout);
+        return section === 'main' ? { ...base, md: [...base.md, extra as (typeof base.md)[number]] } : base;
+      },
+    };
+  };
+
+  test('a main block lines up with a header block after section placement', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({
+      layout,
+      diagnostics,
+      theme: themeWith({
+        alignToX: {
+          from: { boxId: 'block_1', anchor: 'bottomLeft' },
+          to: { sectionId: 'header', boxId: 'block_2', anchor: 'bottomLeft' },
+        },
+      }),
+    });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+
+    expect(absolute.sections.main.coordinates.md.block_1!.gridColumnStart).toBe(
+      absolute.sections.header.coordinates.md.block_2!.gridColumnStart,
+    );
+    expect(absolute.sections.main.coordinates.sm.block_1!.gridColumnStart).toBe(1);
+    expect(absolute.gridDimensions.columns.md).toBe(7);
+  });
+
+  test('the section grows over a block moved past its bounding box', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({
+      layout,
+      diagnostics,
+      theme: themeWith({
+        moveTo: {
+          from: { boxId: 'block_1', anchor: 'bottomLeft' },
+          to: { sectionId: 'header', boxId: 'block_2', anchor: 'bottomRight' },
+        },
+      }),
+    });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(absolute.sections.main.coordinates.md.block_1).toEqual({
+      gridColumnStart: 8,
+      gridColumnEnd: 10,
+      gridRowStart: 1,
+      gridRowEnd: 2,
+    });
+    expect(absolute.gridDimensions.columns.md).toBe(9);
+  });
+
+  test('unknown sections are reported and the transformation is skipped', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({
+      layout,
+      diagnostics,
+      theme: themeWith({
+        alignToX: {
+          from: { boxId: 'block_1', anchor: 'bottomLeft' },
+          to: { sectionId: 'footer', boxId: 'block_1', anchor: 'bottomLeft' },
+        },
+      }),
+    });
+
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    expect(errors.map((d) => d.issue.code)).toEqual([GRID_ERROR_CODE.UNKNOWN_NODE_ID]);
+    expect(errors[0].issue.elementId).toBe('main');
+    expect(absolute.sections.main.coordinates.md.block_1!.gridColumnStart).toBe(1);
+  });
+
+  test('transformations that move a box of another section are dropped', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const local = layoutTxToSectionLocal<S, B>(
+      {
+        sections: {
+          header: { gridBoxes: { xs: {} } },
+          main: {
+            gridBoxes: { xs: {} },
+            transformations: {
+              xs: [{ moveBy: { from: { sectionId: 'header', boxId: 'block_1' }, by: 1 } }],
+            },
+          },
+        },
+      },
+      diagnostics,
+    );
+
+    expect(local.crossSectionTransformations).toBeUndefined();
+    expect(
+      diagnostics.filter((d) => d.issue.code === GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS),
+    ).toHaveLength(5);
+  });
+});
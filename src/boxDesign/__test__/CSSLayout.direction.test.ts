@@ -0,0 +1,77 @@
+// CSSLayout.direction.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { CSSLayout } from '../CSSlayout';
+import { mirrorCSSCoordinates, mirrorLayoutAbsolute } from '../mirrorLayoutAbsolute';
+
+describe('right-to-left direction', () => {
+  const layout = {
+    header: { block_1: { spanX: 6, spanY: 1 } },
+    main: {
+      block_1: { spanX: 3, spanY: 4 },
+      block_2: { spanX: 5, spanY: 2 },
+      block_3: { spanX: 2, spanY: 1, visible: { xs: false, md: true } },
+    },
+  } satisfies Layout<'header' | 'main', 'block_1' | 'block_2' | 'block_3'>;
+
+  test('mirrorCSSCoordinates flips columns within the grid and keeps rows', () => {
+    const sidebar = { gridRowStart: 2, gridColumnStart: 1, gridRowEnd: 5, gridColumnEnd: 4 };
+
+    expect(mirrorCSSCoordinates(sidebar, 12)).toEqual({
+      gridRowStart: 2,
+      gridColumnStart: 10,
+      gridRowEnd: 5,
+      gridColumnEnd: 13,
+    });
+  });
+
+  test('rtl mirrors every box within the grid width of its breakpoint', () => {
+    const ltr = CSSLayout({ layout, diagnostics: [] });
+    const rtl = CSSLayout({ layout, diagnostics: [], direction: 'rtl' });
+
+    expect(rtl.gridDimensions).toEqual(ltr.gridDimensions);
+    expect(rtl.hiddenBoxes).toEqual(ltr.hiddenBoxes);
+
+    for (const bp of BREAKPOINTS) {
+      const columns = ltr.gridDimensions.columns[bp];
+
+      for (const sectionId of ['header', 'main'] as const) {
+        const ltrBoxes = ltr.sections[sectionId].coordinates[bp];
+        const rtlBoxes = rtl.sections[sectionId].coordinates[bp];
+        expect(Object.keys(rtlBoxes)).toEqual(Object.keys(ltrBoxes));
+
+        for (const boxId of Object.keys(ltrBoxes) as Array<keyof typeof ltrBoxes>) {
+          const a = ltrBoxes[boxId]!;
+          const b = rtlBoxes[boxId]!;
+
+          expect(b.gridRowStart).toBe(a.gridRowStart);
+          expect(b.gridRowEnd).toBe(a.gridRowEnd);
+          expect(b.gridColumnEnd - b.gridColumnStart).toBe(a.gridColumnEnd - a.gridColumnStart);
+          expect(b.gridColumnStart - 1).toBe(columns + 1 - a.gridColumnEnd);
+          expect(b.gridColumnStart).toBeGreaterThanOrEqual(1);
+          expect(b.gridColumnEnd).toBeLessThanOrEqual(columns + 1);
+        }
+      }
+    }
+  });
+
+  test('mirroring twice gives back the ltr layout byte for byte', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const ltr = CSSLayout({ layout, diagnostics });
+    const rtl = CSSLayout({ layout, diagnostics: [], direction: 'rtl' });
+
+    expect(JSON.stringify(mirrorLayoutAbsolute(rtl))).toBe(JSON.stringify(ltr));
+    expect(JSON.stringify(mirrorLayoutAbsolute(ltr))).toBe(JSON.stringify(rtl));
+  });
+
+  test('the input layout is not modified', () => {
+    const ltr = CSSLayout({ layout, diagnostics: [] });
+    const snapshot = JSON.stringify(ltr);
+
+    mirrorLayoutAbsolute(ltr);
+
+    expect(JSON.stringify(ltr)).toBe(snapshot);
+  });
+});
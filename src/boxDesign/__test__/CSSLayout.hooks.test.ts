@@ -0,0 +1,92 @@
+// CSSLayout.hooks.test.ts
+
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { DiagnosticEntry, GRID_ERROR_CODE, makeInfo } from '../../gridErrorShape';
+import { CSSLayout } from '../CSSlayout';
+
+describe('pipeline hooks', () => {
+  const layout = {
+    header: { block_1: { spanX: 6, spanY: 1 } },
+    main: {
+      block_1: { spanX: 3, spanY: 2 },
+      block_2: { spanX: 3, spanY: 2 },
+    },
+  } satisfies Layout<'header' | 'main', 'block_1' | 'block_2'>;
+
+  test('hooks run after each stage in pipeline order', () => {
+    const stages: string[] = [];
+
+    CSSLayout({
+      layout,
+      diagnostics: [],
+      hooks: {
+        afterAbsolute: (value) => void stages.push(`absolute:${Object.keys(value.sections)}`),
+        afterSectionBounds: (value) => void stages.push(`bounds:${Object.keys(value.sections)}`),
+        afterSectionLocal: (value) => void stages.push(`local:${Object.keys(value.sections)}`),
+        afterLayoutToTx: (value) => void stages.push(`tx:${Object.keys(value.sections)}`),
+      },
+    });
+
+    expect(stages).toEqual(['tx:header,main', 'local:header,main', 'bounds:header,main', 'absolute:header,main']);
+  });
+
+  test('a hook may replace the value passed to the next stage', () => {
+    const plain = CSSLayout({ layout, diagnostics: [] });
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const reordered = CSSLayout({
+      layout,
+      diagnostics,
+      hooks: {
+        // Put block_2 before block_1 at md, as an analytics ranking would
+        afterLayoutToTx: (value) => ({
+          ...value,
+          sections: {
+            ...value.sections,
+            main: {
+              ...value.sections.main,
+              transformations: {
+                ...value.sections.main.transformations,
+                md: [{ stackHorizontally: { order: ['block_2', 'block_1'] } }],
+              } as typeof value.sections.main.transformations,
+            },
+          },
+        }),
+      },
+    });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    const md = reordered.sections.main.coordinates.md;
+    expect(md.block_2!.gridColumnStart).toBeLessThan(md.block_1!.gridColumnStart);
+    expect(reordered.sections.main.coordinates.xs).toEqual(plain.sections.main.coordinates.xs);
+  });
+
+  test('a list of hooks chains replacements and may add diagnostics', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const result = CSSLayout({
+      layout,
+      diagnostics,
+      hooks: [
+        {
+          // House rule: the header is always 12 columns wide
+          afterSectionLocal: (value) => {
+            value.sections.header.md.block_1 = makeGridBox({ x: 0, y: 0 }, { x: 12, y: 1 });
+            return value;
+          },
+        },
+        {
+          afterSectionLocal: (value, { diagnostics }) => {
+            const width = value.sections.header.md.block_1!.diagonal.x;
+            diagnostics.push(makeInfo('CSSLayout', GRID_ERROR_CODE.BREAKPOINT_INHERITED, `header is ${width} wide`));
+          },
+        },
+      ],
+    });
+
+    expect(diagnostics.map((d) => d.issue.message)).toContain('header is 12 wide');
+    const header = result.sections.header.coordinates.md.block_1!;
+    expect(header.gridColumnEnd - header.gridColumnStart).toBe(12);
+  });
+});
@@ -0,0 +1,104 @@
+// CSSLayout.input.test.ts
+
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { Layout, LayoutWithTx } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { CSSLayout } from '../CSSlayout';
+import { LayoutTraceRecord } from '../layoutTrace';
+import { layoutSectionToBounds } from '../layoutSectionToBounds';
+import { layoutToTx } from '../layoutToTx';
+import { layoutTxToSectionLocal } from '../layoutTxToSectionLocal';
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2';
+
+describe('CSSLayout stage inputs', () => {
+  const layout: Layout<S, B> = {
+    header: { block_1: { spanX: 6, spanY: 1 } },
+    main: { block_1: { spanX: 3, spanY: 2 }, block_2: { spanX: { xs: 3, md: 6 }, spanY: 2 } },
+  };
+
+  const stages = () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const layoutWithTx = layoutToTx(layout, diagnostics, getDefaultTheme(layout));
+    const layoutSectionLocal = layoutTxToSectionLocal(layoutWithTx, diagnostics);
+    const layoutSectionBounds = layoutSectionToBounds(layoutSectionLocal, diagnostics);
+    return { layoutWithTx, layoutSectionLocal, layoutSectionBounds };
+  };
+
+  test('an untagged layout and a tagged Layout give the same result', () => {
+    expect(CSSLayout({ layout: { kind: 'Layout', layout }, diagnostics: [] })).toEqual(
+      CSSLayout({ layout, diagnostics: [] }),
+    );
+  });
+
+  test('every stage input gives the result of the full pipeline', () => {
+    const expected = CSSLayout({ layout, diagnostics: [] });
+    const { layoutWithTx, layoutSectionLocal, layoutSectionBounds } = stages();
+
+    expect(CSSLayout({ layout: { kind: 'LayoutWithTx', layout: layoutWithTx }, diagnostics: [] })).toEqual(expected);
+    expect(
+      CSSLayout({ layout: { kind: 'LayoutSectionLocal', layout: layoutSectionLocal }, diagnostics: [] }),
+    ).toEqual(expected);
+    expect(
+      CSSLayout({ layout: { kind: 'LayoutSectionBounds', layout: layoutSectionBounds }, diagnostics: [] }),
+    ).toEqual(expected);
+  });
+
+  test('hand-built GridBox maps go through transformations and the overlap check', () => {
+    const handBuilt: LayoutWithTx<'main', B> = {
+      sections: {
+        main: {
+          gridBoxes: {
+            xs: {
+              block_1: makeGridBox({ x: 0, y: 0 }, { x: 4, y: 1 }),
+              block_2: makeGridBox({ x: 2, y: 0 }, { x: 4, y: 1 }),
+            },
+          },
+          transformations: { xs: [], md: [{ stackVertically: {} }] },
+        },
+      },
+    };
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const absolute = CSSLayout({
+      layout: { kind: 'LayoutWithTx', layout: handBuilt },
+      diagnostics,
+      gridDiagnostic: { overlapPolicy: 'warn' },
+    });
+
+    // Overlapping at xs and sm, stacked from md on (columns are kept)
+    const overlaps = diagnostics.filter((d) => d.issue?.code === GRID_ERROR_CODE.OVERLAP_NOT_ALLOWED);
+    expect(overlaps.map((d) => (d.issue?.details as { bp: string }).bp)).toEqual(['xs', 'sm']);
+    expect(absolute.sections.main.coordinates.md.block_2).toEqual({
+      gridColumnStart: 3,
+      gridColumnEnd: 7,
+      gridRowStart: 2,
+      gridRowEnd: 3,
+    });
+  });
+
+  test('hooks and trace records come only from the stages that run', () => {
+    const { layoutSectionBounds } = stages();
+    const called: string[] = [];
+    const trace: LayoutTraceRecord[] = [];
+
+    CSSLayout({
+      layout: { kind: 'LayoutSectionBounds', layout: layoutSectionBounds },
+      diagnostics: [],
+      trace,
+      hooks: {
+        afterLayoutToTx: () => void called.push('afterLayoutToTx'),
+        afterSectionLocal: () => void called.push('afterSectionLocal'),
+        afterSectionBounds: () => void called.push('afterSectionBounds'),
+        afterAbsolute: () => void called.push('afterAbsolute'),
+      },
+    });
+
+    expect(called).toEqual(['afterAbsolute']);
+    expect(new Set(trace.map((r) => r.stage))).toEqual(new Set(['layoutSectionBtoAbsolute']));
+    expect(trace.filter((r) => r.kind === 'stage')).toHaveLength(2 * BREAKPOINTS.length);
+  });
+});
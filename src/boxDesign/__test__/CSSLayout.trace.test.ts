@@ -0,0 +1,123 @@
+// CSSLayout.trace.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { BoxMovesProps } from '../../boxTransformations';
+import { ThemeForLayout } from '../../layoutTheme';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { CSSLayout } from '../CSSlayout';
+import { explainBox, LayoutTraceRecord, TransformationTraceRecord } from '../layoutTrace';
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2' | 'block_3';
+
+describe('transformation trace', () => {
+  const layout = {
+    header: { block_1: { spanX: 6, spanY: 1 } },
+    main: {
+      block_1: { spanX: 2, spanY: 1 },
+      block_2: { spanX: 2, spanY: 1 },
+      block_3: { spanX: 2, spanY: 1 },
+    },
+  } satisfies Layout<S, B>;
+
+  // main is stacked horizontally at md, then block_3 moves 3 columns right
+  const theme = (): ThemeForLayout<S, B> => {
+    const defaultTheme = getDefaultTheme(layout);
+    const mainMd: BoxMovesProps<B>[] = [
+      { stackHorizontally: {} },
+      { moveBy: { from: { boxId: 'block_3' }, by: { x: 3, y: 0 } } },
+    ];
+    return {
+      ...defaultTheme,
+      sectionBoxTransforms: (section, layout) => {
+        const base = defaultTheme.sectionBoxTransforms(section, layout);
+        return section === 'main' ? { ...base, md: mainMd as typeof base.md } : base;
+      },
+    };
+  };
+
+  test('is off unless a trace array is given, and does not change the result', () => {
+    const trace: LayoutTraceRecord[] = [];
+
+    const plain = CSSLayout({ layout, diagnostics: [] });
+    const traced = CSSLayout({ layout, diagnostics: [], trace });
+
+    expect(traced).toEqual(plain);
+    expect(trace.length).toBeGreaterThan(0);
+  });
+
+  test('records every stage per breakpoint and section', () => {
+    const trace: LayoutTraceRecord[] = [];
+    const result = CSSLayout({ layout, diagnostics: [], trace });
+
+    const stages = trace.filter((r) => r.kind === 'stage');
+    const stageNames = [...new Set(stages.map((r) => r.stage))];
+    expect(stageNames).toEqual(['layoutToTx', 'layoutTxToSectionLocal', 'layoutSectionToBounds', 'layoutSectionBtoAbsolute']);
+
+    for (const bp of BREAKPOINTS) {
+      const final = stages.find((r) => r.stage === 'layoutSectionBtoAbsolute' && r.bp === bp && r.section === 'main');
+      expect(final?.coordinates).toEqual(result.sections.main.coordinates[bp]);
+
+      // Section bounding boxes are recorded without a section
+      expect(stages.some((r) => r.stage === 'layoutSectionToBounds' && r.bp === bp && !r.section)).toBe(true);
+    }
+  });
+
+  test('transposition and mirroring are recorded as their own stages', () => {
+    const trace: LayoutTraceRecord[] = [];
+    const plain = CSSLayout({ layout, diagnostics: [] });
+    const result = CSSLayout({ layout, diagnostics: [], direction: 'rtl', transpose: true, trace });
+
+    const stages = trace.filter((r) => r.kind === 'stage');
+    expect([...new Set(stages.map((r) => r.stage))]).toEqual([
+      'layoutToTx',
+      'layoutTxToSectionLocal',
+      'layoutSectionToBounds',
+      'layoutSectionBtoAbsolute',
+      'transposeLayoutAbsolute',
+      'mirrorLayoutAbsolute',
+    ]);
+
+    // Each stage holds its own output, the last one the result
+    const at = (stage: string) => stages.find((r) => r.stage === stage && r.bp === 'md' && r.section === 'main');
+    expect(at('layoutSectionBtoAbsolute')?.coordinates).toEqual(plain.sections.main.coordinates.md);
+    expect(at('transposeLayoutAbsolute')?.coordinates).toEqual(
+      CSSLayout({ layout, diagnostics: [], transpose: true }).sections.main.coordinates.md,
+    );
+    expect(at('mirrorLayoutAbsolute')?.coordinates).toEqual(result.sections.main.coordinates.md);
+    expect(at('mirrorLayoutAbsolute')?.coordinates).not.toEqual(at('transposeLayoutAbsolute')?.coordinates);
+  });
+
+  test('transformation records hold the props, the changed boxes and a snapshot', () => {
+    const trace: LayoutTraceRecord[] = [];
+    CSSLayout({ layout, diagnostics: [], theme: theme(), trace });
+
+    const records = trace.filter(
+      (r): r is TransformationTraceRecord => r.kind === 'transformation' && r.section === 'main' && r.bp === 'md'
+    );
+    expect(records.map((r) => Object.keys(r.transformation)[0])).toEqual(['stackHorizontally', 'moveBy']);
+    expect(records[1].changed).toEqual(['block_3']);
+    expect(records[1].boxes.block_3!.origin.x - records[0].boxes.block_3!.origin.x).toBe(3);
+
+    // Snapshots are copies: the first one still shows block_3 before the move
+    expect(records[0].boxes.block_3).not.toEqual(records[1].boxes.block_3);
+  });
+
+  test('explainBox lists the transformations that moved a box or its section', () => {
+    const trace: LayoutTraceRecord[] = [];
+    const diagnostics: DiagnosticEntry[] = [];
+    CSSLayout({ layout, diagnostics, theme: theme(), trace });
+
+    const why = explainBox(trace, 'md', 'main', 'block_3');
+    const txIds = why.map((r) => `${r.section ?? 'layout'}:${Object.keys(r.transformation)[0]}`);
+
+    expect(txIds).toContain('main:moveBy');
+    expect(txIds).toContain('main:stackHorizontally');
+    // The header section is moved by the layout transformations, and its box with it
+    const header = explainBox(trace, 'md', 'header', 'block_1');
+    expect(header.map((r) => [r.section, Object.keys(r.transformation)[0]])).toContainEqual([undefined, 'stackVertically']);
+    expect(explainBox(trace, 'md', 'main', 'block_1').map((r) => Object.keys(r.transformation)[0])).not.toContain('moveBy');
+  });
+});
@@ -0,0 +1,62 @@
+// CSSLayout.transpose.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { CSSLayout } from '../CSSlayout';
+import { transposeCSSCoordinates, transposeLayoutAbsolute } from '../transposeLayoutAbsolute';
+
+describe('layout transposition', () => {
+  const layout = {
+    header: { block_1: { spanX: 6, spanY: 1 } },
+    main: {
+      block_1: { spanX: 3, spanY: 4 },
+      block_2: { spanX: 5, spanY: 2 },
+    },
+  } satisfies Layout<'header' | 'main', 'block_1' | 'block_2'>;
+
+  test('transposeCSSCoordinates swaps rows and columns', () => {
+    const header = { gridRowStart: 1, gridColumnStart: 1, gridRowEnd: 2, gridColumnEnd: 13 };
+
+    expect(transposeCSSCoordinates(header)).toEqual({
+      gridRowStart: 1,
+      gridColumnStart: 1,
+      gridRowEnd: 13,
+      gridColumnEnd: 2,
+    });
+  });
+
+  test('transpose swaps rows and columns of every box and of the grid', () => {
+    const landscape = CSSLayout({ layout, diagnostics: [] });
+    const portrait = CSSLayout({ layout, diagnostics: [], transpose: true });
+
+    expect(portrait.gridDimensions.rows).toEqual(landscape.gridDimensions.columns);
+    expect(portrait.gridDimensions.columns).toEqual(landscape.gridDimensions.rows);
+
+    for (const bp of BREAKPOINTS) {
+      for (const sectionId of ['header', 'main'] as const) {
+        const before = landscape.sections[sectionId].coordinates[bp];
+        const after = portrait.sections[sectionId].coordinates[bp];
+
+        for (const boxId of Object.keys(before) as Array<keyof typeof before>) {
+          const a = before[boxId]!;
+          const b = after[boxId]!;
+
+          expect([b.gridRowStart, b.gridRowEnd]).toEqual([a.gridColumnStart, a.gridColumnEnd]);
+          expect([b.gridColumnStart, b.gridColumnEnd]).toEqual([a.gridRowStart, a.gridRowEnd]);
+          expect(b.gridRowStart).toBeGreaterThanOrEqual(1);
+          expect(b.gridColumnStart).toBeGreaterThanOrEqual(1);
+        }
+      }
+    }
+  });
+
+  test('transposing twice gives back the original layout', () => {
+    const landscape = CSSLayout({ layout, diagnostics: [] });
+    const snapshot = JSON.stringify(landscape);
+
+    const roundTrip = transposeLayoutAbsolute(transposeLayoutAbsolute(landscape));
+
+    expect(JSON.stringify(roundTrip)).toBe(snapshot);
+    expect(JSON.stringify(landscape)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,54 @@
+// CSSLayout.visibility.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { CSSLayout } from '../CSSlayout';
+import { resolveResponsiveVisibility } from '../layoutToTx';
+
+describe('per-breakpoint visibility', () => {
+  const layout = {
+    header: { block_1: { spanX: 4, spanY: 1, visible: { xs: false, md: true } } },
+    main: {
+      block_1: { spanX: 2, spanY: 1 },
+      block_2: { spanX: 2, spanY: 1 },
+      block_3: { spanX: 2, spanY: 1, visible: { xs: false, sm: true } },
+    },
+  } satisfies Layout<'header' | 'main', 'block_1' | 'block_2' | 'block_3'>;
+
+  test('resolveResponsiveVisibility cascades mobile-first and defaults to visible', () => {
+    expect(resolveResponsiveVisibility()).toEqual({ xs: true, sm: true, md: true, lg: true, xl: true });
+    expect(resolveResponsiveVisibility({ xs: false, md: true })).toEqual({
+      xs: false,
+      sm: false,
+      md: true,
+      lg: true,
+      xl: true,
+    });
+  });
+
+  test('hidden boxes get no coordinates and take no part in stacking', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({ layout, diagnostics, gridDiagnostic: { overlapPolicy: 'error' } });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(absolute.hiddenBoxes).toEqual({
+      header: { block_1: ['xs', 'sm'] },
+      main: { block_3: ['xs'] },
+    });
+
+    // xs: header is gone and main stacks only two boxes vertically
+    const xs = absolute.sections.main.coordinates.xs;
+    expect(Object.keys(xs)).toEqual(['block_1', 'block_2']);
+    expect(absolute.sections.header.coordinates.xs).toEqual({});
+    expect(absolute.gridDimensions.rows.xs).toBe(2);
+
+    // sm: block_3 is back, stacked horizontally after the other two
+    expect(absolute.sections.main.coordinates.sm.block_3).toEqual({
+      gridColumnStart: 5,
+      gridColumnEnd: 7,
+      gridRowStart: 1,
+      gridRowEnd: 2,
+    });
+    expect(absolute.sections.header.coordinates.md.block_1).toBeDefined();
+  });
+});
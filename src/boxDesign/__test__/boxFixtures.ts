@@ -0,0 +1,34 @@
+// boxFixtures.ts
+// Box fixtures shared by the box transformation tests
+
+import { GridBox } from '../../box/gridBoxTypes';
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { NodeID } from '../../templates';
+
+export type Boxes = Partial<Record<NodeID, GridBox>>;
+
+/** Origin and span of one box: [x, y, spanX, spanY] */
+export type BoxSpec = readonly [number, number, number, number];
+
+/**
+ * Fresh boxes from their origins and spans; each call returns new objects, so a
+ * test can transform its boxes and compare them with an untouched copy.
+ */
+export function makeBoxes(specs: Partial<Record<NodeID, BoxSpec>>): Boxes {
+  return Object.fromEntries(
+    Object.entries(specs).map(([id, [x, y, spanX, spanY]]) => [id, makeGridBox({ x, y }, { x: spanX, y: spanY })]),
+  );
+}
+
+/** Fresh boxes block_1, block_2, ... with the given spans, all at one origin */
+export function makeBlocks(
+  spans: ReadonlyArray<readonly [number, number]>,
+  origin: { x: number; y: number } = { x: 0, y: 0 },
+): Boxes {
+  return Object.fromEntries(
+    spans.map(([x, y], i) => [`block_${i + 1}`, makeGridBox(origin, { x, y })]),
+  );
+}
+
+/** Origins of the boxes in key order, as [x, y] pairs */
+export const origins = (boxes: Boxes) => Object.values(boxes).map((box) => [box!.origin.x, box!.origin.y]);
@@ -0,0 +1,142 @@
+// compactLayoutAbsolute.test.ts
+
+import { Layout, LayoutAbsolute } from '../../boxLayout/boxLayoutTypes';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { CSSLayout } from '../CSSlayout';
+import { compactLayoutAbsolute } from '../compactLayoutAbsolute';
+import { LayoutTraceRecord, StageTraceRecord } from '../layoutTrace';
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2';
+
+describe('empty track compaction', () => {
+  // xs: header on row 1, an empty row 2, main on rows 3-4, empty rows 5-6 and
+  // an empty column 4 between the main boxes; md has no empty tracks
+  const layoutAbsolute = (): LayoutAbsolute<S, B, 'xs' | 'md'> => ({
+    gridDimensions: { rows: { xs: 6, md: 2 }, columns: { xs: 8, md: 4 } },
+    sections: {
+      header: {
+        coordinates: {
+          xs: { block_1: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 4 } },
+          md: { block_1: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 5 } },
+        },
+        bounds: {
+          xs: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 4 },
+          md: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 5 },
+        },
+      },
+      main: {
+        coordinates: {
+          xs: {
+            block_1: { gridRowStart: 3, gridRowEnd: 5, gridColumnStart: 1, gridColumnEnd: 4 },
+            block_2: { gridRowStart: 3, gridRowEnd: 4, gridColumnStart: 5, gridColumnEnd: 7 },
+          },
+          md: {
+            block_1: { gridRowStart: 2, gridRowEnd: 3, gridColumnStart: 1, gridColumnEnd: 5 },
+          },
+        },
+        bounds: {
+          xs: { gridRowStart: 3, gridRowEnd: 5, gridColumnStart: 1, gridColumnEnd: 7 },
+          md: { gridRowStart: 2, gridRowEnd: 3, gridColumnStart: 1, gridColumnEnd: 5 },
+        },
+      },
+    },
+  });
+
+  const breakpoints = ['xs', 'md'] as const;
+
+  test('removes every empty track and re-indexes boxes and bounds', () => {
+    const input = layoutAbsolute();
+    const snapshot = JSON.stringify(input);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const compacted = compactLayoutAbsolute(input, diagnostics, {}, breakpoints);
+
+    // Rows 2, 5 and 6 and columns 4, 7 and 8 are gone
+    expect(compacted.gridDimensions).toEqual({ rows: { xs: 3, md: 2 }, columns: { xs: 5, md: 4 } });
+    expect(compacted.sections.header.coordinates.xs.block_1).toEqual({
+      gridRowStart: 1,
+      gridRowEnd: 2,
+      gridColumnStart: 1,
+      gridColumnEnd: 4,
+    });
+    expect(compacted.sections.main.coordinates.xs).toEqual({
+      block_1: { gridRowStart: 2, gridRowEnd: 4, gridColumnStart: 1, gridColumnEnd: 4 },
+      block_2: { gridRowStart: 2, gridRowEnd: 3, gridColumnStart: 4, gridColumnEnd: 6 },
+    });
+    expect(compacted.sections.main.bounds?.xs).toEqual({
+      gridRowStart: 2,
+      gridRowEnd: 4,
+      gridColumnStart: 1,
+      gridColumnEnd: 6,
+    });
+
+    // md had nothing to remove
+    expect(compacted.sections.main.coordinates.md).toBe(input.sections.main.coordinates.md);
+    expect(JSON.stringify(input)).toBe(snapshot);
+  });
+
+  test('reports the removed tracks per breakpoint', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+
+    compactLayoutAbsolute(layoutAbsolute(), diagnostics, {}, breakpoints);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].severity).toBe('info');
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.TRACKS_COMPACTED);
+    expect(diagnostics[0].issue.details).toEqual({ bp: 'xs', rows: 3, columns: 3 });
+  });
+
+  test('keepInnerTracks only removes the tracks at the edges of the grid', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const compacted = compactLayoutAbsolute(layoutAbsolute(), diagnostics, { keepInnerTracks: true }, breakpoints);
+
+    // The inner row 2 and column 4 stay; trailing rows 5-6 and columns 7-8 go
+    expect(compacted.gridDimensions).toEqual({ rows: { xs: 4, md: 2 }, columns: { xs: 6, md: 4 } });
+    expect(compacted.sections.main.coordinates.xs).toEqual(layoutAbsolute().sections.main.coordinates.xs);
+    expect(compacted.sections.main.bounds?.xs).toEqual(layoutAbsolute().sections.main.bounds?.xs);
+    expect(diagnostics[0].issue.details).toEqual({ bp: 'xs', rows: 2, columns: 2 });
+  });
+
+  test('CSSLayout compacts the gaps of a layout-level stack', () => {
+    const layout: Layout<S, B> = {
+      header: { block_1: { spanX: 6, spanY: 1 } },
+      main: { block_1: { spanX: 3, spanY: 2 }, block_2: { spanX: 3, spanY: 1 } },
+      transformations: { at: { xs: [{ stackVertically: { gap: 2 } }] }, merge: 'replace' },
+    };
+
+    const spread = CSSLayout({ layout, diagnostics: [] });
+    const diagnostics: DiagnosticEntry[] = [];
+    const compacted = CSSLayout({ layout, diagnostics, compact: true });
+    const kept = CSSLayout({ layout, diagnostics: [], compact: { keepInnerTracks: true } });
+
+    expect(compacted.gridDimensions.rows.xs).toBe(spread.gridDimensions.rows.xs - 2);
+    expect(compacted.sections.main.coordinates.xs.block_1?.gridRowStart).toBe(
+      compacted.sections.header.coordinates.xs.block_1!.gridRowEnd,
+    );
+    expect(diagnostics.filter((d) => d.issue.code === GRID_ERROR_CODE.TRACKS_COMPACTED)).toContainEqual(
+      expect.objectContaining({ issue: expect.objectContaining({ details: { bp: 'xs', rows: 2, columns: 0 } }) }),
+    );
+    expect(kept.gridDimensions.rows.xs).toBe(spread.gridDimensions.rows.xs);
+  });
+
+  test('the compaction is traced as its own stage', () => {
+    const layout: Layout<S, B> = {
+      header: { block_1: { spanX: 6, spanY: 1 } },
+      main: { block_1: { spanX: 3, spanY: 2 }, block_2: { spanX: 3, spanY: 1 } },
+      transformations: { at: { xs: [{ stackVertically: { gap: 2 } }] }, merge: 'replace' },
+    };
+    const trace: LayoutTraceRecord[] = [];
+
+    const spread = CSSLayout({ layout, diagnostics: [] });
+    const compacted = CSSLayout({ layout, diagnostics: [], compact: true, trace });
+
+    const at = (stage: string) =>
+      trace.find(
+        (r): r is StageTraceRecord => r.kind === 'stage' && r.stage === stage && r.bp === 'xs' && r.section === 'main',
+      );
+    expect(at('layoutSectionBtoAbsolute')?.coordinates).toEqual(spread.sections.main.coordinates.xs);
+    expect(at('compactLayoutAbsolute')?.coordinates).toEqual(compacted.sections.main.coordinates.xs);
+  });
+});
@@ -0,0 +1,122 @@
+// constrainTransformation.test.ts
+
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { DefaultBoxTransformations } from '../../boxTransformations';
+import { solveDifferenceConstraints } from '../../boxTransformations/differenceConstraints';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { NodeID } from '../../templates';
+import { BoxSpec, makeBoxes } from './boxFixtures';
+
+const transformations = DefaultBoxTransformations();
+
+describe('solveDifferenceConstraints', () => {
+  test('returns the smallest values meeting every constraint', () => {
+    const result = solveDifferenceConstraints(4, [
+      { from: 1, to: 2, weight: 4, tag: 0 },
+      { from: 2, to: 3, weight: 1, tag: 1 },
+      { from: 1, to: 3, weight: 7, tag: 2 },
+    ]);
+
+    expect(result).toEqual({ values: [0, 0, 4, 7] });
+  });
+
+  test('returns the tags of a contradicting cycle', () => {
+    const result = solveDifferenceConstraints(3, [
+      { from: 1, to: 2, weight: 1, tag: 0 },
+      { from: 2, to: 1, weight: 0, tag: 1 },
+    ]);
+
+    expect([...result.conflict!].sort()).toEqual([0, 1]);
+  });
+});
+
+describe('constrain', () => {
+  const layout: Partial<Record<NodeID, BoxSpec>> = {
+    sidebar: [5, 3, 3, 4],
+    main: [0, 0, 6, 2],
+    footer: [2, 9, 4, 1],
+  };
+
+  test('solves left of with gap and same bottom together', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.constrain({
+      boxprops: {
+        constraints: [
+          { leftOf: { box: 'sidebar', of: 'main', gap: 1 } },
+          { sameBottom: ['sidebar', 'main'] },
+        ],
+      },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.sidebar).toEqual(makeGridBox({ x: 0, y: 0 }, { x: 3, y: 4 }));
+    expect(boxes.main).toEqual(makeGridBox({ x: 4, y: 0 }, { x: 6, y: 2 }));
+    // Boxes not named by any constraint are left alone
+    expect(boxes.footer).toEqual(makeBoxes(layout).footer);
+  });
+
+  test('same width, same top and below', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.constrain({
+      boxprops: {
+        constraints: [
+          { sameWidth: ['sidebar', 'main'] },
+          { sameTop: ['sidebar', 'main'] },
+          { below: { box: 'footer', of: 'main' } },
+        ],
+      },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    // Tops meet at 4: main (height 2) starts at 2, so footer sits under it at 0
+    expect(boxes.sidebar).toEqual(makeGridBox({ x: 5, y: 0 }, { x: 6, y: 4 }));
+    expect(boxes.main).toEqual(makeGridBox({ x: 0, y: 2 }, { x: 6, y: 2 }));
+    expect(boxes.footer).toEqual(makeGridBox({ x: 2, y: 0 }, { x: 4, y: 1 }));
+  });
+
+  test('reports the constraints that cannot hold together and changes nothing', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+    const tooNarrow = { inside: ['sidebar', 'main'] as const };
+    const sideBySide = { leftOf: { box: 'sidebar' as const, of: 'main' as const, gap: 1 } };
+
+    const result = transformations.constrain({
+      boxprops: { constraints: [sideBySide, { sameBottom: ['sidebar', 'main'] }, tooNarrow], width: 8 },
+      boxes,
+      diagnostics,
+    });
+
+    expect(result).toBeUndefined();
+    expect(boxes).toEqual(makeBoxes(layout));
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.CONSTRAINT_VIOLATION);
+    expect(diagnostics[0].issue.details).toEqual({ axis: 'x', constraints: expect.arrayContaining([sideBySide, tooNarrow]) });
+    expect((diagnostics[0].issue.details as { constraints: unknown[] }).constraints).toHaveLength(2);
+  });
+
+  test('rejects unknown boxes and malformed constraints', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.constrain({ boxprops: { constraints: [{ sameLeft: ['sidebar', 'header'] }] }, boxes, diagnostics });
+    transformations.constrain({
+      boxprops: { constraints: [{ leftOf: { box: 'sidebar' } } as never] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics.map((d) => d.issue.code)).toEqual([
+      GRID_ERROR_CODE.UNKNOWN_NODE_ID,
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+    ]);
+    expect(boxes).toEqual(makeBoxes(layout));
+  });
+});
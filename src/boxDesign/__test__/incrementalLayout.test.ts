@@ -0,0 +1,123 @@
+// incrementalLayout.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { BoxMovesProps } from '../../boxTransformations';
+import { ThemeForLayout } from '../../layoutTheme';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { CSSLayout } from '../CSSlayout';
+import { makeIncrementalLayout } from '../incrementalLayout';
+
+type S = 'header' | 'main' | 'footer';
+type B = 'block_1' | 'block_2' | 'block_3';
+
+describe('incremental layout', () => {
+  const layout: Layout<S, B> = {
+    header: { block_1: { spanX: 6, spanY: 1 }, block_2: { spanX: 3, spanY: 1 } },
+    main: {
+      block_1: { spanX: 3, spanY: 2 },
+      block_2: { spanX: { xs: 3, md: 4 }, spanY: 2 },
+      block_3: { spanX: 2, spanY: 1, visible: { xs: false, md: true } },
+    },
+    footer: { block_1: { spanX: 12, spanY: 1 } },
+  };
+
+  // main lines up with the header at md and moves a box that does not exist at lg
+  const theme = (): ThemeForLayout<S, B> => {
+    const defaultTheme = getDefaultTheme(layout);
+    return {
+      ...defaultTheme,
+      sectionBoxTransforms: (section, layout) => {
+        const base = defaultTheme.sectionBoxTransforms(section, layout);
+        const mainMd = [
+          ...base.md,
+          {
+            alignToX: {
+              from: { boxId: 'block_1', anchor: 'bottomLeft' },
+              to: { sectionId: 'header', boxId: 'block_2', anchor: 'bottomLeft' },
+            },
+          },
+        ] as BoxMovesProps<B>[];
+        const mainLg = [...base.lg, { moveBy: { from: { boxId: 'block_9' }, by: { x: 1, y: 0 } } }] as BoxMovesProps<B>[];
+        return section === 'main'
+          ? { ...base, md: mainMd as typeof base.md, lg: mainLg as typeof base.lg }
+          : base;
+      },
+    };
+  };
+
+  const cssLayout = (layout: Layout<S, B>) => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({ layout, diagnostics, theme: theme() });
+    return { absolute, diagnostics };
+  };
+
+  test('the first run computes every section and equals CSSLayout', () => {
+    const incremental = makeIncrementalLayout<S, B>({ theme: theme() });
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const absolute = incremental.run(layout, diagnostics);
+
+    const expected = cssLayout(layout);
+    expect(absolute).toEqual(expected.absolute);
+    expect(diagnostics).toEqual(expected.diagnostics);
+    expect(diagnostics.some((d) => d.severity === 'error')).toBe(true);
+
+    const stats = incremental.stats();
+    expect(stats.runs).toBe(1);
+    expect(stats.hits).toBe(0);
+    expect(stats.misses).toBe(3 * BREAKPOINTS.length);
+    expect(stats.entries).toBe(3 * BREAKPOINTS.length);
+  });
+
+  test('an unchanged layout is served from the cache, diagnostics included', () => {
+    const incremental = makeIncrementalLayout<S, B>({ theme: theme() });
+    const first = incremental.run(layout, []);
+
+    const diagnostics: DiagnosticEntry[] = [];
+    const second = incremental.run(structuredClone(layout), diagnostics);
+
+    expect(second).toEqual(first);
+    expect(diagnostics).toEqual(cssLayout(layout).diagnostics);
+    expect(incremental.stats().lastRun).toEqual({ hits: 3 * BREAKPOINTS.length, misses: 0, recomputed: [] });
+  });
+
+  test('a span changed at one breakpoint recomputes only that section and breakpoint', () => {
+    const incremental = makeIncrementalLayout<S, B>({ theme: theme() });
+    incremental.run(layout, []);
+
+    const edited: Layout<S, B> = {
+      ...layout,
+      main: { ...layout.main, block_2: { spanX: { xs: 3, md: 5, lg: 4 }, spanY: 2 } },
+    };
+    const absolute = incremental.run(edited, []);
+
+    expect(incremental.stats().lastRun.recomputed).toEqual([{ section: 'main', bp: 'md' }]);
+    expect(absolute).toEqual(cssLayout(edited).absolute);
+  });
+
+  test('removed sections leave the cache and clear starts over', () => {
+    const incremental = makeIncrementalLayout<S, B>({ theme: theme() });
+    incremental.run(layout, []);
+
+    const { footer, ...withoutFooter } = layout;
+    const absolute = incremental.run(withoutFooter, []);
+
+    expect(absolute).toEqual(cssLayout(withoutFooter).absolute);
+    expect(incremental.stats().entries).toBe(2 * BREAKPOINTS.length);
+    expect(incremental.stats().lastRun.misses).toBe(0);
+
+    incremental.clear();
+    expect(incremental.stats()).toEqual({
+      runs: 0,
+      hits: 0,
+      misses: 0,
+      entries: 0,
+      lastRun: { hits: 0, misses: 0, recomputed: [] },
+    });
+
+    incremental.run(layout, []);
+    expect(incremental.stats().misses).toBe(3 * BREAKPOINTS.length);
+  });
+});
@@ -2,7 +2,14 @@
  
 import { BREAKPOINTS } from '../../breakpoints';
 import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
-import { layoutSectionKeysPresent, layoutBlockKeysPresent, layoutToTx } from '../layoutToTx';
+import {
+  layoutSectionKeysPresent,
+  layoutBlockKeysPresent,
+  layoutToTx,
+  mergeTransformations,
+  resolveResponsiveSpan,
+} from '../layoutToTx';
+import { CSSLayout } from '../CSSlayout';
 import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
 import { Layout } from '../../boxLayout/boxLayoutTypes';
 import { getLayoutFromCatalog } from '../../templates';
@@ -102,8 +109,8 @@ describe('layoutToTx', () => {
 
     // Box should be absent in produced gridBoxes
     for (const bp of BREAKPOINTS) {
-      expect(out.sections.main.gridBoxes[bp]['block_1']).toBeTruthy();
-      expect(out.sections.main.gridBoxes[bp]['block_2']).toBeUndefined();
+      expect(out.sections.main.gridBoxes[bp]!['block_1']).toBeTruthy();
+      expect(out.sections.main.gridBoxes[bp]!['block_2']).toBeUndefined();
     }
   });
 
@@ -131,3 +138,124 @@ describe('layoutToTx', () => {
     expect(diagnostic.some((d) => d.issue?.code === GRID_ERROR_CODE.NO_SECTION_ID)).toBe(false);
   });
 });
+
+describe('responsive box spans', () => {
+  const width = (box: { origin: { x: number }; diagonal: { x: number } }) => box.diagonal.x - box.origin.x;
+
+  test('resolveResponsiveSpan cascades a breakpoint map mobile-first', () => {
+    expect(resolveResponsiveSpan(4)).toEqual({ xs: 4, sm: 4, md: 4, lg: 4, xl: 4 });
+    expect(resolveResponsiveSpan({ xs: 4, md: 6, lg: 3 })).toEqual({ xs: 4, sm: 4, md: 6, lg: 3, xl: 3 });
+  });
+
+  test('layoutToTx hands the span of each breakpoint to the theme', () => {
+    const layout = {
+      main: {
+        block_1: { spanX: { xs: 4, md: 6, lg: 3 }, spanY: 1 },
+        block_2: { spanX: 2, spanY: { xs: 1, xl: 2 } },
+      },
+    } satisfies Layout<'main', 'block_1' | 'block_2'>;
+
+    const diagnostic: DiagnosticEntry[] = [];
+    const out = layoutToTx(layout, diagnostic);
+
+    expect(diagnostic).toEqual([]);
+
+    const boxes = out.sections.main.gridBoxes;
+    expect(BREAKPOINTS.map((bp) => width(boxes[bp]!.block_1!))).toEqual([4, 4, 6, 3, 3]);
+
+    // plain numeric widths stay full width on the smallest breakpoint
+    expect(BREAKPOINTS.map((bp) => width(boxes[bp]!.block_2!))).toEqual([1, 2, 2, 2, 2]);
+    expect(boxes.xl!.block_2!.diagonal.y - boxes.xl!.block_2!.origin.y).toBe(2);
+    expect(boxes.lg!.block_2!.diagonal.y - boxes.lg!.block_2!.origin.y).toBe(1);
+  });
+
+  test('reports a missing span at breakpoints below the first one set', () => {
+    const widget = ['mobile', 'desktop'] as const;
+    const layout = {
+      main: { block_1: { spanX: { desktop: 3 }, spanY: 1 } },
+    } satisfies Layout<'main', 'block_1', 'mobile' | 'desktop'>;
+
+    const diagnostic: DiagnosticEntry[] = [];
+    const out = layoutToTx(layout, diagnostic, undefined, widget);
+
+    expect(out.sections.main.gridBoxes.mobile!.block_1).toBeUndefined();
+    expect(width(out.sections.main.gridBoxes.desktop!.block_1!)).toBe(3);
+    expect(diagnostic.map((d) => [d.issue.code, (d.issue.details as any).bp])).toEqual([
+      [GRID_ERROR_CODE.BOX_SPAN_MISSING, 'mobile'],
+    ]);
+  });
+});
+
+describe('transformations given in the layout', () => {
+  type B = 'block_1' | 'block_2';
+
+  const themeTx = {
+    xs: [{ stackVertically: {} }],
+    md: [{ stackHorizontally: {} }],
+  };
+  const nudge = { moveBy: { from: { boxId: 'block_2' as B }, by: { x: 1, y: 0 } } };
+
+  test('without an override the theme transformations are kept as they are', () => {
+    expect(mergeTransformations<B>(themeTx, undefined)).toBe(themeTx);
+  });
+
+  test('append, prepend and replace per breakpoint, mobile-first', () => {
+    const merged = mergeTransformations<B>(themeTx, {
+      at: { sm: [nudge] },
+      merge: { sm: 'prepend', lg: 'replace' },
+    });
+
+    expect(merged).toEqual({
+      xs: [{ stackVertically: {} }],
+      sm: [nudge, { stackVertically: {} }],
+      md: [nudge, { stackHorizontally: {} }],
+      lg: [nudge],
+    });
+
+    expect(mergeTransformations<B>(themeTx, { at: { xs: [nudge] } })).toEqual({
+      xs: [{ stackVertically: {} }, nudge],
+      md: [{ stackHorizontally: {} }, nudge],
+    });
+  });
+
+  test('layoutToTx merges section and layout-level transformations with the theme', () => {
+    const layout: Layout<'header' | 'main', B> = {
+      header: { block_1: { spanX: 4, spanY: 1 } },
+      main: {
+        block_1: { spanX: 2, spanY: 1 },
+        block_2: { spanX: 2, spanY: 1 },
+        transformations: { at: { md: [nudge] } },
+      },
+      transformations: { at: { xs: [] }, merge: 'replace' },
+    };
+    const theme = getDefaultTheme(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const tx = layoutToTx(layout, diagnostics, theme);
+
+    expect(Object.keys(tx.sections)).toEqual(['header', 'main']);
+    expect(tx.sections.header.transformations).toBe(theme.sectionBoxTransforms('header', layout));
+    expect(tx.sections.main.transformations!.md).toEqual([...theme.sectionBoxTransforms('main', layout).md!, nudge]);
+    expect(tx.transformations).toEqual({ xs: [], sm: [], md: [], lg: [], xl: [] });
+    expect(diagnostics).toEqual([]);
+  });
+
+  test('CSSLayout runs the merged transformations', () => {
+    const layout: Layout<'main', B> = {
+      main: {
+        block_1: { spanX: 2, spanY: 1 },
+        block_2: { spanX: 2, spanY: 1 },
+        transformations: { at: { md: [nudge] } },
+      },
+    };
+    const { transformations, ...main } = layout.main!;
+
+    const plain = CSSLayout({ layout: { main }, diagnostics: [] });
+    const nudged = CSSLayout({ layout, diagnostics: [] });
+
+    expect(nudged.sections.main.coordinates.sm).toEqual(plain.sections.main.coordinates.sm);
+    expect(nudged.sections.main.coordinates.md.block_2!.gridColumnStart).toBe(
+      plain.sections.main.coordinates.md.block_2!.gridColumnStart + 1,
+    );
+  });
+});
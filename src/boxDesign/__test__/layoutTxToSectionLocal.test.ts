@@ -2,7 +2,7 @@
  
 import { GridBox } from '../../box/gridBoxTypes';
 import { BREAKPOINTS } from '../../breakpoints';
-import { DiagnosticEntry } from '../../gridErrorShape';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
 import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
 import { getLayoutFromCatalog } from '../../templates';
 import { layoutToTx } from '../layoutToTx';
@@ -109,7 +109,7 @@ describe('layoutTxToSectionLocal', () => {
 
     // Snapshot another block to ensure it doesn't move (optional)
     const beforeBlock1ByBp = Object.fromEntries(
-      BREAKPOINTS.map((bp) => [bp, { ...tx.sections.main.gridBoxes[bp]['block_1']!.origin }]),
+      BREAKPOINTS.map((bp) => [bp, { ...tx.sections.main.gridBoxes[bp]!['block_1']!.origin }]),
     ) as Record<(typeof BREAKPOINTS)[number], { x: number; y: number }>;
 
     // Apply the same moveTo at every breakpoint
@@ -277,4 +277,52 @@ describe('layoutTxToSectionLocal', () => {
       expect(b!.diagonal.y).toBeGreaterThanOrEqual(0);
     }
   });
+  test('partial records cascade mobile-first and report inherited breakpoints', () => {
+    const layout = getLayoutFromCatalog('primary20', 'page_dashboard_kpis_then_content');
+    const diagnostics: DiagnosticEntry[] = [];
+    const tx = layoutToTx(layout, diagnostics, getDefaultTheme(layout));
+
+    // Only xs and md boxes for main; md, lg, xl inherit from md and sm from xs
+    tx.sections.main.gridBoxes = {
+      xs: tx.sections.main.gridBoxes.xs,
+      md: tx.sections.main.gridBoxes.md,
+    };
+    tx.sections.main.transformations = {
+      xs: [{ stackVertically: {} }],
+      md: [{ stackHorizontally: { gap: 1 } }],
+    };
+    tx.transformations = { xs: [{ stackVertically: {} }] };
+
+    const out = layoutTxToSectionLocal(tx, diagnostics);
+
+    for (const bp of BREAKPOINTS) {
+      expect(Object.keys(out.sections.main[bp]).length).toBeGreaterThan(0);
+      expect(out.transformations![bp]).toEqual([{ stackVertically: {} }]);
+    }
+
+    // sm stacks vertically like xs, lg stacks horizontally like md
+    const sm = out.sections.main.sm;
+    const lg = out.sections.main.lg;
+    expect(sm.block_2!.origin.x).toBe(sm.block_1!.origin.x);
+    expect(lg.block_2!.origin.y).toBe(lg.block_1!.origin.y);
+
+    // Inherited boxes are copies, not shared with the breakpoint they came from
+    expect(out.sections.main.lg.block_1).not.toBe(out.sections.main.xl.block_1);
+    expect(out.sections.main.sm.block_1).not.toBe(out.sections.main.xs.block_1);
+
+    const inherited = diagnostics.filter((d) => d.issue.code === GRID_ERROR_CODE.BREAKPOINT_INHERITED);
+    expect(inherited.every((d) => d.severity === 'info')).toBe(true);
+
+    const mainBoxes = inherited.filter(
+      (d) => d.issue.elementId === 'main' && d.issue.message.includes('gridBoxes'),
+    );
+    expect(mainBoxes.map((d) => d.issue.details)).toEqual([
+      expect.objectContaining({ bp: 'sm', inheritedFrom: 'xs' }),
+      expect.objectContaining({ bp: 'lg', inheritedFrom: 'md' }),
+      expect.objectContaining({ bp: 'xl', inheritedFrom: 'md' }),
+    ]);
+
+    // 4 layout-level breakpoints inherited from xs
+    expect(inherited.filter((d) => d.issue.elementId === undefined)).toHaveLength(4);
+  });
 });
@@ -0,0 +1,123 @@
+// pipelineImmutability.test.ts
+
+import { GridBox } from '../../box/gridBoxTypes';
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { Layout, LayoutWithTx } from '../../boxLayout/boxLayoutTypes';
+import { DiagnosticEntry } from '../../gridErrorShape';
+import { BoxMovesProps } from '../../boxTransformations';
+import { ThemeForLayout } from '../../layoutTheme';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { CSSLayout } from '../CSSlayout';
+import { layoutSectionBtoAbsolute } from '../layoutSectionBtoAbsolute';
+import { layoutSectionToBounds } from '../layoutSectionToBounds';
+import { layoutToTx } from '../layoutToTx';
+import { layoutTxToSectionLocal } from '../layoutTxToSectionLocal';
+
+// Freezes an object graph, so that any write to it throws in strict mode
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const key of Object.keys(value)) {
+      deepFreeze((value as Record<string, unknown>)[key]);
+    }
+  }
+  return value;
+};
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2' | 'block_3';
+
+describe('non-mutating pipeline', () => {
+  const layout = {
+    header: { block_1: { spanX: 6, spanY: 1 }, block_2: { spanX: 3, spanY: 1 } },
+    main: {
+      block_1: { spanX: 3, spanY: 2 },
+      block_2: { spanX: 3, spanY: 2 },
+      block_3: { spanX: 2, spanY: 1, visible: { xs: false, md: true } },
+    },
+  } satisfies Layout<S, B>;
+
+  // main also lines its first block up with the header's second one at md
+  const theme = (): ThemeForLayout<S, B> => {
+    const defaultTheme = getDefaultTheme(layout);
+    return {
+      ...defaultTheme,
+      sectionBoxTransforms: (section, layout) => {
+        const base = defaultTheme.sectionBoxTransforms(section, layout);
+        const mainMd = [
+          ...base.md,
+          {
+            alignToX: {
+              from: { boxId: 'block_1', anchor: 'bottomLeft' },
+              to: { sectionId: 'header', boxId: 'block_2', anchor: 'bottomLeft' },
+            },
+          },
+        ] as BoxMovesProps<B>[];
+        return section === 'main' ? { ...base, md: mainMd as typeof base.md } : base;
+      },
+    };
+  };
+
+  test('every stage runs on deep-frozen input and matches CSSLayout', () => {
+    const expected = CSSLayout({ layout, diagnostics: [], theme: theme() });
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const tx = deepFreeze(layoutToTx(deepFreeze(structuredClone(layout)), diagnostics, deepFreeze(theme())));
+    const local = deepFreeze(layoutTxToSectionLocal(tx, diagnostics));
+    const bounds = deepFreeze(layoutSectionToBounds(local, diagnostics));
+    const absolute = layoutSectionBtoAbsolute(bounds, diagnostics);
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(absolute).toEqual(expected);
+  });
+
+  test('running a stage twice on the same input gives the same result', () => {
+    const tx = layoutToTx(layout, [], theme());
+    const local = layoutTxToSectionLocal(tx, []);
+    const bounds = layoutSectionToBounds(local, []);
+
+    expect(layoutTxToSectionLocal(tx, [])).toEqual(local);
+    expect(layoutSectionBtoAbsolute(bounds, [])).toEqual(layoutSectionBtoAbsolute(bounds, []));
+    expect(layoutSectionToBounds(local, [])).toEqual(bounds);
+  });
+
+  test('boxes returned by the theme are not corrupted', () => {
+    // A theme that hands out the same cached boxes on every call
+    const defaultTheme = getDefaultTheme(layout);
+    const cache = new Map<string, GridBox>();
+    const cachingTheme: ThemeForLayout<S, B> = {
+      ...defaultTheme,
+      resolveBoxSpan: (section, boxId, layout, span, bp) => {
+        const key = `${section}.${boxId}.${bp}`;
+        if (!cache.has(key)) {
+          cache.set(key, deepFreeze(defaultTheme.resolveBoxSpan(section, boxId, layout, span, bp)));
+        }
+        return cache.get(key)!;
+      },
+    };
+
+    const first = CSSLayout({ layout, diagnostics: [], theme: cachingTheme });
+    const snapshot = JSON.stringify([...cache]);
+    const second = CSSLayout({ layout, diagnostics: [], theme: cachingTheme });
+
+    expect(JSON.stringify([...cache])).toBe(snapshot);
+    expect(second).toEqual(first);
+  });
+
+  test('boxes left alone by the transformations are shared with the input', () => {
+    const untouched = makeGridBox({ x: 0, y: 0 }, { x: 3, y: 1 });
+    const layoutTx: LayoutWithTx<'main', 'block_1' | 'block_2'> = deepFreeze({
+      sections: {
+        main: {
+          gridBoxes: { xs: { block_1: makeGridBox({ x: 0, y: 0 }, { x: 2, y: 1 }), block_2: untouched } },
+          transformations: { xs: [{ moveBy: { from: { boxId: 'block_1' }, by: { x: 0, y: 1 } } }] },
+        },
+      },
+    });
+
+    const local = layoutTxToSectionLocal(layoutTx, []);
+
+    expect(local.sections.main.xs.block_2).toBe(untouched);
+    expect(local.sections.main.xs.block_1).toEqual(makeGridBox({ x: 0, y: 1 }, { x: 2, y: 1 }));
+  });
+});
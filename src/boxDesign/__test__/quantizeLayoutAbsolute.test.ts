@@ -0,0 +1,199 @@
+// quantizeLayoutAbsolute.test.ts
+
+import { Layout, LayoutAbsolute } from '../../boxLayout/boxLayoutTypes';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { CSSLayout } from '../CSSlayout';
+import { LayoutTraceRecord, StageTraceRecord } from '../layoutTrace';
+import { quantizeLayoutAbsolute, rescaleLayoutAbsolute } from '../quantizeLayoutAbsolute';
+
+type S = 'header' | 'main';
+type B = 'block_1' | 'block_2';
+
+describe('grid quantization and rescaling', () => {
+  // A 400 x 100 pixel-like grid: a full-width header over a 100 and a 200 wide box
+  const layoutAbsolute = (): LayoutAbsolute<S, B, 'xs'> => ({
+    gridDimensions: { rows: { xs: 100 }, columns: { xs: 400 } },
+    sections: {
+      header: {
+        coordinates: {
+          xs: { block_1: { gridRowStart: 1, gridRowEnd: 51, gridColumnStart: 1, gridColumnEnd: 401 } },
+        },
+        bounds: { xs: { gridRowStart: 1, gridRowEnd: 51, gridColumnStart: 1, gridColumnEnd: 401 } },
+      },
+      main: {
+        coordinates: {
+          xs: {
+            block_1: { gridRowStart: 51, gridRowEnd: 101, gridColumnStart: 1, gridColumnEnd: 101 },
+            block_2: { gridRowStart: 51, gridRowEnd: 101, gridColumnStart: 101, gridColumnEnd: 301 },
+          },
+        },
+        bounds: { xs: { gridRowStart: 51, gridRowEnd: 101, gridColumnStart: 1, gridColumnEnd: 301 } },
+      },
+    },
+  });
+
+  const breakpoints = ['xs'] as const;
+
+  test('quantization divides each axis by the GCD of its lines', () => {
+    const input = layoutAbsolute();
+    const snapshot = JSON.stringify(input);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const quantized = quantizeLayoutAbsolute(input, diagnostics, breakpoints);
+
+    expect(quantized.gridDimensions).toEqual({ rows: { xs: 2 }, columns: { xs: 4 } });
+    expect(quantized.sections.main.coordinates.xs).toEqual({
+      block_1: { gridRowStart: 2, gridRowEnd: 3, gridColumnStart: 1, gridColumnEnd: 2 },
+      block_2: { gridRowStart: 2, gridRowEnd: 3, gridColumnStart: 2, gridColumnEnd: 4 },
+    });
+    expect(quantized.sections.main.bounds?.xs).toEqual({
+      gridRowStart: 2,
+      gridRowEnd: 3,
+      gridColumnStart: 1,
+      gridColumnEnd: 4,
+    });
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'info',
+        issue: expect.objectContaining({
+          code: GRID_ERROR_CODE.GRID_QUANTIZED,
+          details: { bp: 'xs', rows: 50, columns: 100 },
+        }),
+      }),
+    ]);
+    expect(JSON.stringify(input)).toBe(snapshot);
+  });
+
+  test('rescaling maps the columns onto the target count with the rounding policy', () => {
+    const quantized = quantizeLayoutAbsolute(layoutAbsolute(), [], breakpoints);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const twelve = rescaleLayoutAbsolute(quantized, diagnostics, { columns: 12 }, breakpoints);
+    expect(twelve.gridDimensions).toEqual({ rows: { xs: 2 }, columns: { xs: 12 } });
+    expect(twelve.sections.main.coordinates.xs.block_2).toEqual({
+      gridRowStart: 2,
+      gridRowEnd: 3,
+      gridColumnStart: 4,
+      gridColumnEnd: 10,
+    });
+    expect(diagnostics).toEqual([]);
+
+    // Without quantization first, 100 of 400 columns give 3 of 12
+    const direct = rescaleLayoutAbsolute(layoutAbsolute(), [], { columns: { xs: 12 } }, breakpoints);
+    expect(direct.sections.main.coordinates.xs.block_1?.gridColumnEnd).toBe(4);
+
+    // 1/3 of 16 columns is 5.33: floor gives 5 columns, ceil gives 6
+    const thirds: LayoutAbsolute<S, B, 'xs'> = {
+      gridDimensions: { rows: { xs: 1 }, columns: { xs: 3 } },
+      sections: {
+        header: { coordinates: { xs: { block_1: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 2 } } } },
+        main: { coordinates: { xs: { block_1: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 2, gridColumnEnd: 4 } } } },
+      },
+    };
+    expect(
+      rescaleLayoutAbsolute(thirds, [], { columns: 16, rounding: 'floor' }, breakpoints).sections.header.coordinates.xs
+        .block_1?.gridColumnEnd,
+    ).toBe(6);
+    expect(
+      rescaleLayoutAbsolute(thirds, [], { columns: 16, rounding: 'ceil' }, breakpoints).sections.header.coordinates.xs
+        .block_1?.gridColumnEnd,
+    ).toBe(7);
+  });
+
+  test('boxes that round to no column keep one and are reported', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const narrow: LayoutAbsolute<S, B, 'xs'> = {
+      gridDimensions: { rows: { xs: 1 }, columns: { xs: 24 } },
+      sections: {
+        header: {
+          coordinates: {
+            xs: {
+              block_1: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 1, gridColumnEnd: 24 },
+              block_2: { gridRowStart: 1, gridRowEnd: 2, gridColumnStart: 24, gridColumnEnd: 25 },
+            },
+          },
+        },
+        main: { coordinates: { xs: {} } },
+      },
+    };
+
+    const rescaled = rescaleLayoutAbsolute(narrow, diagnostics, { columns: 4 }, breakpoints);
+
+    expect(rescaled.sections.header.coordinates.xs.block_2).toEqual({
+      gridRowStart: 1,
+      gridRowEnd: 2,
+      gridColumnStart: 4,
+      gridColumnEnd: 5,
+    });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].severity).toBe('warning');
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.RESCALE_CONFLICT);
+    expect(diagnostics[0].issue.elementId).toBe('block_2');
+  });
+
+  test('invalid targets are reported and leave the breakpoint as it is', () => {
+    const diagnostics: DiagnosticEntry[] = [];
+    const input = layoutAbsolute();
+
+    const rescaled = rescaleLayoutAbsolute(input, diagnostics, { columns: 7.5 }, breakpoints);
+
+    expect(rescaled).toEqual(input);
+    expect(diagnostics.map((d) => [d.severity, d.issue.code])).toEqual([
+      ['error', GRID_ERROR_CODE.INVALID_COLUMN_COUNT],
+    ]);
+  });
+
+  test('CSSLayout quantizes pixel-like spans and rescales per breakpoint', () => {
+    const layout: Layout<S, B> = {
+      header: { block_1: { spanX: 400, spanY: 50 } },
+      main: { block_1: { spanX: 100, spanY: 50 }, block_2: { spanX: 200, spanY: 50 } },
+    };
+
+    const diagnostics: DiagnosticEntry[] = [];
+    const quantized = CSSLayout({ layout, diagnostics, quantize: true });
+    // The default theme puts the main boxes side by side from sm up
+    expect(quantized.gridDimensions.columns.md).toBe(4);
+    expect(quantized.gridDimensions.rows.md).toBe(2);
+    expect(quantized.sections.main.coordinates.md.block_2).toEqual({
+      gridRowStart: 2,
+      gridRowEnd: 3,
+      gridColumnStart: 2,
+      gridColumnEnd: 4,
+    });
+    expect(diagnostics.some((d) => d.issue.code === GRID_ERROR_CODE.GRID_QUANTIZED)).toBe(true);
+
+    const rescaled = CSSLayout({
+      layout,
+      diagnostics: [],
+      quantize: true,
+      rescale: { columns: { xs: 12, md: 24 } },
+    });
+    for (const bp of BREAKPOINTS) {
+      expect(rescaled.gridDimensions.columns[bp]).toBe(bp === 'xs' || bp === 'sm' ? 12 : 24);
+    }
+  });
+
+  test('quantization and rescaling are traced as their own stages', () => {
+    const layout: Layout<S, B> = {
+      header: { block_1: { spanX: 400, spanY: 50 } },
+      main: { block_1: { spanX: 100, spanY: 50 }, block_2: { spanX: 200, spanY: 50 } },
+    };
+    const trace: LayoutTraceRecord[] = [];
+
+    const quantized = CSSLayout({ layout, diagnostics: [], quantize: true });
+    const rescaled = CSSLayout({ layout, diagnostics: [], quantize: true, rescale: { columns: 12 }, trace });
+
+    const stages = trace.filter((r): r is StageTraceRecord => r.kind === 'stage');
+    expect([...new Set(stages.map((r) => r.stage))].slice(-3)).toEqual([
+      'layoutSectionBtoAbsolute',
+      'quantizeLayoutAbsolute',
+      'rescaleLayoutAbsolute',
+    ]);
+
+    const at = (stage: string) => stages.find((r) => r.stage === stage && r.bp === 'md' && r.section === 'main');
+    expect(at('layoutSectionBtoAbsolute')?.coordinates?.block_2?.gridColumnEnd).toBe(301);
+    expect(at('quantizeLayoutAbsolute')?.coordinates).toEqual(quantized.sections.main.coordinates.md);
+    expect(at('rescaleLayoutAbsolute')?.coordinates).toEqual(rescaled.sections.main.coordinates.md);
+  });
+});
@@ -0,0 +1,253 @@
+// rearrangeTransformations.test.ts
+
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { DefaultBoxTransformations } from '../../boxTransformations';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { NodeID } from '../../templates';
+import { Boxes, BoxSpec, makeBlocks, makeBoxes, origins } from './boxFixtures';
+
+const transformations = DefaultBoxTransformations();
+
+describe('swap', () => {
+  const layout: Partial<Record<NodeID, BoxSpec>> = {
+    sidebar: [0, 0, 3, 4],
+    main: [3, 0, 9, 2],
+  };
+
+  test('exchanges the anchors of two boxes and keeps their spans', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.swap({ boxprops: { boxes: ['sidebar', 'main'] }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.sidebar).toEqual(makeGridBox({ x: 3, y: 0 }, { x: 3, y: 4 }));
+    expect(boxes.main).toEqual(makeGridBox({ x: 0, y: 0 }, { x: 9, y: 2 }));
+  });
+
+  test('swaps on the given anchor', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.swap({ boxprops: { boxes: ['sidebar', 'main'], anchor: 'topRight' }, boxes, diagnostics });
+
+    // topRight of sidebar was (3, 4), of main (12, 2)
+    expect(boxes.sidebar).toEqual(makeGridBox({ x: 9, y: -2 }, { x: 3, y: 4 }));
+    expect(boxes.main).toEqual(makeGridBox({ x: -6, y: 2 }, { x: 9, y: 2 }));
+  });
+
+  test('a box cannot be swapped with itself', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const result = transformations.swap({ boxprops: { boxes: ['main', 'main'] }, boxes, diagnostics });
+
+    expect(result).toBeUndefined();
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS);
+    expect(boxes).toEqual(makeBoxes(layout));
+  });
+});
+
+describe('centerIn', () => {
+  const layout: Partial<Record<NodeID, BoxSpec>> = {
+    block_1: [0, 0, 12, 6],
+    block_2: [0, 0, 3, 2],
+    block_3: [0, 6, 2, 1],
+  };
+
+  test('centers a box within another box, rounding down', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.centerIn({ boxprops: { boxId: 'block_2', within: 'block_1' }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.block_2!.origin).toEqual({ x: 4, y: 2 });
+  });
+
+  test('centers on one axis within the section bounding box', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.centerIn({ boxprops: { boxId: 'block_3', axis: 'x' }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.block_3!.origin).toEqual({ x: 5, y: 6 });
+  });
+
+  test('reports a box centered within itself or on an unknown axis', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.centerIn({ boxprops: { boxId: 'block_2', within: 'block_2' }, boxes, diagnostics });
+    transformations.centerIn({ boxprops: { boxId: 'block_2', axis: 'z' as 'x' }, boxes, diagnostics });
+
+    expect(diagnostics.map((d) => d.issue.code)).toEqual([
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+    ]);
+    expect(boxes).toEqual(makeBoxes(layout));
+  });
+});
+
+describe('gridify', () => {
+  // Five tiles; block_2 is wider, block_4 taller
+  const tiles: Array<[number, number]> = [[2, 1], [3, 1], [2, 1], [2, 2], [2, 1]];
+
+  test('fills a k-column matrix row by row with gaps', () => {
+    const boxes = makeBlocks(tiles);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.gridify({ boxprops: { columns: 3, columnGap: 1, rowGap: 1 }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    // Column 1 is 3 wide (block_2), row 0 is 1 tall
+    expect(origins(boxes)).toEqual([
+      [0, 0], [3, 0], [7, 0],
+      [0, 2], [3, 2],
+    ]);
+  });
+
+  test('rows are as tall as their tallest box and order comes first', () => {
+    const boxes = makeBlocks(tiles);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.gridify({ boxprops: { columns: 2, order: ['block_4'] }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    // block_4, block_1 / block_2, block_3 / block_5; column 0 is 3 wide (block_2)
+    expect(boxes.block_4!.origin).toEqual({ x: 0, y: 0 });
+    expect(boxes.block_1!.origin).toEqual({ x: 3, y: 0 });
+    expect(boxes.block_2!.origin).toEqual({ x: 0, y: 2 });
+    expect(boxes.block_3!.origin).toEqual({ x: 3, y: 2 });
+    expect(boxes.block_5!.origin).toEqual({ x: 0, y: 3 });
+  });
+
+  test('rejects a column count that is not a positive whole number', () => {
+    for (const columns of [0, 1.5]) {
+      const boxes = makeBlocks(tiles);
+      const diagnostics: DiagnosticEntry[] = [];
+
+      const result = transformations.gridify({ boxprops: { columns }, boxes, diagnostics });
+
+      expect(result).toBeUndefined();
+      expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS);
+      expect(boxes).toEqual(makeBlocks(tiles));
+    }
+  });
+});
+
+describe('pack', () => {
+  // Boxes start away from the top left corner, so that every origin comes from the packing
+  const unplaced = { x: 9, y: 9 };
+
+  test('first-fit resumes after the previous box, dense back-fills', () => {
+    const sparse = makeBlocks([[3, 1], [2, 1], [1, 1]], unplaced);
+    const dense = makeBlocks([[3, 1], [2, 1], [1, 1]], unplaced);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.pack({ boxprops: { columns: 4 }, boxes: sparse, diagnostics });
+    transformations.pack({ boxprops: { columns: 4, dense: true }, boxes: dense, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(origins(sparse)).toEqual([[0, 0], [0, 1], [2, 1]]);
+    expect(origins(dense)).toEqual([[0, 0], [0, 1], [3, 0]]);
+  });
+
+  test('skyline places boxes on the lowest columns, dense fills holes below it', () => {
+    // block_3 spans all columns and leaves a hole next to block_1
+    const spans: Array<[number, number]> = [[1, 2], [2, 1], [3, 1], [2, 1]];
+    const skyline = makeBlocks(spans, unplaced);
+    const dense = makeBlocks(spans, unplaced);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.pack({ boxprops: { columns: 3, strategy: 'skyline' }, boxes: skyline, diagnostics });
+    transformations.pack({ boxprops: { columns: 3, strategy: 'skyline', dense: true }, boxes: dense, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(origins(skyline)).toEqual([[0, 0], [1, 0], [0, 2], [0, 3]]);
+    expect(origins(dense)).toEqual([[0, 0], [1, 0], [0, 2], [1, 1]]);
+  });
+
+  test('boxes wider than the columns are reported and get rows of their own', () => {
+    const boxes = makeBlocks([[1, 1], [6, 1], [1, 1]], unplaced);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.pack({ boxprops: { columns: 4, dense: true }, boxes, diagnostics });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.CONSTRAINT_VIOLATION);
+    expect(diagnostics[0].issue.elementId).toBe('block_2');
+    expect(origins(boxes)).toEqual([[0, 0], [0, 1], [1, 0]]);
+  });
+
+  test('pixel-like spans pack like the same layout on few columns', () => {
+    const spans: Array<[number, number]> = [[1, 2], [2, 1], [3, 1], [2, 1], [1, 1]];
+    const scale = (boxes: Boxes) =>
+      origins(boxes).map(([x, y]) => [x * 100, y * 50]);
+
+    for (const boxprops of [
+      { columns: 3, strategy: 'skyline' as const },
+      { columns: 3, strategy: 'skyline' as const, dense: true },
+      { columns: 3, dense: true },
+    ]) {
+      const small = makeBlocks(spans, unplaced);
+      const large = makeBlocks(spans.map(([x, y]) => [x * 100, y * 50]), unplaced);
+      const diagnostics: DiagnosticEntry[] = [];
+
+      transformations.pack({ boxprops, boxes: small, diagnostics });
+      transformations.pack({ boxprops: { ...boxprops, columns: 300 }, boxes: large, diagnostics });
+
+      expect(diagnostics).toEqual([]);
+      expect(origins(large)).toEqual(scale(small));
+    }
+  });
+
+  test('rejects invalid columns and strategies', () => {
+    const boxes = makeBlocks([[1, 1]], unplaced);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.pack({ boxprops: { columns: -2 }, boxes, diagnostics });
+    transformations.pack({ boxprops: { columns: 2, strategy: 'best-fit' as 'skyline' }, boxes, diagnostics });
+
+    expect(diagnostics.map((d) => d.issue.code)).toEqual([
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+    ]);
+    expect(boxes).toEqual(makeBlocks([[1, 1]], unplaced));
+  });
+});
+
+describe('transpose', () => {
+  // A row of three cards starting at (2, 1)
+  const row: Partial<Record<NodeID, BoxSpec>> = {
+    block_1: [2, 1, 3, 2],
+    block_2: [5, 1, 3, 2],
+    block_3: [8, 1, 4, 1],
+  };
+
+  test('turns a row into a column around the lowest corner', () => {
+    const boxes = makeBoxes(row);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.transpose({ boxprops: {}, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.block_1).toEqual(makeGridBox({ x: 2, y: 1 }, { x: 2, y: 3 }));
+    expect(boxes.block_2).toEqual(makeGridBox({ x: 2, y: 4 }, { x: 2, y: 3 }));
+    expect(boxes.block_3).toEqual(makeGridBox({ x: 2, y: 7 }, { x: 1, y: 4 }));
+  });
+
+  test('transposes only the selected boxes and twice restores them', () => {
+    const boxes = makeBoxes(row);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.transpose({ boxprops: { boxes: { exclude: ['block_1'] } }, boxes, diagnostics });
+    expect(boxes.block_1).toEqual(makeBoxes(row).block_1);
+    expect(boxes.block_3).toEqual(makeGridBox({ x: 5, y: 4 }, { x: 1, y: 4 }));
+
+    transformations.transpose({ boxprops: { boxes: { exclude: ['block_1'] } }, boxes, diagnostics });
+    expect(diagnostics).toEqual([]);
+    expect(boxes).toEqual(makeBoxes(row));
+  });
+});
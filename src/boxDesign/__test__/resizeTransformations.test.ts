@@ -0,0 +1,106 @@
+// resizeTransformations.test.ts
+
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { DefaultBoxTransformations } from '../../boxTransformations';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { NodeID } from '../../templates';
+import { BoxSpec, makeBoxes } from './boxFixtures';
+
+describe('resize transformations', () => {
+  // sidebar on the left, main next to it, footer below both
+  const layout: Partial<Record<NodeID, BoxSpec>> = {
+    sidebar: [0, 0, 3, 2],
+    main: [3, 0, 4, 2],
+    footer: [0, 2, 12, 1],
+  };
+  const transformations = DefaultBoxTransformations();
+
+  test('setSpan replaces the given spans and keeps the origin', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.setSpan({ boxprops: { boxId: 'main', spanX: 6 }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.main).toEqual(makeGridBox({ x: 3, y: 0 }, { x: 6, y: 2 }));
+  });
+
+  test('setSpan rejects non-positive spans', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const result = transformations.setSpan({ boxprops: { boxId: 'main', spanY: 0 }, boxes, diagnostics });
+
+    expect(result).toBeUndefined();
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS);
+    expect(boxes.main).toEqual(makeBoxes(layout).main);
+  });
+
+  test('scale rounds to whole tracks and never drops below one', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.scale({ boxprops: { boxId: 'main', factor: { x: 1.5, y: 0.1 } }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.main!.diagonal).toEqual({ x: 6, y: 1 });
+  });
+
+  test('stretchTo moves one edge and keeps the opposite one', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    // footer's left edge up to main's left edge
+    transformations.stretchTo({
+      boxprops: { boxId: 'footer', edge: 'left', to: { boxId: 'main', anchor: 'bottomLeft' } },
+      boxes,
+      diagnostics,
+    });
+    // sidebar's top edge to row 5, one track short
+    transformations.stretchTo({ boxprops: { boxId: 'sidebar', edge: 'top', to: 5, gap: 1 }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.footer).toEqual(makeGridBox({ x: 3, y: 2 }, { x: 9, y: 1 }));
+    expect(boxes.sidebar).toEqual(makeGridBox({ x: 0, y: 0 }, { x: 3, y: 4 }));
+  });
+
+  test('stretchTo refuses to collapse a box', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const result = transformations.stretchTo({
+      boxprops: { boxId: 'main', edge: 'right', to: { boxId: 'sidebar', anchor: 'bottomLeft' } },
+      boxes,
+      diagnostics,
+    });
+
+    expect(result).toBeUndefined();
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.CONSTRAINT_VIOLATION);
+    expect(boxes.main).toEqual(makeBoxes(layout).main);
+  });
+
+  test('fillRemaining grows main over the width the sidebar leaves', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    // without a width the section edge is the widest box (the footer)
+    transformations.fillRemaining({ boxprops: { boxId: 'main' }, boxes, diagnostics });
+    expect(boxes.main!.diagonal.x).toBe(9);
+
+    transformations.fillRemaining({ boxprops: { boxId: 'main', width: 16 }, boxes, diagnostics });
+    expect(boxes.main!.diagonal.x).toBe(13);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  test('fillRemaining stops before the next box on the same rows', () => {
+    const boxes = makeBoxes(layout);
+    boxes.aside = makeGridBox({ x: 10, y: 1 }, { x: 2, y: 1 });
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformations.fillRemaining({ boxprops: { boxId: 'main', gap: 1 }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.main).toEqual(makeGridBox({ x: 3, y: 0 }, { x: 6, y: 2 }));
+  });
+});
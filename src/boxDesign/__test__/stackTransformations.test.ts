@@ -0,0 +1,283 @@
+// stackTransformations.test.ts
+
+import { Layout } from '../../boxLayout/boxLayoutTypes';
+import { DefaultBoxTransformations } from '../../boxTransformations';
+import { BREAKPOINTS } from '../../breakpoints';
+import { DiagnosticEntry, GRID_ERROR_CODE } from '../../gridErrorShape';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { NodeID } from '../../templates';
+import { CSSLayout } from '../CSSlayout';
+import { Boxes, BoxSpec, makeBlocks, makeBoxes, origins } from './boxFixtures';
+
+describe('stack ordering', () => {
+  const sizes: Array<[number, number]> = [[1, 1], [2, 1], [3, 1]];
+  const xs = (boxes: Boxes) =>
+    Object.fromEntries(Object.entries(boxes).map(([id, box]) => [id, box!.origin.x]));
+
+  test('order puts the listed boxes first, the rest follow in key order', () => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({
+      boxprops: { order: ['block_3'] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(xs(boxes)).toEqual({ block_3: 0, block_1: 3, block_2: 4 });
+  });
+
+  test('reverse flips the sequence, unknown names in order are warned about', () => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({
+      boxprops: { order: ['block_9', 'block_2'], reverse: true },
+      boxes,
+      diagnostics,
+    });
+
+    expect(xs(boxes)).toEqual({ block_3: 0, block_1: 3, block_2: 4 });
+    expect(diagnostics.map((d) => [d.severity, d.issue.code])).toEqual([
+      ['warning', GRID_ERROR_CODE.UNKNOWN_NODE_ID],
+    ]);
+  });
+
+  test('the default theme stacks sections in a per-breakpoint order', () => {
+    const layout = {
+      main: { block_1: { spanX: 4, spanY: 2 } },
+      sidebar: { block_1: { spanX: 2, spanY: 1 } },
+    } satisfies Layout<'main' | 'sidebar', 'block_1'>;
+
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({
+      layout,
+      diagnostics,
+      theme: getDefaultTheme(layout, BREAKPOINTS, { xs: ['main', 'sidebar'], md: ['sidebar', 'main'] }),
+    });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+
+    const top = (bp: (typeof BREAKPOINTS)[number], section: 'main' | 'sidebar') =>
+      absolute.sections[section].coordinates[bp].block_1!.gridRowStart;
+
+    expect(top('sm', 'main')).toBeLessThan(top('sm', 'sidebar'));
+    expect(top('md', 'sidebar')).toBeLessThan(top('md', 'main'));
+    expect(top('xl', 'sidebar')).toBeLessThan(top('xl', 'main'));
+  });
+});
+
+describe('stack alignment and distribution', () => {
+  // A short and a tall box side by side
+  const sizes: Array<[number, number]> = [[2, 1], [2, 4]];
+  const spans = (boxes: Boxes, axis: 'x' | 'y') =>
+    Object.values(boxes).map((box) => [box!.origin[axis], box!.diagonal[axis]]);
+
+  test.each([
+    ['start', [[0, 1], [0, 4]]],
+    ['center', [[1, 1], [0, 4]]],
+    ['end', [[3, 1], [0, 4]]],
+    ['stretch', [[0, 4], [0, 4]]],
+  ] as const)('align %s places boxes on the cross axis', (align, expected) => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({ boxprops: { align }, boxes, diagnostics });
+
+    expect(diagnostics).toEqual([]);
+    expect(spans(boxes, 'y')).toEqual(expected);
+    expect(spans(boxes, 'x')).toEqual([[0, 2], [2, 2]]);
+  });
+
+  test.each([
+    ['packed', [[0, 2], [3, 2]]],
+    ['space-between', [[0, 2], [8, 2]]],
+    ['space-evenly', [[2, 2], [6, 2]]],
+  ] as const)('distribute %s shares the extent on the main axis', (distribute, expected) => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({
+      boxprops: { gap: 1, distribute, extent: 10 },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(spans(boxes, 'x')).toEqual(expected);
+  });
+
+  test('stackVertically aligns on x and rejects a distribution without extent', () => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+    const transformations = DefaultBoxTransformations();
+
+    transformations.stackVertically({ boxprops: { align: 'end' }, boxes, diagnostics });
+    expect(spans(boxes, 'x')).toEqual([[0, 2], [0, 2]]);
+    expect(spans(boxes, 'y')).toEqual([[0, 1], [1, 4]]);
+
+    const result = transformations.stackVertically({
+      boxprops: { distribute: 'space-between' },
+      boxes,
+      diagnostics,
+    });
+    expect(result).toBeUndefined();
+    expect(diagnostics.map((d) => d.issue.code)).toEqual([GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS]);
+  });
+
+  test('boxes longer than the extent are stacked packed with a warning', () => {
+    const boxes = makeBlocks(sizes);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({
+      boxprops: { distribute: 'space-evenly', extent: 3 },
+      boxes,
+      diagnostics,
+    });
+
+    expect(spans(boxes, 'x')).toEqual([[0, 2], [2, 2]]);
+    expect(diagnostics.map((d) => [d.severity, d.issue.code])).toEqual([
+      ['warning', GRID_ERROR_CODE.CONSTRAINT_VIOLATION],
+    ]);
+  });
+});
+
+describe('flowWrap', () => {
+  // Six 4-column cards, the last one taller
+  const cards: Array<[number, number]> = [[4, 2], [4, 2], [4, 2], [4, 2], [4, 2], [4, 3]];
+
+  test('wraps rows at maxWidth with column and row gaps', () => {
+    const boxes = makeBlocks(cards);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().flowWrap({
+      boxprops: { maxWidth: 20, columnGap: 1, rowGap: 1 },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(origins(boxes)).toEqual([
+      [0, 0], [5, 0], [10, 0], [15, 0],
+      [0, 3], [5, 3],
+    ]);
+  });
+
+  test('a row is as tall as its tallest box', () => {
+    const boxes = makeBlocks(cards);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().flowWrap({
+      boxprops: { maxWidth: 8, order: ['block_6'] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(boxes.block_6!.origin).toEqual({ x: 0, y: 0 });
+    expect(boxes.block_2!.origin).toEqual({ x: 0, y: 3 });
+  });
+
+  test('rejects a missing maxWidth and warns about boxes wider than it', () => {
+    const transformations = DefaultBoxTransformations();
+    const diagnostics: DiagnosticEntry[] = [];
+
+    expect(
+      transformations.flowWrap({ boxprops: { maxWidth: 0 }, boxes: makeBlocks(cards), diagnostics }),
+    ).toBeUndefined();
+
+    const boxes = makeBlocks(cards);
+    transformations.flowWrap({ boxprops: { maxWidth: 3 }, boxes, diagnostics });
+
+    expect(boxes.block_2!.origin).toEqual({ x: 0, y: 2 });
+    expect(diagnostics.map((d) => [d.severity, d.issue.code])).toEqual([
+      ['error', GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS],
+      ...Array(6).fill(['warning', GRID_ERROR_CODE.CONSTRAINT_VIOLATION]),
+    ]);
+  });
+});
+
+describe('box selection', () => {
+  // block_1 is a hero pinned on the top row, the cards sit below it
+  const layout: Partial<Record<NodeID, BoxSpec>> = {
+    block_1: [5, 4, 12, 2],
+    block_2: [0, 0, 2, 1],
+    block_3: [0, 0, 3, 1],
+    block_4: [0, 0, 4, 1],
+  };
+
+  test('stacks only the listed boxes, the hero keeps its position', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackHorizontally({
+      boxprops: { boxes: ['block_2', 'block_3', 'block_4'], gap: 1 },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.block_1).toEqual(makeBoxes(layout).block_1);
+    expect([boxes.block_2, boxes.block_3, boxes.block_4].map((box) => box!.origin.x)).toEqual([0, 3, 7]);
+  });
+
+  test('an exclusion list stacks every other box, order applies within the selection', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().stackVertically({
+      boxprops: { boxes: { exclude: ['block_1'] }, order: ['block_4', 'block_1'] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(boxes.block_1).toEqual(makeBoxes(layout).block_1);
+    expect([boxes.block_4, boxes.block_2, boxes.block_3].map((box) => box!.origin.y)).toEqual([0, 1, 2]);
+  });
+
+  test('alignAll transformations act on the selection only', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().alignAllToX({
+      boxprops: { to: 6, anchor: 'bottomLeft', boxes: { exclude: ['block_1'] } },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(Object.values(boxes).map((box) => box!.origin.x)).toEqual([5, 6, 6, 6]);
+  });
+
+  test('unknown ids in a selector are reported', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    DefaultBoxTransformations().alignAllToY({
+      boxprops: { to: 0, anchor: 'bottomLeft', boxes: ['block_2', 'footer'] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].severity).toBe('warning');
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.UNKNOWN_NODE_ID);
+    expect(diagnostics[0].issue.message).toContain('footer');
+    expect(boxes.block_2!.origin.y).toBe(0);
+  });
+
+  test('a selection that picks nothing is an error', () => {
+    const boxes = makeBoxes(layout);
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const result = DefaultBoxTransformations().stackHorizontally({
+      boxprops: { boxes: [] },
+      boxes,
+      diagnostics,
+    });
+
+    expect(result).toBeUndefined();
+    expect(diagnostics.map((d) => d.issue.code)).toEqual([GRID_ERROR_CODE.NO_BOXES_PROCESSED]);
+  });
+});
@@ -0,0 +1,139 @@
+// transformBoxMove.test.ts
+
+import { GridBox } from '../../box/gridBoxTypes';
+import { makeGridBox } from '../../box/gridBoxUtils';
+import { BoxTransformations } from '../../boxLayout/boxLayoutTypes';
+import { extendBoxTransformations } from '../../boxTransformations';
+import { BPs } from '../../breakpoints';
+import { DiagnosticEntry, GRID_ERROR_CODE, makeError } from '../../gridErrorShape';
+import { getDefaultTheme } from '../../layoutTheme/defaultLayoutTheme';
+import { ThemeForLayout } from '../../layoutTheme/layoutThemeTypes';
+import { BlocksIDs, getLayoutFromCatalog } from '../../templates';
+import { CSSLayout } from '../CSSlayout';
+import { transformBoxMove } from '../transformBoxMove';
+
+type CompanyMoves = {
+  dockToSidebar: { boxId: BlocksIDs; side: 'left' | 'right' };
+};
+
+// Docks a box against the left (x = 0) or right edge of the widest box.
+const companyRegistry = extendBoxTransformations<CompanyMoves>({
+  dockToSidebar: ({ boxprops, boxes, diagnostics }) => {
+    const box = boxes[boxprops.boxId];
+    if (!box) {
+      diagnostics.push(
+        makeError('custom:dockToSidebar', GRID_ERROR_CODE.MISSING_BOX, `Box ${boxprops.boxId} not found`),
+      );
+      return undefined;
+    }
+
+    let right = 0;
+    for (const id in boxes) {
+      const other = boxes[id as BlocksIDs];
+      if (other) right = Math.max(right, other.origin.x + other.diagonal.x);
+    }
+
+    const x = boxprops.side === 'left' ? 0 : right - box.diagonal.x;
+    const docked = makeGridBox({ x, y: box.origin.y }, box.diagonal);
+    boxes[boxprops.boxId] = docked;
+    return docked;
+  },
+});
+
+function mkBoxes(): BPs<Partial<Record<BlocksIDs, GridBox>>> {
+  const boxes = () => ({
+    block_1: makeGridBox({ x: 0, y: 0 }, { x: 4, y: 1 }),
+    block_2: makeGridBox({ x: 1, y: 1 }, { x: 1, y: 1 }),
+  });
+  return { xs: boxes(), sm: boxes(), md: boxes(), lg: boxes(), xl: boxes() };
+}
+
+describe('transformBoxMove registry', () => {
+  test('dispatches custom transformations next to the defaults', () => {
+    const gridBoxes = mkBoxes();
+    const diagnostics: DiagnosticEntry[] = [];
+
+    const transformations: BoxTransformations<BlocksIDs, CompanyMoves> = {
+      xs: [{ dockToSidebar: { boxId: 'block_2', side: 'right' } }],
+      sm: [{ dockToSidebar: { boxId: 'block_2', side: 'left' } }],
+      md: [{ moveBy: { from: { boxId: 'block_2' }, by: { x: 2, y: 0 } } }],
+      lg: [],
+      xl: [],
+    };
+
+    transformBoxMove(companyRegistry, transformations, gridBoxes, diagnostics);
+
+    expect(diagnostics).toEqual([]);
+    expect(gridBoxes.xs.block_2!.origin).toEqual({ x: 3, y: 1 });
+    expect(gridBoxes.sm.block_2!.origin).toEqual({ x: 0, y: 1 });
+    expect(gridBoxes.md.block_2!.origin).toEqual({ x: 3, y: 1 });
+    expect(gridBoxes.lg.block_2!.origin).toEqual({ x: 1, y: 1 });
+  });
+
+  test('custom failures go through the same diagnostics plumbing', () => {
+    const gridBoxes = mkBoxes();
+    const diagnostics: DiagnosticEntry[] = [];
+
+    transformBoxMove(
+      companyRegistry,
+      { xs: [{ dockToSidebar: { boxId: 'block_9', side: 'left' } }], sm: [], md: [], lg: [], xl: [] },
+      gridBoxes,
+      diagnostics,
+    );
+
+    expect(diagnostics.map((d) => [d.origin, d.issue.code])).toEqual([
+      ['custom:dockToSidebar', GRID_ERROR_CODE.MISSING_BOX],
+      ['transformBoxMove', GRID_ERROR_CODE.CONSTRAINT_VIOLATION],
+    ]);
+  });
+
+  test('transformations missing from the registry are reported as unknown', () => {
+    const gridBoxes = mkBoxes();
+    const diagnostics: DiagnosticEntry[] = [];
+
+    // The default-only path: the custom key has no implementation
+    const { dockToSidebar, ...defaultsOnly } = companyRegistry;
+
+    transformBoxMove(
+      { ...defaultsOnly } as typeof companyRegistry,
+      { xs: [{ dockToSidebar: { boxId: 'block_2', side: 'left' } }], sm: [], md: [], lg: [], xl: [] },
+      gridBoxes,
+      diagnostics,
+    );
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].issue.code).toBe(GRID_ERROR_CODE.UNKNOWN_TRANSFORMATION);
+    expect(gridBoxes.xs.block_2!.origin).toEqual({ x: 1, y: 1 });
+  });
+
+  test('CSSLayout accepts a theme and registry with custom transformations', () => {
+    const layout = getLayoutFromCatalog('primary20', 'page_dashboard_kpis_then_content');
+    type S = keyof typeof layout;
+    type B = (typeof layout)[S] extends infer R ? keyof R & BlocksIDs : never;
+
+    const defaultTheme = getDefaultTheme(layout);
+    const theme: ThemeForLayout<S, B, CompanyMoves> = {
+      ...defaultTheme,
+      sectionBoxTransforms: (section, layout) => {
+        const base = defaultTheme.sectionBoxTransforms(section, layout);
+        return {
+          ...base,
+          md: [...base.md, { dockToSidebar: { boxId: 'block_1', side: 'right' } }],
+        };
+      },
+    };
+
+    const diagnostics: DiagnosticEntry[] = [];
+    const absolute = CSSLayout({ layout, diagnostics, theme, transformationFactory: companyRegistry });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+    expect(absolute.sections.main.coordinates.md.block_1).toBeDefined();
+
+    // Without the registry the custom key cannot be dispatched
+    const withoutRegistry: DiagnosticEntry[] = [];
+    CSSLayout({ layout, diagnostics: withoutRegistry, theme });
+    expect(
+      withoutRegistry.some((d) => d.issue.code === GRID_ERROR_CODE.UNKNOWN_TRANSFORMATION),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Compact Layout Absolute
+ *
+ * This module removes empty tracks from a layout with absolute CSS Grid coordinates.
+ * Stacking with gaps and moving sections around often leaves whole rows or columns
+ * that no box occupies; compaction drops them, re-indexes the lines of every box and
+ * section bound, and shrinks the grid dimensions to match.
+ */
+
+// Layout types for the final absolute coordinates
+import { BoxesCoordinates, LayoutAbsolute } from "../boxLayout/boxLayoutTypes";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS, BPs } from "../breakpoints";
+
+// Error handling and diagnostic utilities
+import { DiagnosticEntry, GRID_ERROR_CODE, makeInfo } from "../gridErrorShape";
+
+// CSS Grid coordinate type definitions
+import { CSSCoordinates } from "../gridNodeTypes";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, SectionIDs } from "../templates";
+
+/**
+ * Options of the compaction.
+ *
+ * @property keepInnerTracks - Keep every empty track that lies between occupied tracks,
+ *   whatever left it empty (a stack gap, a moved section or a hidden box), and only
+ *   remove the empty tracks at the start and end of the grid (defaults to false: every
+ *   empty track is removed)
+ */
+export type CompactOptions = {
+  keepInnerTracks?: boolean;
+};
+
+/**
+ * Line mapping of one axis: for every line of the grid, the line it moves to.
+ *
+ * @param extents - Start and end lines of every box on the axis
+ * @param tracks - Number of tracks of the grid on the axis
+ * @param keepInnerTracks - Only remove empty tracks at the start and end
+ * @returns The new line of each old line (index = old line), and the number of removed tracks
+ */
+function compactAxis(
+  extents: ReadonlyArray<[number, number]>,
+  tracks: number,
+  keepInnerTracks: boolean
+): { lines: number[]; removed: number } {
+  // A track t spans lines t to t + 1
+  const occupied: boolean[] = new Array(tracks + 1).fill(false);
+  for (const [start, end] of extents) {
+    for (let track = Math.max(1, start); track < Math.min(end, tracks + 1); track++) {
+      occupied[track] = true;
+    }
+  }
+
+  const first = occupied.indexOf(true);
+  const last = occupied.lastIndexOf(true);
+
+  const lines: number[] = [];
+  let removed = 0;
+
+  for (let line = 1; line <= tracks + 1; line++) {
+    lines[line] = line - removed;
+
+    const empty = line <= tracks && !occupied[line];
+    const inside = line > first && line < last;
+    if (empty && !(keepInnerTracks && inside)) {
+      removed++;
+    }
+  }
+
+  return { lines, removed };
+}
+
+/**
+ * Remove empty rows and columns from a layout with absolute coordinates at each breakpoint
+ *
+ * A track is empty when no visible box of any section covers it. Empty tracks are
+ * removed, the lines of every box and section bound are re-indexed and the grid
+ * dimensions are reduced by the removed tracks. With `keepInnerTracks`, empty tracks between
+ * occupied ones are kept, so only the leading and trailing ones go.
+ *
+ * Every breakpoint with removed tracks is reported with a `TRACKS_COMPACTED` info
+ * diagnostic whose details hold the breakpoint and the number of removed rows and
+ * columns. Breakpoints without boxes are left as they are.
+ *
+ * The input is not modified.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param layoutAbsolute - Layout with absolute CSS Grid coordinates
+ * @param diagnostics - Array to collect the compaction reports
+ * @param options - Compaction options
+ * @param breakpoints - Breakpoints to compact, smallest first (defaults to `BREAKPOINTS`)
+ * @returns A new layout without empty tracks
+ *
+ * @example
+ * ```typescript
+ * const layoutAbsolute = CSSLayout({ layout: myLayout, diagnostics });
+ * const compacted = compactLayoutAbsolute(layoutAbsolute, diagnostics, { keepInnerTracks: true });
+ * // compacted equals CSSLayout({ layout: myLayout, diagnostics, compact: { keepInnerTracks: true } })
+ * ```
+ */
+export function compactLayoutAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
+  diagnostics: DiagnosticEntry[],
+  options: CompactOptions = {},
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const { keepInnerTracks = false } = options;
+  const sectionIds = Object.keys(layoutAbsolute.sections) as sectionIDs[];
+
+  const sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>;
+  for (const sectionId of sectionIds) {
+    sections[sectionId] = {
+      ...layoutAbsolute.sections[sectionId],
+      coordinates: { ...layoutAbsolute.sections[sectionId].coordinates } as BPs<
+        Partial<Record<blockIDs, CSSCoordinates>>,
+        BP
+      >,
+    };
+  }
+
+  const gridDimensions = {
+    rows: { ...layoutAbsolute.gridDimensions.rows },
+    columns: { ...layoutAbsolute.gridDimensions.columns },
+  };
+
+  for (const bp of breakpoints) {
+    // Extents of every visible box at this breakpoint
+    const boxes: CSSCoordinates[] = [];
+    for (const sectionId of sectionIds) {
+      const coordinates = sections[sectionId].coordinates[bp];
+      for (const box of Object.values<CSSCoordinates | undefined>(coordinates ?? {})) {
+        if (box) {
+          boxes.push(box);
+        }
+      }
+    }
+
+    if (boxes.length === 0) {
+      continue;
+    }
+
+    const rows = compactAxis(
+      boxes.map((box) => [box.gridRowStart, box.gridRowEnd]),
+      layoutAbsolute.gridDimensions.rows[bp],
+      keepInnerTracks
+    );
+    const columns = compactAxis(
+      boxes.map((box) => [box.gridColumnStart, box.gridColumnEnd]),
+      layoutAbsolute.gridDimensions.columns[bp],
+      keepInnerTracks
+    );
+
+    if (rows.removed === 0 && columns.removed === 0) {
+      continue;
+    }
+
+    // Lines outside the grid keep their distance to its edge
+    const mapLine = (lines: number[], removed: number, line: number) =>
+      lines[line] ?? (line < 1 ? line : line - removed);
+
+    const compact = (box: CSSCoordinates): CSSCoordinates => ({
+      ...box,
+      gridRowStart: mapLine(rows.lines, rows.removed, box.gridRowStart),
+      gridRowEnd: mapLine(rows.lines, rows.removed, box.gridRowEnd),
+      gridColumnStart: mapLine(columns.lines, columns.removed, box.gridColumnStart),
+      gridColumnEnd: mapLine(columns.lines, columns.removed, box.gridColumnEnd),
+    });
+
+    for (const sectionId of sectionIds) {
+      const coordinates = sections[sectionId].coordinates[bp];
+      if (coordinates) {
+        const compacted: Partial<Record<blockIDs, CSSCoordinates>> = {};
+        for (const boxId of Object.keys(coordinates) as blockIDs[]) {
+          const box = coordinates[boxId];
+          if (box) {
+            compacted[boxId] = compact(box);
+          }
+        }
+        sections[sectionId].coordinates[bp] = compacted;
+      }
+
+      const bounds = sections[sectionId].bounds?.[bp];
+      if (bounds) {
+        sections[sectionId].bounds = { ...sections[sectionId].bounds, [bp]: compact(bounds) };
+      }
+    }
+
+    gridDimensions.rows[bp] -= rows.removed;
+    gridDimensions.columns[bp] -= columns.removed;
+
+    diagnostics.push(
+      makeInfo(
+        "compactLayoutAbsolute",
+        GRID_ERROR_CODE.TRACKS_COMPACTED,
+        `Removed ${rows.removed} empty rows and ${columns.removed} empty columns at breakpoint ${bp}`,
+        { details: { bp, rows: rows.removed, columns: columns.removed } }
+      )
+    );
+  }
+
+  return { ...layoutAbsolute, gridDimensions, sections };
+}
@@ -0,0 +1,383 @@
+/**
+ * Incremental Layout
+ *
+ * This module keeps the work of `CSSLayout` between runs, for editors that lay out
+ * the same page again on every keystroke. The section-local boxes of every section
+ * and breakpoint are cached, keyed by a stable hash of the section's spans, the
+ * theme output and the section transformations at that breakpoint. A run only
+ * transforms the sections and breakpoints whose key changed; section placement
+ * (bounds, absolute coordinates and everything after) always runs again, since it
+ * depends on all sections at once.
+ */
+
+// Grid box type definitions
+import { GridBox } from "../box/gridBoxTypes";
+
+// Layout type definitions for different transformation stages
+import {
+  BoxTransformations,
+  BPSGridBoxes,
+  Layout,
+  LayoutAbsolute,
+  LayoutSectionLocal,
+  SectionLayout,
+} from "../boxLayout/boxLayoutTypes";
+
+// Transformation registry types
+import {
+  BoxMovesFunctions,
+  BoxMovesProps,
+  CustomBoxMovesProps,
+  DefaultBoxTransformations,
+} from "../boxTransformations";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS } from "../breakpoints";
+
+// Error handling and diagnostic utilities
+import { DiagnosticEntry } from "../gridErrorShape";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, NodeID, SectionIDs } from "../templates";
+
+// Transformation pipeline functions
+import { completeCSSLayout, CSSLayoutProps, listHooks } from "./CSSlayout";
+import { isBlocksID, layoutToTx, resolveResponsiveSpan, resolveResponsiveVisibility } from "./layoutToTx";
+import {
+  applySectionTransformations,
+  layoutTxToSectionLocal,
+  resolveSectionGridBoxes,
+  resolveSectionTransformations,
+} from "./layoutTxToSectionLocal";
+import { runPipelineHooks } from "./pipelineHooks";
+
+/**
+ * Options of an incremental layout: the `CSSLayout` props that stay the same between runs.
+ * Tracing is not available, since cached sections run no transformations to record.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type IncrementalLayoutOptions<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = Omit<CSSLayoutProps<sectionIDs, blockIDs, Ext, BP>, "layout" | "diagnostics" | "trace">;
+
+/**
+ * Cache statistics of an incremental layout.
+ * Every run looks up one entry per section and breakpoint.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property runs - Number of runs since the layout was made or cleared
+ * @property hits - Section-local results taken from the cache, over all runs
+ * @property misses - Section-local results computed, over all runs
+ * @property entries - Entries in the cache, one per section and breakpoint of the last run
+ * @property lastRun - Hits and misses of the last run, with the recomputed sections
+ */
+export type IncrementalLayoutStats<BP extends string = Breakpoint> = {
+  runs: number;
+  hits: number;
+  misses: number;
+  entries: number;
+  lastRun: {
+    hits: number;
+    misses: number;
+    recomputed: Array<{ section: SectionIDs; bp: BP }>;
+  };
+};
+
+/**
+ * A `CSSLayout` that remembers the section-local results of its previous runs.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property run - Lay out a layout, like `CSSLayout` with the options of the incremental layout
+ * @property stats - Cache statistics so far
+ * @property clear - Empty the cache and reset the statistics
+ */
+export type IncrementalLayout<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = {
+  run: (
+    layout: Layout<sectionIDs, blockIDs, BP>,
+    diagnostics: DiagnosticEntry[]
+  ) => LayoutAbsolute<sectionIDs, blockIDs, BP>;
+  stats: () => IncrementalLayoutStats<BP>;
+  clear: () => void;
+};
+
+/**
+ * Cached section-local result of one section at one breakpoint
+ */
+type SectionCacheEntry<blockIDs extends BlocksIDs, Ext extends CustomBoxMovesProps> = {
+  hash: string;
+  input: string;
+  boxes: Partial<Record<blockIDs, GridBox>>;
+  crossSection?: Array<BoxMovesProps<blockIDs, Ext>>;
+  diagnostics: DiagnosticEntry[];
+};
+
+/**
+ * Serialize a value with object keys in sorted order, so that equal values
+ * give equal strings whatever order their keys were written in.
+ *
+ * @param value - JSON-like value to serialize
+ * @returns The serialized value
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * 53-bit string hash (cyrb53), as a base-36 string
+ *
+ * @param input - String to hash
+ * @returns The hash
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Resolve the spans of a section's blocks at one breakpoint
+ *
+ * @param blocks - The section as written in the layout
+ * @param bp - Breakpoint to resolve
+ * @param breakpoints - Breakpoint names, smallest first
+ * @returns Span and visibility of every block at `bp`
+ */
+function sectionSpansAt<blockIDs extends BlocksIDs, BP extends string>(
+  blocks: SectionLayout<blockIDs, BP> | undefined,
+  bp: BP,
+  breakpoints: readonly BP[]
+) {
+  const spans: Record<string, { spanX?: number; spanY?: number; visible: boolean }> = {};
+
+  for (const boxId of Object.keys(blocks ?? {}).filter(isBlocksID) as blockIDs[]) {
+    const span = blocks![boxId];
+    if (!span) {
+      continue;
+    }
+
+    spans[boxId] = {
+      spanX: resolveResponsiveSpan(span.spanX, breakpoints)[bp],
+      spanY: resolveResponsiveSpan(span.spanY, breakpoints)[bp],
+      visible: resolveResponsiveVisibility(span.visible, breakpoints)[bp],
+    };
+  }
+
+  return spans;
+}
+
+/**
+ * Make a `CSSLayout` that recomputes only what changed since its last run
+ *
+ * Each run resolves the theme (`layoutToTx`) and then looks up every section at every
+ * breakpoint in the cache. The key is a stable hash of the section's spans, its boxes
+ * from the theme and its transformations at that breakpoint; sections whose key did
+ * not change reuse their section-local boxes and diagnostics, the others are
+ * transformed again. Section placement and the later steps run on every call.
+ *
+ * The result equals `CSSLayout` with the same options. Cached boxes are shared between
+ * runs, so hooks must not change the boxes they receive in place.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param options - `CSSLayout` props used by every run
+ * @returns The incremental layout
+ *
+ * @example
+ * ```typescript
+ * const editorLayout = makeIncrementalLayout<SectionIDs, BlocksIDs>({ theme });
+ *
+ * // On every keystroke
+ * const diagnostics: DiagnosticEntry[] = [];
+ * const layoutAbsolute = editorLayout.run(draftLayout, diagnostics);
+ *
+ * editorLayout.stats().lastRun.recomputed;
+ * // [{ section: 'main', bp: 'md' }] after changing a span of main at md
+ * ```
+ */
+export function makeIncrementalLayout<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+>(
+  options: IncrementalLayoutOptions<sectionIDs, blockIDs, Ext, BP> = {}
+): IncrementalLayout<sectionIDs, blockIDs, BP> {
+  const breakpoints = options.breakpoints ?? (BREAKPOINTS as readonly string[] as readonly BP[]);
+  const boxTransformations =
+    options.transformationFactory ?? (DefaultBoxTransformations() as BoxMovesFunctions<NodeID, Ext>);
+  const hookList = listHooks<sectionIDs, blockIDs, Ext, BP>(options.hooks);
+
+  // One entry per section and breakpoint, keyed "section/bp"
+  let cache = new Map<string, SectionCacheEntry<blockIDs, Ext>>();
+  let stats: IncrementalLayoutStats<BP>;
+
+  const clear = () => {
+    cache = new Map();
+    stats = { runs: 0, hits: 0, misses: 0, entries: 0, lastRun: { hits: 0, misses: 0, recomputed: [] } };
+  };
+  clear();
+
+  const run = (
+    layout: Layout<sectionIDs, blockIDs, BP>,
+    diagnostics: DiagnosticEntry[]
+  ): LayoutAbsolute<sectionIDs, blockIDs, BP> => {
+    const hookContext = { diagnostics, breakpoints };
+    const lastRun: IncrementalLayoutStats<BP>["lastRun"] = { hits: 0, misses: 0, recomputed: [] };
+    const nextCache = new Map<string, SectionCacheEntry<blockIDs, Ext>>();
+
+    const layoutWithTx = runPipelineHooks(
+      hookList.map((h) => h.afterLayoutToTx),
+      layoutToTx(layout, diagnostics, options.theme, breakpoints),
+      hookContext
+    );
+
+    // Layout-level transformations and hidden boxes; the sections are resolved below
+    const layoutSectionLocal: LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP> = layoutTxToSectionLocal(
+      { ...layoutWithTx, sections: {} as typeof layoutWithTx.sections },
+      diagnostics,
+      boxTransformations,
+      breakpoints
+    );
+
+    const sectionIds = (Object.keys(layoutWithTx.sections) as sectionIDs[]).filter(
+      (sectionId) => layoutWithTx.sections[sectionId] != null
+    );
+
+    // Boxes of all sections first, then transformations, as layoutTxToSectionLocal does
+    const gridBoxes = {} as Record<sectionIDs, BPSGridBoxes<blockIDs, BP>>;
+    for (const sectionId of sectionIds) {
+      gridBoxes[sectionId] = resolveSectionGridBoxes(layoutWithTx, sectionId, diagnostics, breakpoints);
+    }
+
+    for (const sectionId of sectionIds) {
+      const transformations = resolveSectionTransformations(
+        layoutWithTx,
+        sectionId,
+        gridBoxes[sectionId],
+        diagnostics,
+        breakpoints
+      );
+
+      layoutSectionLocal.sections[sectionId] = {} as BPSGridBoxes<blockIDs, BP>;
+      const crossSection: Partial<BoxTransformations<blockIDs, Ext, BP>> = {};
+
+      for (const bp of breakpoints) {
+        const slot = `${sectionId}/${bp}`;
+        const input = stableStringify({
+          spans: sectionSpansAt(layout[sectionId], bp, breakpoints),
+          boxes: gridBoxes[sectionId][bp],
+          transformations: transformations?.[bp],
+        });
+        const hash = hashString(input);
+
+        let entry = cache.get(slot);
+
+        if (entry && entry.hash === hash && entry.input === input) {
+          lastRun.hits++;
+          diagnostics.push(...entry.diagnostics);
+        } else {
+          lastRun.misses++;
+          lastRun.recomputed.push({ section: sectionId, bp });
+
+          const boxes = { [bp]: gridBoxes[sectionId][bp] } as BPSGridBoxes<blockIDs, BP>;
+          const entryDiagnostics: DiagnosticEntry[] = [];
+          const setAside = transformations?.[bp]
+            ? applySectionTransformations(
+                sectionId,
+                boxes,
+                { [bp]: transformations[bp] } as BoxTransformations<blockIDs, Ext, BP>,
+                boxTransformations,
+                entryDiagnostics,
+                [bp]
+              )
+            : undefined;
+
+          entry = {
+            hash,
+            input,
+            boxes: { ...boxes[bp] },
+            crossSection: setAside?.[bp],
+            diagnostics: entryDiagnostics,
+          };
+          diagnostics.push(...entryDiagnostics);
+        }
+
+        nextCache.set(slot, entry);
+
+        // Later stages get their own map; the boxes are shared between runs
+        layoutSectionLocal.sections[sectionId][bp] = { ...entry.boxes };
+
+        if (entry.crossSection) {
+          crossSection[bp] = entry.crossSection;
+        }
+      }
+
+      // References to other sections are resolved after section placement
+      if (Object.keys(crossSection).length > 0) {
+        layoutSectionLocal.crossSectionTransformations ??= {};
+        layoutSectionLocal.crossSectionTransformations[sectionId] = crossSection;
+      }
+    }
+
+    // Entries of sections no longer in the layout are dropped
+    cache = nextCache;
+    stats = {
+      runs: stats.runs + 1,
+      hits: stats.hits + lastRun.hits,
+      misses: stats.misses + lastRun.misses,
+      entries: cache.size,
+      lastRun,
+    };
+
+    return completeCSSLayout(
+      {
+        kind: "LayoutSectionLocal",
+        layout: runPipelineHooks(hookList.map((h) => h.afterSectionLocal), layoutSectionLocal, hookContext),
+      },
+      { ...options, diagnostics, breakpoints }
+    );
+  };
+
+  return {
+    run,
+    stats: () => ({ ...stats, lastRun: { ...stats.lastRun, recomputed: [...stats.lastRun.recomputed] } }),
+    clear,
+  };
+}
@@ -12,9 +12,15 @@
  * - layoutSectionToBounds: Calculate bounding boxes for sections
  * - layoutSectionBtoAbsolute: Convert to absolute CSS Grid coordinates
  * - transformBoxMove: Core transformation engine
+ * - makeIncrementalLayout: CSSLayout that caches section-local results between runs
  * 
  * Utilities:
  * - checkSectionsOverlap: Overlap detection and validation
+ * - mirrorLayoutAbsolute: Right-to-left mirroring of the final coordinates
+ * - transposeLayoutAbsolute: Row/column transposition of the final coordinates
+ * - compactLayoutAbsolute: Removal of empty rows and columns from the final coordinates
+ * - quantizeLayoutAbsolute/rescaleLayoutAbsolute: GCD quantization and column-count rescaling
+ * - explainBox: Transformations that moved a box, from a `CSSLayout` trace
  * - recordKeys/partialRecordKeys: Type-safe key extraction utilities
  */
 
@@ -24,12 +30,52 @@ export { CSSLayout } from './CSSlayout';
 // Overlap detection and validation utilities
 export { checkSectionsOverlap } from './CSSlayout';
 
+// Stage-tagged input of CSSLayout
+export type { CSSLayoutInput } from './CSSlayout';
+
 // Core transformation pipeline functions
 export { layoutSectionBtoAbsolute } from './layoutSectionBtoAbsolute';
 export { layoutSectionToBounds } from './layoutSectionToBounds';
 export { layoutTxToSectionLocal } from './layoutTxToSectionLocal';
 export { layoutToTx } from './layoutToTx';
 
+// Incremental recomputation with per-section and per-breakpoint caching
+export { makeIncrementalLayout } from './incrementalLayout';
+export type {
+  IncrementalLayout,
+  IncrementalLayoutOptions,
+  IncrementalLayoutStats,
+} from './incrementalLayout';
+
+// Right-to-left mirroring of absolute coordinates
+export { mirrorLayoutAbsolute, mirrorCSSCoordinates } from './mirrorLayoutAbsolute';
+export type { LayoutDirection } from './mirrorLayoutAbsolute';
+
+// Hooks between the pipeline stages
+export { runPipelineHooks } from './pipelineHooks';
+export type { CSSLayoutHooks, PipelineHook, PipelineHookContext } from './pipelineHooks';
+
+// Step-by-step trace for debugging
+export { explainBox } from './layoutTrace';
+export type {
+  LayoutTraceRecord,
+  LayoutTraceStage,
+  StageTraceRecord,
+  TransformationTraceRecord,
+  TransformationTracer,
+} from './layoutTrace';
+
+// Row/column transposition of absolute coordinates
+export { transposeLayoutAbsolute, transposeCSSCoordinates } from './transposeLayoutAbsolute';
+
+// Removal of empty tracks from absolute coordinates
+export { compactLayoutAbsolute } from './compactLayoutAbsolute';
+export type { CompactOptions } from './compactLayoutAbsolute';
+
+// Quantization and column-count rescaling of absolute coordinates
+export { quantizeLayoutAbsolute, rescaleLayoutAbsolute } from './quantizeLayoutAbsolute';
+export type { RescaleOptions, RoundingPolicy } from './quantizeLayoutAbsolute';
+
 // Box transformation engine
 export { transformBoxMove } from './transformBoxMove';
 
@@ -64,6 +110,8 @@ export type {
   TransformationIDs,
   BoxMovesPropsObject,
   BoxMoveToProps,
+  CustomBoxMovesProps,
+  CustomBoxMovesFunctions,
 } from '../boxTransformations';
 
 export type {
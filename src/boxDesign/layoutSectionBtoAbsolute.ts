@@ -10,41 +10,49 @@
  * 1. Converting box positions from local to relative-to-bounding-box coordinates
  * 2. Positioning bounding boxes at (1,1) and applying transformations
  * 3. Converting relative positions back to absolute coordinates
- * 4. Normalizing all coordinates to ensure they are ≥1
+ * 4. Applying transformations that reference boxes of other sections
+ * 5. Normalizing all coordinates to ensure they are ≥1
  */
 
 // Grid box type definitions
 import { GridBox } from '../box/gridBoxTypes';
+import { copyGridBox, makeGridBox } from '../box/gridBoxUtils';
 
 // Layout structure types for absolute positioning and transformations
 import {
   BoxesCoordinates,
   BoxTransformations,
+  BPSGridBoxes,
+  CrossSectionTransformations,
   LayoutAbsolute,
   LayoutSectionBounds,
 } from '../boxLayout/boxLayoutTypes';
 
 // Default transformation configurations
 import { DefaultBoxTransformations } from '../boxTransformations/defaultBoxTransformations';
+import { BoxMovesFunctions, BoxMovesProps, CustomBoxMovesProps } from '../boxTransformations/boxTransformationsProps';
 
 // Responsive breakpoint definitions and types
-import { BPs, BREAKPOINTS } from '../breakpoints';
+import { BPs, Breakpoint, BREAKPOINTS, makeBps } from '../breakpoints';
 
 // Coordinate manipulation utilities
 import { subtractCoordinates, addCoordinates, Coordinate } from '../geometry';
 
 // Error handling and diagnostic utilities
-import { DiagnosticEntry, GRID_ERROR_CODE, makeWarning } from '../gridErrorShape';
+import { DiagnosticEntry, GRID_ERROR_CODE, makeError, makeWarning } from '../gridErrorShape';
 
 // CSS coordinate type definitions
 import { CSSCoordinates } from '../gridNodeTypes';
 
 // Template identifiers for sections and blocks
-import { SectionIDs, BlocksIDs } from '../templates';
+import { SectionIDs, BlocksIDs, NodeID } from '../templates';
 
 // Box transformation utilities
 import { transformBoxMove } from './transformBoxMove';
 
+// Opt-in tracing of every transformation
+import { changedBoxes, LayoutTraceRecord, snapshotBoxes } from './layoutTrace';
+
 /**
  * Extract valid section IDs from a partial record of sections
  * 
@@ -62,6 +70,196 @@ function layoutSectionKeys<sectionIDs extends SectionIDs>(
   ) as Array<sectionIDs>;
 }
 
+/**
+ * Rewrite the references of a transformation that name another section.
+ * Each `{ sectionId, boxId }` reference outside `sectionId` is replaced by
+ * what `resolve` returns for it; other values are copied as they are.
+ *
+ * @param value - Transformation props, or any part of them
+ * @param sectionId - The section the transformation belongs to
+ * @param resolve - Maps a qualified reference to its replacement
+ * @returns A copy of `value` with the qualified references replaced
+ */
+function mapSectionRefs(
+  value: unknown,
+  sectionId: SectionIDs,
+  resolve: (ref: { sectionId: SectionIDs; boxId: NodeID }) => unknown,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapSectionRefs(item, sectionId, resolve));
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const ref = value as { sectionId?: SectionIDs; boxId?: NodeID };
+  if (ref.sectionId !== undefined && ref.boxId !== undefined && ref.sectionId !== sectionId) {
+    return resolve(ref as { sectionId: SectionIDs; boxId: NodeID });
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = mapSectionRefs(item, sectionId, resolve);
+  }
+  return copy;
+}
+
+/**
+ * Copy the box map of every breakpoint, sharing the boxes themselves
+ *
+ * Breakpoints without a map stay without one.
+ *
+ * @param maps - Box maps per breakpoint
+ * @param breakpoints - Breakpoint names to copy
+ * @returns New maps holding the same boxes
+ */
+function copyBoxMaps<K extends string, BP extends string>(
+  maps: Partial<Record<BP, Partial<Record<K, GridBox>>>>,
+  breakpoints: readonly BP[],
+): BPs<Partial<Record<K, GridBox>>, BP> {
+  const copy = {} as BPs<Partial<Record<K, GridBox>>, BP>;
+  for (const bp of breakpoints) {
+    const map = maps[bp];
+    if (map) {
+      copy[bp] = { ...map };
+    }
+  }
+  return copy;
+}
+
+/**
+ * Apply the section transformations that reference boxes of other sections
+ *
+ * Runs once every box has its absolute position. Each transformation sees the
+ * boxes of its own section plus a copy of every box it references, stored under
+ * a `section.box` key, so the registry functions resolve the target as usual.
+ * Only the boxes of the section itself are written back. A section's bounding
+ * box grows to cover boxes moved outside of it.
+ *
+ * Sections are processed in key order, so a reference to a box that is itself
+ * moved by a cross-section transformation sees it moved only if its section
+ * comes first.
+ *
+ * @param layoutSectionBounds - Layout whose boxes are in absolute coordinates, updated in place
+ * @param crossSection - Transformations set aside by `layoutTxToSectionLocal`
+ * @param boxTransformations - Transformation registry
+ * @param diagnostics - Array to collect unresolved references and transformation errors
+ * @param breakpoints - Breakpoint names to process
+ * @param trace - Optional array to record the section after every transformation
+ */
+function applyCrossSectionTransformations<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string,
+>(
+  layoutSectionBounds: LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP>,
+  crossSection: CrossSectionTransformations<sectionIDs, blockIDs, Ext, BP>,
+  boxTransformations: BoxMovesFunctions<NodeID, Ext>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[],
+  trace?: LayoutTraceRecord<BP>[],
+) {
+  for (const sectionId of layoutSectionKeys(crossSection)) {
+    for (const bp of breakpoints) {
+      const txs = crossSection[sectionId]?.[bp];
+      const localBoxes = layoutSectionBounds.sections[sectionId]?.[bp];
+      if (!txs || !localBoxes) {
+        continue;
+      }
+
+      for (const tx of txs) {
+        const boxes: Partial<Record<NodeID, GridBox>> = { ...localBoxes };
+        let resolved = true;
+
+        const rewritten = mapSectionRefs(tx, sectionId, (ref) => {
+          const section = layoutSectionBounds.sections[ref.sectionId as sectionIDs];
+          const target = section?.[bp]?.[ref.boxId as blockIDs];
+
+          if (!target) {
+            resolved = false;
+            diagnostics.push(
+              section
+                ? makeWarning(
+                    'layoutSectionBtoAbsolute',
+                    GRID_ERROR_CODE.MISSING_BOX,
+                    `Box ${ref.boxId} of section ${ref.sectionId} referenced by section ${sectionId} is missing at ${bp}`,
+                    { elementId: sectionId, details: { bp, ref } },
+                  )
+                : makeError(
+                    'layoutSectionBtoAbsolute',
+                    GRID_ERROR_CODE.UNKNOWN_NODE_ID,
+                    `Section ${sectionId} references unknown section ${ref.sectionId}`,
+                    { elementId: sectionId, details: { bp, ref } },
+                  ),
+            );
+            return ref;
+          }
+
+          const alias = `${ref.sectionId}.${ref.boxId}`;
+          boxes[alias as NodeID] = copyGridBox(target);
+
+          const { sectionId: _, ...local } = ref;
+          return { ...local, boxId: alias };
+        });
+
+        if (!resolved) {
+          continue;
+        }
+
+        transformBoxMove<NodeID, Ext, BP>(
+          boxTransformations,
+          { [bp]: [rewritten as BoxMovesProps<NodeID, Ext>] } as BoxTransformations<NodeID, Ext, BP>,
+          { [bp]: boxes } as BPs<Partial<Record<NodeID, GridBox>>, BP>,
+          diagnostics,
+          [bp],
+        );
+
+        const before = trace ? snapshotBoxes(localBoxes) : undefined;
+
+        for (const boxId of Object.keys(localBoxes) as blockIDs[]) {
+          localBoxes[boxId] = boxes[boxId];
+        }
+
+        // Traced as written, with the section's own boxes only
+        if (trace) {
+          const after = snapshotBoxes(localBoxes);
+          trace.push({
+            kind: 'transformation',
+            stage: 'layoutSectionBtoAbsolute',
+            bp,
+            section: sectionId,
+            transformation: tx as BoxMovesProps<NodeID, CustomBoxMovesProps>,
+            changed: changedBoxes(before!, after),
+            boxes: after,
+          });
+        }
+      }
+
+      // Grow the bounding box over boxes moved outside of it
+      const boundBox: GridBox | undefined = layoutSectionBounds.boundingBoxes[bp][sectionId];
+      if (!boundBox) {
+        continue;
+      }
+
+      let min = { ...boundBox.origin };
+      let max = addCoordinates(boundBox.origin, boundBox.diagonal);
+      for (const box of Object.values<GridBox | undefined>(localBoxes)) {
+        if (!box) {
+          continue;
+        }
+        min = { x: Math.min(min.x, box.origin.x), y: Math.min(min.y, box.origin.y) };
+        max = {
+          x: Math.max(max.x, box.origin.x + box.diagonal.x),
+          y: Math.max(max.y, box.origin.y + box.diagonal.y),
+        };
+      }
+      layoutSectionBounds.boundingBoxes[bp][sectionId] = makeGridBox(min, subtractCoordinates(max, min));
+    }
+  }
+}
+
 /**
  * Convert layout sections with bounding boxes to absolute CSS grid coordinates
  * 
@@ -74,45 +272,77 @@ function layoutSectionKeys<sectionIDs extends SectionIDs>(
  * 2. Position all bounding boxes at (1,1) as starting reference point
  * 3. Apply any configured transformations to bounding boxes
  * 4. Convert box coordinates back to absolute positions
- * 5. Calculate grid dimensions and normalize coordinates to positive values
+ * 5. Apply transformations that reference boxes of other sections
+ * 6. Calculate grid dimensions and normalize coordinates to positive values
  * 
  * @template sectionIDs - Type representing the available section identifiers
  * @template blockIDs - Type representing the available block/box identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param layoutSectionBounds - Layout with sections and their calculated bounding boxes
  * @param diagnostics - Array to collect any errors or warnings during processing
+ * @param transformationFactory - Optional transformation registry (defaults to `DefaultBoxTransformations()`)
+ * @param breakpoints - Breakpoint names to process, smallest first (defaults to `BREAKPOINTS`)
+ * @param trace - Optional array to record a snapshot after every layout and cross-section transformation
  * @returns Layout with absolute CSS grid coordinates for all sections and boxes
  */
-export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs>(
-  layoutSectionBounds: LayoutSectionBounds<sectionIDs, blockIDs>,
+export function layoutSectionBtoAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint,
+>(
+  layoutSectionBounds: LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP>,
   diagnostics: DiagnosticEntry[],
-): LayoutAbsolute<sectionIDs, blockIDs> {
+  transformationFactory?: BoxMovesFunctions<NodeID, Ext>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+  trace?: LayoutTraceRecord<BP>[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
   // Initialize the result object that will contain absolute coordinates
-  let LayoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs> = {} as LayoutAbsolute<
+  let LayoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP> = {} as LayoutAbsolute<
     sectionIDs,
-    blockIDs
+    blockIDs,
+    BP
   >;
 
-  // Get default transformation settings (baseline transformations)
-  let defaultBoxTransformations = DefaultBoxTransformations();
+  // Boxes omitted per breakpoint travel along to the renderer
+  if (layoutSectionBounds.hiddenBoxes) {
+    LayoutAbsolute.hiddenBoxes = layoutSectionBounds.hiddenBoxes;
+  }
+
+  // Use the given registry, or fall back to the default box transformations
+  let boxTransformations =
+    transformationFactory ?? (DefaultBoxTransformations() as BoxMovesFunctions<NodeID, Ext>);
 
   // Use custom transformations if provided, otherwise use empty object
-  let transformations: BoxTransformations<sectionIDs> = layoutSectionBounds.transformations
+  let transformations: BoxTransformations<sectionIDs, Ext, BP> = layoutSectionBounds.transformations
     ? layoutSectionBounds.transformations
-    : ({} as BoxTransformations<sectionIDs>);
+    : ({} as BoxTransformations<sectionIDs, Ext, BP>);
 
   // Extract valid section IDs for processing
   const sections = layoutSectionKeys(layoutSectionBounds.sections);
 
+  // Work on copies, so the input is never modified: box maps are copied and boxes
+  // are replaced rather than changed, so unmoved boxes stay shared with the input
+  const localSections = {} as Record<sectionIDs, BPSGridBoxes<blockIDs, BP>>;
+  for (const sectionId of sections) {
+    localSections[sectionId] = copyBoxMaps(layoutSectionBounds.sections[sectionId], breakpoints);
+  }
+  const boundingBoxes = copyBoxMaps(layoutSectionBounds.boundingBoxes, breakpoints) as BPs<
+    Record<sectionIDs, GridBox>,
+    BP
+  >;
+
   // PHASE 1: Transform box origins to be relative to their bounding box origin
   // This converts absolute positions within sections to displacement vectors
   // from the section's bounding box origin
-  BREAKPOINTS.forEach((bp) => {
+  breakpoints.forEach((bp) => {
     for (const sectionId of sections) {
       // Get the bounding box for this section at this breakpoint
-      const boundBox: GridBox = layoutSectionBounds.boundingBoxes[bp][sectionId as sectionIDs];
+      const boundBox: GridBox = boundingBoxes[bp][sectionId as sectionIDs];
 
       // Get all boxes within this section at this breakpoint
-      const localBoxes = layoutSectionBounds.sections[sectionId as sectionIDs][bp];
+      const localBoxes: Partial<Record<blockIDs, GridBox>> = localSections[sectionId as sectionIDs][bp];
       if (!localBoxes) {
         continue;
       }
@@ -127,44 +357,52 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
         // Subtract bounding box origin to get displacement from bounding box origin
         // Example: if box is at (5,3) and bounding box origin is at (2,1),
         // the relative position becomes (3,2)
-        box.origin = subtractCoordinates(box.origin, boundBox.origin);
+        localBoxes[boxId as blockIDs] = makeGridBox(subtractCoordinates(box.origin, boundBox.origin), box.diagonal);
       }
     }
   });
 
   // PHASE 2: Position all bounding boxes at standard reference point (1,1)
   // This creates a common starting point before applying transformations
-  BREAKPOINTS.forEach((bp) => {
+  breakpoints.forEach((bp) => {
     for (const sectionId of sections) {
-      const boundBox: GridBox = layoutSectionBounds.boundingBoxes[bp][sectionId];
+      const boundBox: GridBox | undefined = boundingBoxes[bp][sectionId];
+
+      // Sections hidden at this breakpoint have no bounding box
+      if (!boundBox) {
+        continue;
+      }
 
       // Move the bounding box origin to (1,1) - CSS Grid's minimum valid coordinate
-      boundBox.origin = { x: 1, y: 1 };
+      boundingBoxes[bp][sectionId] = makeGridBox({ x: 1, y: 1 }, boundBox.diagonal);
     }
   });
 
   // PHASE 3: Apply transformations to bounding boxes
   // This positions the bounding boxes according to configured transformations
   // (e.g., stacking, spacing, alignment rules)
-  transformBoxMove<sectionIDs>(
-    defaultBoxTransformations,
+  transformBoxMove<sectionIDs, Ext, BP>(
+    boxTransformations,
     transformations,
-    layoutSectionBounds.boundingBoxes,
+    boundingBoxes,
     diagnostics,
+    breakpoints,
+    trace &&
+      ((record) => trace.push({ kind: 'transformation', stage: 'layoutSectionBtoAbsolute', ...record })),
   );
 
   // PHASE 4: Convert box coordinates back to absolute positions
   // Now that bounding boxes are in their final absolute positions,
   // we can calculate the final absolute positions of all boxes
-  BREAKPOINTS.forEach((bp) => {
-    const localGridBoxesPerBp = layoutSectionBounds.boundingBoxes[bp];
+  breakpoints.forEach((bp) => {
+    const localGridBoxesPerBp = boundingBoxes[bp];
 
     for (const sectionId of sections) {
       // Get the transformed bounding box (now in absolute CSS coordinates)
       const boundBox: GridBox = localGridBoxesPerBp[sectionId];
 
       // Process all boxes within this section
-      const localBoxes = layoutSectionBounds.sections[sectionId][bp];
+      const localBoxes: Partial<Record<blockIDs, GridBox>> = localSections[sectionId][bp];
       if (!localBoxes) {
         continue;
       }
@@ -178,28 +416,44 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
         // Add the bounding box origin to the relative position to get absolute position
         // Example: if box displacement is (3,2) and bounding box origin is at (10,5),
         // the final absolute position becomes (13,7)
-        box.origin = addCoordinates(box.origin, boundBox.origin);
+        localBoxes[boxId as blockIDs] = makeGridBox(addCoordinates(box.origin, boundBox.origin), box.diagonal);
       }
     }
   });
 
+  // PHASE 5: Apply transformations that reference boxes of other sections
+  // All boxes now share the same coordinates, so qualified references resolve
+  if (layoutSectionBounds.crossSectionTransformations) {
+    applyCrossSectionTransformations(
+      { ...layoutSectionBounds, sections: localSections, boundingBoxes },
+      layoutSectionBounds.crossSectionTransformations,
+      boxTransformations,
+      diagnostics,
+      breakpoints,
+      trace,
+    );
+  }
+
   // Initialize grid dimensions structure for storing calculated grid size
   LayoutAbsolute.gridDimensions = {
-    rows: {} as BPs<number>,
-    columns: {} as BPs<number>,
+    rows: {} as BPs<number, BP>,
+    columns: {} as BPs<number, BP>,
   };
 
-  // PHASE 5: Calculate overall grid dimensions for each breakpoint
+  // PHASE 6: Calculate overall grid dimensions for each breakpoint
   // Find the maximum extents of all bounding boxes to determine grid size
-  BREAKPOINTS.forEach((bp) => {
-    const localGridBoxesPerBp = layoutSectionBounds.boundingBoxes[bp];
+  breakpoints.forEach((bp) => {
+    const localGridBoxesPerBp = boundingBoxes[bp];
 
     let maxRow = 0;  // Maximum row coordinate across all sections
     let maxCol = 0;  // Maximum column coordinate across all sections
 
     // Examine each section's bounding box to find overall extents
     for (const sectionId of sections) {
-      const boundBox: GridBox = localGridBoxesPerBp[sectionId as sectionIDs];
+      const boundBox: GridBox | undefined = localGridBoxesPerBp[sectionId as sectionIDs];
+      if (!boundBox) {
+        continue;
+      }
 
       // Calculate the far edges of this bounding box
       const boxMaxRow = boundBox.origin.y + boundBox.diagonal.y;  // Bottom edge
@@ -220,33 +474,28 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
     LayoutAbsolute.gridDimensions.columns[bp] = Math.max(1, maxCol - 1);
   });
 
-  // PHASE 6: Convert all box positions to CSS coordinate format
+  // PHASE 7: Convert all box positions to CSS coordinate format
   // Initialize sections structure to hold CSS coordinates
-  LayoutAbsolute.sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs>>;
+  LayoutAbsolute.sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>;
 
   // Track minimum coordinates across all breakpoints to ensure positivity
   // CSS Grid requires all coordinates to be ≥1
-  let minCoordinate: BPs<Coordinate> = {
-    xs: { x: Infinity, y: Infinity },
-    sm: { x: Infinity, y: Infinity },
-    md: { x: Infinity, y: Infinity },
-    lg: { x: Infinity, y: Infinity },
-    xl: { x: Infinity, y: Infinity },
-  };
+  let minCoordinate: BPs<Coordinate, BP> = makeBps(breakpoints, () => ({ x: Infinity, y: Infinity }));
 
   // Process each section to convert box coordinates to CSS format
   for (const sectionId of sections) {
     // Initialize coordinate structure for this section
-    let crd: BoxesCoordinates<blockIDs> = {} as BoxesCoordinates<blockIDs>;
-    crd.coordinates = {} as BPs<Partial<Record<blockIDs, CSSCoordinates>>>;
+    let crd: BoxesCoordinates<blockIDs, BP> = {} as BoxesCoordinates<blockIDs, BP>;
+    crd.coordinates = {} as BPs<Partial<Record<blockIDs, CSSCoordinates>>, BP>;
+    crd.bounds = {};
 
     // Process each breakpoint
-    BREAKPOINTS.forEach((bp) => {
+    breakpoints.forEach((bp) => {
       crd.coordinates[bp] = {} as Partial<Record<blockIDs, CSSCoordinates>>;
 
       // Get all boxes for this section at this breakpoint
       let boxesatBp: Partial<Record<blockIDs, GridBox>> =
-        layoutSectionBounds.sections[sectionId][bp];
+        localSections[sectionId][bp];
 
       if (!boxesatBp) {
         return;
@@ -272,15 +521,30 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
           minCoordinate[bp].y = coord.gridRowStart;
         }
       }
+
+      // Section bounds: the transformed bounding box, grown to any box that a
+      // cross-section transformation moved out of it. Sections without boxes
+      // at this breakpoint get none.
+      const boundBox: GridBox | undefined = boundingBoxes[bp][sectionId];
+      const bounds = Object.values<CSSCoordinates | undefined>(crd.coordinates[bp]).reduce<
+        CSSCoordinates | undefined
+      >((acc, coord) => (coord ? unionCSSCoordinates(acc, coord) : acc), undefined);
+      if (bounds) {
+        crd.bounds![bp] = boundBox ? unionCSSCoordinates(bounds, getCSSCoordinates(boundBox)) : bounds;
+
+        // Bounds must land on positive lines too
+        minCoordinate[bp].x = Math.min(minCoordinate[bp].x, crd.bounds![bp]!.gridColumnStart);
+        minCoordinate[bp].y = Math.min(minCoordinate[bp].y, crd.bounds![bp]!.gridRowStart);
+      }
     });
 
     // Store the coordinate data for this section
     LayoutAbsolute.sections[sectionId] = crd;
   }
 
-  // PHASE 7: Normalize coordinates to ensure all values are ≥1
+  // PHASE 8: Normalize coordinates to ensure all values are ≥1
   // CSS Grid specification requires positive coordinates starting from 1
-  BREAKPOINTS.forEach((bp) => {
+  breakpoints.forEach((bp) => {
     // Handle empty grid case
     if (minCoordinate[bp].x === Infinity && minCoordinate[bp].y === Infinity) {
       diagnostics.push(
@@ -349,6 +613,15 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
         coordinate.gridRowStart += dy;     // Top edge
         coordinate.gridRowEnd += dy;       // Bottom edge
       }
+
+      // The section rectangle moves with its boxes
+      const bounds = LayoutAbsolute.sections[sectionId].bounds?.[bp];
+      if (bounds) {
+        bounds.gridColumnEnd += dx;
+        bounds.gridColumnStart += dx;
+        bounds.gridRowStart += dy;
+        bounds.gridRowEnd += dy;
+      }
     }
   });
 
@@ -356,6 +629,26 @@ export function layoutSectionBtoAbsolute<sectionIDs extends SectionIDs, blockIDs
   return LayoutAbsolute;
 }
 
+/**
+ * Smallest CSS rectangle that contains both rectangles
+ *
+ * @param a - First rectangle, or undefined to start a union
+ * @param b - Second rectangle
+ * @returns A new rectangle spanning both
+ */
+function unionCSSCoordinates(a: CSSCoordinates | undefined, b: CSSCoordinates): CSSCoordinates {
+  if (!a) {
+    return { ...b };
+  }
+
+  return {
+    gridColumnStart: Math.min(a.gridColumnStart, b.gridColumnStart),
+    gridColumnEnd: Math.max(a.gridColumnEnd, b.gridColumnEnd),
+    gridRowStart: Math.min(a.gridRowStart, b.gridRowStart),
+    gridRowEnd: Math.max(a.gridRowEnd, b.gridRowEnd),
+  };
+}
+
 /**
  * Convert a GridBox to CSS Grid coordinates
  * 
@@ -17,8 +17,11 @@ import {
   LayoutSectionLocal,
 } from "../boxLayout/boxLayoutTypes";
 
-// Responsive breakpoint definitions (xs, sm, md, lg, xl)
-import { BREAKPOINTS } from "../breakpoints";
+// Custom transformation catalogue carried along with the layout
+import { CustomBoxMovesProps } from "../boxTransformations";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS, makeBps } from "../breakpoints";
 
 // Error handling and diagnostic utilities
 import { DiagnosticEntry, GRID_ERROR_CODE, makeError } from "../gridErrorShape";
@@ -52,42 +55,55 @@ function layoutSectionKeys<sectionIDs extends SectionIDs>(
  * 
  * @template sectionIDs - Type representing the available section identifiers
  * @template blockIDs - Type representing the available block/box identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param layoutSectionLocal - Layout with sections containing boxes positioned locally
  * @param diagnostics - Array to collect any errors or warnings during processing
+ * @param breakpoints - Breakpoint names to process, smallest first (defaults to `BREAKPOINTS`)
  * @returns Layout with calculated bounding boxes for each section at each breakpoint
  */
 export function layoutSectionToBounds<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
 >(
-  layoutSectionLocal: LayoutSectionLocal<sectionIDs, blockIDs>,
-  diagnostics: DiagnosticEntry[]
-): LayoutSectionBounds<sectionIDs, blockIDs> {
+  layoutSectionLocal: LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[]
+): LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP> {
   // Initialize the result object that will contain bounding boxes for each section
-  let layoutSectionBounds: LayoutSectionBounds<sectionIDs, blockIDs> =
-    {} as LayoutSectionBounds<sectionIDs, blockIDs>;
+  let layoutSectionBounds: LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP> =
+    {} as LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP>;
 
   // Copy the original sections data (contains the actual box configurations)
   layoutSectionBounds.sections = layoutSectionLocal.sections;
 
   // Initialize bounding boxes structure for all responsive breakpoints
   // Each breakpoint will have a record of section ID -> bounding box
-  layoutSectionBounds.boundingBoxes = {
-    xs: {} as Record<sectionIDs, GridBox>,
-    sm: {} as Record<sectionIDs, GridBox>,
-    md: {} as Record<sectionIDs, GridBox>,
-    lg: {} as Record<sectionIDs, GridBox>,
-    xl: {} as Record<sectionIDs, GridBox>,
-  };
+  layoutSectionBounds.boundingBoxes = makeBps(
+    breakpoints,
+    () => ({} as Record<sectionIDs, GridBox>)
+  );
 
   // Copy transformation settings from the original layout
   layoutSectionBounds.transformations = layoutSectionLocal.transformations;
 
+  // Boxes omitted per breakpoint travel along to the renderer
+  if (layoutSectionLocal.hiddenBoxes) {
+    layoutSectionBounds.hiddenBoxes = layoutSectionLocal.hiddenBoxes;
+  }
+
+  // Cross-section transformations wait for the sections to be placed
+  if (layoutSectionLocal.crossSectionTransformations) {
+    layoutSectionBounds.crossSectionTransformations = layoutSectionLocal.crossSectionTransformations;
+  }
+
   // Extract valid section IDs (filters out null/undefined sections)
   const sectionIds = layoutSectionKeys(layoutSectionLocal.sections);
 
-  // Process each responsive breakpoint (xs, sm, md, lg, xl)
-  BREAKPOINTS.forEach((bp) => {
+  // Process each responsive breakpoint (xs, sm, md, lg, xl by default)
+  breakpoints.forEach((bp) => {
     // Calculate bounding box for each section at this breakpoint
     for (const sectionId of sectionIds) {
       let boundPerSection: GridBox;
@@ -100,7 +116,7 @@ export function layoutSectionToBounds<
       let maxY = -Infinity; // Bottommost edge
 
       // Get all grid boxes for this section
-      let gridBoxes: BPSGridBoxes<blockIDs> =
+      let gridBoxes: BPSGridBoxes<blockIDs, BP> =
         layoutSectionLocal.sections[sectionId];
 
       // Get boxes specific to current breakpoint
@@ -128,6 +144,17 @@ export function layoutSectionToBounds<
         foundAnyBox = true;
       }
 
+      // A section whose boxes are all hidden at this breakpoint gets no bounding
+      // box, so it takes no part in the layout-level transformations either
+      const hiddenInSection = layoutSectionLocal.hiddenBoxes?.[sectionId];
+      if (
+        !foundAnyBox &&
+        hiddenInSection &&
+        Object.values<BP[] | undefined>(hiddenInSection).some((bps) => bps?.includes(bp))
+      ) {
+        continue;
+      }
+
       // Handle case where no boxes were found in this section at this breakpoint
       if (!foundAnyBox) {
         // Log diagnostic error for missing boxes
@@ -11,16 +11,24 @@ import { GridBox } from '../box/gridBoxTypes';
 import {
  
   BPSGridBoxes,
+  PartialBoxTransformations,
   GridBoxesAndTx,
+  HiddenBoxes,
   Layout,
   LayoutWithTx,
+  ResolvedBoxSpan,
+  ResponsiveSpan,
+  ResponsiveVisibility,
+  TransformationMergePolicy,
+  TransformationOverride,
  
 } from '../boxLayout/boxLayoutTypes';
-import { BREAKPOINTS } from '../breakpoints';
+import { BoxMovesProps, CustomBoxMovesProps } from '../boxTransformations';
+import { BPs, Breakpoint, BREAKPOINTS, cascadeBps, makeBps, NoInferBP, PartialBps } from '../breakpoints';
 import { DiagnosticEntry, GRID_ERROR_CODE, makeError } from '../gridErrorShape';
 import { getDefaultTheme } from '../layoutTheme/defaultLayoutTheme';
 import { ThemeForLayout } from '../layoutTheme/layoutThemeTypes';
-import { BlocksIDs , SectionIDs} from '../templates';
+import { BlocksIDs, NodeID, SectionIDs } from '../templates';
 
  
 
@@ -31,6 +39,7 @@ import { BlocksIDs , SectionIDs} from '../templates';
  * 
  * Key behaviors:
  * - Filters by VALUE existence, not just key presence
+ * - Skips the layout's own `transformations`, which is not a section
  * - Runtime-safe boundary checking prevents null reference errors
  * - Type-safe return maintains compile-time guarantees
  * - Handles dynamic layout structures where sections may be conditionally defined
@@ -51,8 +60,14 @@ import { BlocksIDs , SectionIDs} from '../templates';
  * // Returns: ['header', 'footer'] (main is excluded)
  * ```
  */
-export function layoutSectionKeysPresent<sectionIDS extends SectionIDs, blockIDS extends BlocksIDs>(layout: Layout<sectionIDS, blockIDS>): Array<sectionIDS> {
-  return Object.keys(layout).filter((k) => (layout as any)[k] != null) as Array<sectionIDS>;
+export function layoutSectionKeysPresent<
+  sectionIDS extends SectionIDs,
+  blockIDS extends BlocksIDs,
+  BP extends string = Breakpoint,
+>(layout: Layout<sectionIDS, blockIDS, BP>): Array<sectionIDS> {
+  return Object.keys(layout).filter(
+    (k) => k !== 'transformations' && (layout as any)[k] != null,
+  ) as Array<sectionIDS>;
 }
 
 /**
@@ -117,8 +132,12 @@ export function isBlocksID(k: string): k is BlocksIDs {
  * // Returns: ['block_3']
  * ```
  */
-export function layoutBlockKeysPresent<sectionIDS extends SectionIDs, blockIDS extends BlocksIDs>(
-  layout: Layout<sectionIDS, blockIDS>,
+export function layoutBlockKeysPresent<
+  sectionIDS extends SectionIDs,
+  blockIDS extends BlocksIDs,
+  BP extends string = Breakpoint,
+>(
+  layout: Layout<sectionIDS, blockIDS, BP>,
   section: sectionIDS,
 ): Array<blockIDS> {
   const blocks = layout[section];
@@ -127,6 +146,161 @@ export function layoutBlockKeysPresent<sectionIDS extends SectionIDs, blockIDS e
   return Object.keys(blocks).filter(isBlocksID) as Array<blockIDS>;
 }
 
+/**
+ * Resolves a responsive span into one span per breakpoint.
+ * A plain number applies to every breakpoint; a breakpoint map cascades
+ * mobile-first, so each missing breakpoint inherits the nearest smaller one.
+ *
+ * Breakpoints below the smallest one set in the map stay unresolved. This can
+ * only happen with custom breakpoint sets, where no breakpoint is required.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param span - Span as written in the layout
+ * @param breakpoints - Breakpoint names, smallest first (defaults to `BREAKPOINTS`)
+ * @returns Span per breakpoint
+ *
+ * @example
+ * ```typescript
+ * resolveResponsiveSpan(4);
+ * // { xs: 4, sm: 4, md: 4, lg: 4, xl: 4 }
+ *
+ * resolveResponsiveSpan({ xs: 4, md: 6, lg: 3 });
+ * // { xs: 4, sm: 4, md: 6, lg: 3, xl: 3 }
+ * ```
+ */
+export function resolveResponsiveSpan<BP extends string = Breakpoint>(
+  span: ResponsiveSpan<BP>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): Partial<BPs<number, BP>> {
+  if (typeof span === 'number') {
+    return makeBps(breakpoints, () => span);
+  }
+
+  return cascadeBps<number, BP>(span, undefined, breakpoints);
+}
+
+/**
+ * Resolves the `visible` flag of a box span into one flag per breakpoint.
+ * Like spans, a breakpoint map cascades mobile-first; boxes are visible
+ * wherever nothing is said.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param visible - Visibility as written in the layout (defaults to visible everywhere)
+ * @param breakpoints - Breakpoint names, smallest first (defaults to `BREAKPOINTS`)
+ * @returns Visibility per breakpoint
+ *
+ * @example
+ * ```typescript
+ * resolveResponsiveVisibility({ xs: false, md: true });
+ * // { xs: false, sm: false, md: true, lg: true, xl: true }
+ * ```
+ */
+export function resolveResponsiveVisibility<BP extends string = Breakpoint>(
+  visible: ResponsiveVisibility<BP> = true,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): BPs<boolean, BP> {
+  if (typeof visible === 'boolean') {
+    return makeBps(breakpoints, () => visible);
+  }
+
+  const resolved = cascadeBps<boolean, BP>(visible, undefined, breakpoints);
+  return makeBps(breakpoints, (bp) => resolved[bp] ?? true);
+}
+
+/**
+ * Merges transformations given in a layout with the theme's defaults.
+ * Both are resolved mobile-first; at each breakpoint where the layout has a list,
+ * it replaces, precedes or follows the theme's list according to the merge policy
+ * (`"append"` by default). Breakpoints below the layout's first list keep the
+ * theme's transformations.
+ *
+ * The result only sets the breakpoints where the theme, the layout's lists or the
+ * policies set something, so the other breakpoints still inherit mobile-first.
+ *
+ * @template IDs - Identifiers the transformations move
+ * @template Ext - Custom transformations the theme may emit next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param defaults - The theme's transformations
+ * @param override - The layout's transformations and merge policy, if any
+ * @param breakpoints - Breakpoint names, smallest first (defaults to `BREAKPOINTS`)
+ * @returns The merged transformations, or `defaults` itself without an override
+ *
+ * @example
+ * ```typescript
+ * mergeTransformations(
+ *   { xs: [{ stackVertically: {} }], md: [{ stackHorizontally: {} }] },
+ *   { at: { sm: [{ moveBy: { from: { boxId: 'block_2' }, by: { x: 1, y: 0 } } }] }, merge: 'prepend' },
+ * );
+ * // xs: stackVertically
+ * // sm: moveBy, stackVertically
+ * // md: moveBy, stackHorizontally (lg and xl inherit md)
+ * ```
+ */
+export function mergeTransformations<
+  IDs extends NodeID,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint,
+>(
+  defaults: PartialBoxTransformations<IDs, Ext, BP>,
+  override: TransformationOverride<IDs, BP> | undefined,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): PartialBoxTransformations<IDs, Ext, BP> {
+  if (!override) {
+    return defaults;
+  }
+
+  const policies = override.merge ?? 'append';
+  const themeLists = cascadeBps<Array<BoxMovesProps<IDs, Ext>>, BP>(defaults, undefined, breakpoints);
+  const layoutLists = cascadeBps<Array<BoxMovesProps<IDs, Ext>>, BP>(
+    override.at as PartialBps<Array<BoxMovesProps<IDs, Ext>>, BP>,
+    undefined,
+    breakpoints,
+  );
+  const policyAt =
+    typeof policies === 'string'
+      ? undefined
+      : cascadeBps<TransformationMergePolicy, BP>(
+          policies as PartialBps<TransformationMergePolicy, BP>,
+          undefined,
+          breakpoints,
+        );
+
+  const merged: Partial<BPs<Array<BoxMovesProps<IDs, Ext>>, BP>> = {};
+
+  for (const bp of breakpoints) {
+    const setHere =
+      (defaults as Partial<BPs<unknown, BP>>)[bp] !== undefined ||
+      override.at[bp] !== undefined ||
+      (policyAt !== undefined && (policies as Partial<BPs<unknown, BP>>)[bp] !== undefined);
+
+    // Nothing changes here, so the merged list of the smaller breakpoint is inherited
+    if (!setHere) {
+      continue;
+    }
+
+    const fromTheme = themeLists[bp];
+    const fromLayout = layoutLists[bp];
+
+    if (!fromLayout) {
+      if (fromTheme) {
+        merged[bp] = fromTheme;
+      }
+      continue;
+    }
+
+    const policy = (typeof policies === 'string' ? policies : policyAt?.[bp]) ?? 'append';
+
+    merged[bp] =
+      policy === 'replace'
+        ? [...fromLayout]
+        : policy === 'prepend'
+          ? [...fromLayout, ...(fromTheme ?? [])]
+          : [...(fromTheme ?? []), ...fromLayout];
+  }
+
+  return merged as PartialBoxTransformations<IDs, Ext, BP>;
+}
+
 /**
  * Converts an abstract layout definition into a concrete layout with transformations and grid boxes.
  * This is the main transformation function that processes layout specifications and generates
@@ -136,27 +310,33 @@ export function layoutBlockKeysPresent<sectionIDS extends SectionIDs, blockIDS e
  * 1. Applies default theme if none provided
  * 2. Extracts present sections from the layout
  * 3. For each section, extracts present blocks
- * 4. For each block at each breakpoint, resolves box spans to concrete GridBox coordinates
- * 5. Applies section and layout-level transformations
+ * 4. For each block, resolves responsive spans per breakpoint (see `resolveResponsiveSpan`)
+ *    and hands them to the theme to get concrete GridBox coordinates. Blocks that are
+ *    not visible at a breakpoint get no GridBox there and are listed in `hiddenBoxes`
+ * 5. Applies section and layout-level transformations from the theme, merged with
+ *    the transformations the layout gives itself (see `mergeTransformations`)
  * 6. Collects diagnostic information for any issues encountered
  * 
  * Error handling:
  * - Missing sections are logged and skipped
- * - Missing box spans are logged and skipped
+ * - Missing box spans, or spans left unresolved at a breakpoint, are logged and skipped
  * - Diagnostic entries provide detailed error information for debugging
  * - Process continues despite individual failures to maximize valid output
  * 
  * @template L - The layout type being processed
+ * @template Ext - Custom transformations the theme may emit next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param layout - The abstract layout definition to convert
  * @param diagnostic - Array to collect diagnostic information and errors
  * @param theme - Optional theme for customizing the conversion process (uses default if not provided)
+ * @param breakpoints - Breakpoint names to resolve, smallest first (defaults to `BREAKPOINTS`)
  * @returns Complete layout with transformations and positioned grid boxes for all breakpoints
  * 
  * @example
  * ```typescript
  * const layout = {
  *   header: { block_1: { spanX: 4, spanY: 1 }, block_2: { spanX: 2, spanY: 1 } },
- *   main: { block_3: { spanX: 6, spanY: 4 } }
+ *   main: { block_3: { spanX: { xs: 4, md: 6, lg: 3 }, spanY: 4 } }
  * };
  * 
  * const diagnostics: DiagnosticEntry[] = [];
@@ -173,20 +353,33 @@ export function layoutBlockKeysPresent<sectionIDS extends SectionIDs, blockIDS e
  * }
  * ```
  */
-export function layoutToTx<sectionIDS extends SectionIDs, blockIDS extends BlocksIDs>(
-  layout: Layout<sectionIDS, blockIDS>,
+export function layoutToTx<
+  sectionIDS extends SectionIDs,
+  blockIDS extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint,
+>(
+  layout: Layout<sectionIDS, blockIDS, NoInferBP<BP>>,
   diagnostic: DiagnosticEntry[],
-  theme?: ThemeForLayout<sectionIDS, blockIDS>,
-): LayoutWithTx<sectionIDS, blockIDS> {
+  theme?: ThemeForLayout<sectionIDS, blockIDS, Ext, BP>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutWithTx<sectionIDS, blockIDS, Ext, BP> {
   //
   if (!theme) {
-    theme = getDefaultTheme(layout);
+    // The default theme only emits built-in transformations
+    theme = getDefaultTheme<sectionIDS, blockIDS, readonly BP[]>(layout as Layout<sectionIDS, blockIDS, BP>, breakpoints);
   }
 
-  let layoutWithTx = {} as LayoutWithTx<sectionIDS, blockIDS>;
+  let layoutWithTx = {} as LayoutWithTx<sectionIDS, blockIDS, Ext, BP>;
+
+  layoutWithTx.sections = {} as Record<sectionIDS, GridBoxesAndTx<blockIDS, Ext, BP>>;
+  layoutWithTx.transformations = mergeTransformations(
+    theme.layoutTransforms(layout),
+    layout.transformations,
+    breakpoints,
+  );
 
-  layoutWithTx.sections = {} as Record<sectionIDS, GridBoxesAndTx<blockIDS>>;
-  layoutWithTx.transformations = theme.layoutTransforms(layout);
+  const hiddenBoxes: HiddenBoxes<sectionIDS, blockIDS, BP> = {};
 
   const sectionsIDS = layoutSectionKeysPresent(layout);
 
@@ -206,17 +399,45 @@ export function layoutToTx<sectionIDS extends SectionIDs, blockIDS extends Block
       continue;
     }
 
-    layoutWithTx.sections[sectionID] = {} as GridBoxesAndTx<blockIDS>;
+    layoutWithTx.sections[sectionID] = {} as GridBoxesAndTx<blockIDS, Ext, BP>;
 
-    layoutWithTx.sections[sectionID].gridBoxes = {} as BPSGridBoxes<blockIDS>;
-    layoutWithTx.sections[sectionID].transformations = theme.sectionBoxTransforms(
-      sectionID,
-      layout,
+    const gridBoxes = {} as BPSGridBoxes<blockIDS, BP>;
+    layoutWithTx.sections[sectionID].gridBoxes = gridBoxes;
+    layoutWithTx.sections[sectionID].transformations = mergeTransformations(
+      theme.sectionBoxTransforms<sectionIDS, blockIDS>(sectionID, layout),
+      section.transformations,
+      breakpoints,
     );
 
-    BREAKPOINTS.forEach((bp) => {
+    // Responsive spans are resolved once per box, before the theme sees them
+    const resolvedSpans = {} as Partial<Record<blockIDS, Partial<BPs<number, BP>>[]>>;
+    const hiddenInSection: Partial<Record<blockIDS, BP[]>> = {};
+
+    for (const boxID of layoutBlockKeysPresent(layout, sectionID)) {
+      const boxSpan = section[boxID];
+
+      if (boxSpan) {
+        resolvedSpans[boxID] = [
+          resolveResponsiveSpan(boxSpan.spanX, breakpoints),
+          resolveResponsiveSpan(boxSpan.spanY, breakpoints),
+        ];
+
+        const visible = resolveResponsiveVisibility(boxSpan.visible, breakpoints);
+        const hiddenAt = breakpoints.filter((bp) => !visible[bp]);
+
+        if (hiddenAt.length > 0) {
+          hiddenInSection[boxID] = hiddenAt;
+        }
+      }
+    }
+
+    if (Object.keys(hiddenInSection).length > 0) {
+      hiddenBoxes[sectionID] = hiddenInSection;
+    }
+
+    breakpoints.forEach((bp) => {
       //
-      layoutWithTx.sections[sectionID].gridBoxes[bp] = {} as Partial<Record<blockIDS, GridBox>>;
+      gridBoxes[bp] = {} as Partial<Record<blockIDS, GridBox>>;
 
       for (const boxID of layoutBlockKeysPresent(layout, sectionID)) {
         const boxSpan = section[boxID];
@@ -232,17 +453,41 @@ export function layoutToTx<sectionIDS extends SectionIDs, blockIDS extends Block
           continue;
         }
 
-        layoutWithTx.sections[sectionID].gridBoxes[bp][boxID] = theme.resolveBoxSpan(
+        // Omitted at this breakpoint: no GridBox, so later stages never see it
+        if (hiddenInSection[boxID]?.includes(bp)) {
+          continue;
+        }
+
+        const [spansX, spansY] = resolvedSpans[boxID]!;
+        const span: Partial<ResolvedBoxSpan> = { spanX: spansX[bp], spanY: spansY[bp] };
+
+        if (span.spanX === undefined || span.spanY === undefined) {
+          diagnostic.push(
+            makeError(
+              'layoutToTx',
+              GRID_ERROR_CODE.BOX_SPAN_MISSING,
+              `Box ${boxID} in section ${sectionID} has no span at breakpoint ${bp}. Skipping layoutToTx for this box.`,
+              { elementId: boxID, details: { bp, span: boxSpan } },
+            ),
+          );
+          continue;
+        }
+
+        gridBoxes[bp][boxID] = theme.resolveBoxSpan(
           sectionID,
           boxID,
           layout,
-          boxSpan,
+          span as ResolvedBoxSpan,
           bp,
         );
       }
     });
   }
 
+  if (Object.keys(hiddenBoxes).length > 0) {
+    layoutWithTx.hiddenBoxes = hiddenBoxes;
+  }
+
   return layoutWithTx;
 }
 
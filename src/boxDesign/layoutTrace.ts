@@ -0,0 +1,239 @@
+/**
+ * Layout Trace
+ *
+ * This module defines the opt-in trace of the `CSSLayout` pipeline. With tracing on,
+ * the pipeline records a snapshot of every box after each transformation and after
+ * each stage, per breakpoint and section. Records of transformations carry the
+ * transformation props and the boxes they changed, so tests and tools can find out
+ * why a box ended up where it is.
+ */
+
+// Grid box type definitions
+import { GridBox } from "../box/gridBoxTypes";
+import { copyGridBox } from "../box/gridBoxUtils";
+
+// Transformation configuration types
+import { BoxMovesProps, CustomBoxMovesProps } from "../boxTransformations";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint } from "../breakpoints";
+
+// CSS Grid coordinate type definitions
+import { CSSCoordinates } from "../gridNodeTypes";
+
+// Template identifiers for sections and blocks
+import { NodeID, SectionIDs } from "../templates";
+
+/**
+ * Pipeline stages that produce trace records.
+ */
+export type LayoutTraceStage =
+  | "layoutToTx"
+  | "layoutTxToSectionLocal"
+  | "layoutSectionToBounds"
+  | "layoutSectionBtoAbsolute"
+  | "compactLayoutAbsolute"
+  | "quantizeLayoutAbsolute"
+  | "transposeLayoutAbsolute"
+  | "rescaleLayoutAbsolute"
+  | "mirrorLayoutAbsolute";
+
+/**
+ * Snapshot taken after a single transformation.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property kind - Always "transformation"
+ * @property stage - Stage that ran the transformation
+ * @property bp - Breakpoint the transformation ran at
+ * @property section - Section whose boxes were transformed; absent for layout
+ *   transformations, whose boxes are the section bounding boxes
+ * @property transformation - The transformation as written in the layout or theme
+ * @property changed - Boxes whose position or span changed, in key order
+ * @property boxes - Every box after the transformation
+ */
+export type TransformationTraceRecord<BP extends string = Breakpoint> = {
+  kind: "transformation";
+  stage: LayoutTraceStage;
+  bp: BP;
+  section?: SectionIDs;
+  transformation: BoxMovesProps<NodeID, CustomBoxMovesProps>;
+  changed: NodeID[];
+  boxes: Partial<Record<NodeID, GridBox>>;
+};
+
+/**
+ * Snapshot taken after a pipeline stage, as passed on to the next stage.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property kind - Always "stage"
+ * @property stage - The stage that just finished
+ * @property bp - Breakpoint of the snapshot
+ * @property section - Section of the boxes; absent for the section bounding boxes
+ * @property boxes - Every box after the stage (grid box stages)
+ * @property coordinates - Every box's CSS coordinates (the absolute stage and the
+ *   stages after it)
+ */
+export type StageTraceRecord<BP extends string = Breakpoint> = {
+  kind: "stage";
+  stage: LayoutTraceStage;
+  bp: BP;
+  section?: SectionIDs;
+  boxes?: Partial<Record<NodeID, GridBox>>;
+  coordinates?: Partial<Record<NodeID, CSSCoordinates>>;
+};
+
+/**
+ * One entry of a layout trace.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type LayoutTraceRecord<BP extends string = Breakpoint> =
+  | TransformationTraceRecord<BP>
+  | StageTraceRecord<BP>;
+
+/**
+ * Receives every transformation run by `transformBoxMove`, with the boxes it changed.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type TransformationTracer<BP extends string = Breakpoint> = (record: {
+  bp: BP;
+  transformation: BoxMovesProps<NodeID, CustomBoxMovesProps>;
+  changed: NodeID[];
+  boxes: Partial<Record<NodeID, GridBox>>;
+}) => void;
+
+/**
+ * Copy every box of a map, so that later transformations do not change the snapshot.
+ *
+ * @param boxes - The boxes to copy
+ * @returns A new map with copied boxes
+ */
+export function snapshotBoxes(
+  boxes: Partial<Record<NodeID, GridBox>> | undefined
+): Partial<Record<NodeID, GridBox>> {
+  const snapshot: Partial<Record<NodeID, GridBox>> = {};
+
+  for (const boxId of Object.keys(boxes ?? {}) as NodeID[]) {
+    const box = boxes![boxId];
+    if (box) {
+      snapshot[boxId] = copyGridBox(box);
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * List the boxes that differ between two snapshots: moved, resized, added or removed.
+ *
+ * @param before - Snapshot before the step
+ * @param after - Boxes after the step
+ * @returns IDs of the changed boxes, in key order
+ */
+export function changedBoxes(
+  before: Partial<Record<NodeID, GridBox>>,
+  after: Partial<Record<NodeID, GridBox>>
+): NodeID[] {
+  const ids = [...new Set([...Object.keys(before), ...Object.keys(after)])] as NodeID[];
+
+  return ids.filter((id) => {
+    const a = before[id];
+    const b = after[id];
+    return (
+      !a || !b ||
+      a.origin.x !== b.origin.x || a.origin.y !== b.origin.y ||
+      a.diagonal.x !== b.diagonal.x || a.diagonal.y !== b.diagonal.y
+    );
+  });
+}
+
+/**
+ * Find the transformations that moved or resized a box.
+ *
+ * A box also moves with its section, so layout transformations that changed the
+ * section bounding box are included. Records come in the order they were taken.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param trace - The trace filled by `CSSLayout`
+ * @param bp - Breakpoint to look at
+ * @param section - Section of the box
+ * @param boxId - The box
+ * @returns The transformation records that changed the box or its section
+ *
+ * @example
+ * ```typescript
+ * const trace: LayoutTraceRecord[] = [];
+ * CSSLayout({ layout, diagnostics, trace });
+ *
+ * // Why is block_3 at column 5?
+ * explainBox(trace, 'md', 'main', 'block_3').map((r) => r.transformation);
+ * ```
+ */
+export function explainBox<BP extends string = Breakpoint>(
+  trace: readonly LayoutTraceRecord<BP>[],
+  bp: BP,
+  section: SectionIDs,
+  boxId: NodeID
+): TransformationTraceRecord<BP>[] {
+  return trace.filter(
+    (record): record is TransformationTraceRecord<BP> =>
+      record.kind === "transformation" &&
+      record.bp === bp &&
+      (record.section === section
+        ? record.changed.includes(boxId)
+        : record.section === undefined && record.changed.includes(section))
+  );
+}
+
+/**
+ * Record a stage snapshot of grid boxes, per breakpoint and section.
+ * Breakpoints without boxes for a section are skipped.
+ *
+ * @template BP - Breakpoint names
+ * @param trace - Array to add the records to
+ * @param stage - The stage that just finished
+ * @param sections - Boxes per section and breakpoint
+ * @param breakpoints - Breakpoint names, smallest first
+ */
+export function traceStageBoxes<BP extends string>(
+  trace: LayoutTraceRecord<BP>[],
+  stage: LayoutTraceStage,
+  sections: Partial<Record<SectionIDs, Partial<Record<BP, Partial<Record<NodeID, GridBox>>>>>>,
+  breakpoints: readonly BP[]
+) {
+  for (const bp of breakpoints) {
+    for (const section of Object.keys(sections) as SectionIDs[]) {
+      const boxes = sections[section]?.[bp];
+      if (boxes) {
+        trace.push({ kind: "stage", stage, bp, section, boxes: snapshotBoxes(boxes) });
+      }
+    }
+  }
+}
+
+/**
+ * Record a stage snapshot of CSS coordinates, per breakpoint and section.
+ * Breakpoints without coordinates for a section are skipped.
+ *
+ * @template BP - Breakpoint names
+ * @param trace - Array to add the records to
+ * @param stage - The stage that just finished
+ * @param sections - Coordinates per section and breakpoint, as in `LayoutAbsolute`
+ * @param breakpoints - Breakpoint names, smallest first
+ */
+export function traceStageCoordinates<BP extends string>(
+  trace: LayoutTraceRecord<BP>[],
+  stage: LayoutTraceStage,
+  sections: Partial<Record<SectionIDs, { coordinates: Partial<Record<BP, Partial<Record<NodeID, CSSCoordinates>>>> }>>,
+  breakpoints: readonly BP[]
+) {
+  for (const bp of breakpoints) {
+    for (const section of Object.keys(sections) as SectionIDs[]) {
+      const coordinates = sections[section]?.coordinates[bp];
+      if (coordinates) {
+        trace.push({ kind: "stage", stage, bp, section, coordinates: { ...coordinates } });
+      }
+    }
+  }
+}
@@ -6,11 +6,13 @@
  */
 
 import { GridBox } from "../box/gridBoxTypes";
+import { copyGridBox } from "../box/gridBoxUtils";
 import { LayoutWithTx, LayoutSectionLocal, BPSGridBoxes, BoxTransformations } from "../boxLayout";
-import { DefaultBoxTransformations } from "../boxTransformations";
-import { BREAKPOINTS, BPs } from "../breakpoints";
-import { DiagnosticEntry } from "../gridErrorShape";
-import { SectionIDs, BlocksIDs } from "../templates";
+import { BoxMovesFunctions, BoxMovesProps, CustomBoxMovesProps, DefaultBoxTransformations } from "../boxTransformations";
+import { BPs, Breakpoint, BREAKPOINTS, cascadeBps } from "../breakpoints";
+import { DiagnosticEntry, GRID_ERROR_CODE, makeError, makeInfo } from "../gridErrorShape";
+import { SectionIDs, BlocksIDs, NodeID } from "../templates";
+import { LayoutTraceRecord } from "./layoutTrace";
 import { transformBoxMove } from "./transformBoxMove";
 
 /**
@@ -39,17 +41,302 @@ function layoutTxSectionKeys<sectionIDs extends SectionIDs>(
   ) as Array<sectionIDs>;
 }
 
+/**
+ * Reports a breakpoint that inherited its value from a smaller breakpoint.
+ * The resolved value is attached to the diagnostic details.
+ * 
+ * @param diagnostics - Array receiving the info diagnostic
+ * @param what - Human readable name of the inherited record
+ * @param bp - The breakpoint that was missing
+ * @param from - The breakpoint the value was inherited from
+ * @param value - The resolved value at `bp`
+ * @param elementId - Section the record belongs to, if any
+ */
+function reportInherited(
+  diagnostics: DiagnosticEntry[],
+  what: string,
+  bp: string,
+  from: string,
+  value: unknown,
+  elementId?: SectionIDs,
+) {
+  diagnostics.push(
+    makeInfo(
+      'layoutTxToSectionLocal',
+      GRID_ERROR_CODE.BREAKPOINT_INHERITED,
+      `${what} at ${bp} inherited from ${from}`,
+      elementId
+        ? { elementId, details: { bp, inheritedFrom: from, value } }
+        : { details: { bp, inheritedFrom: from, value } },
+    ),
+  );
+}
+
+/**
+ * Tells whether transformation props name a box of a section other than `sectionId`.
+ * Looks through nested objects and arrays for a `{ sectionId, boxId }` reference.
+ * 
+ * @param value - Transformation props, or any part of them
+ * @param sectionId - The section the transformation belongs to
+ * @returns True if some reference is qualified with another section
+ */
+function referencesOtherSection(value: unknown, sectionId: SectionIDs): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => referencesOtherSection(item, sectionId));
+  }
+
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+
+  const ref = value as { sectionId?: unknown; boxId?: unknown };
+  if (ref.sectionId !== undefined && ref.boxId !== undefined && ref.sectionId !== sectionId) {
+    return true;
+  }
+
+  return Object.values(value).some((item) => referencesOtherSection(item, sectionId));
+}
+
+/**
+ * Moves the transformations of a section that reference other sections out of
+ * `transformations`. They cannot be resolved while each section has its own
+ * coordinates; `layoutSectionBtoAbsolute` applies them after section placement.
+ * A transformation that would move a box of another section (`from`) is dropped.
+ * 
+ * @param sectionId - The section the transformations belong to
+ * @param transformations - Resolved transformations of the section, updated in place
+ * @param diagnostics - Array receiving errors for dropped transformations
+ * @param breakpoints - Breakpoint names to split
+ * @returns The set aside transformations per breakpoint, or undefined if there are none
+ */
+function splitCrossSection<blockIDs extends BlocksIDs, Ext extends CustomBoxMovesProps, BP extends string>(
+  sectionId: SectionIDs,
+  transformations: BoxTransformations<blockIDs, Ext, BP>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[],
+): Partial<BoxTransformations<blockIDs, Ext, BP>> | undefined {
+  let crossSection: Partial<BoxTransformations<blockIDs, Ext, BP>> | undefined;
+
+  for (const bp of breakpoints) {
+    const txs = transformations[bp];
+    if (!txs || !txs.some((tx) => referencesOtherSection(tx, sectionId))) {
+      continue;
+    }
+
+    const local: Array<BoxMovesProps<blockIDs, Ext>> = [];
+    const deferred: Array<BoxMovesProps<blockIDs, Ext>> = [];
+
+    for (const tx of txs) {
+      if (!referencesOtherSection(tx, sectionId)) {
+        local.push(tx);
+        continue;
+      }
+
+      const txID = Object.keys(tx)[0];
+      const props = (tx as Record<string, { from?: unknown }>)[txID];
+      if (referencesOtherSection(props?.from, sectionId)) {
+        diagnostics.push(
+          makeError(
+            'layoutTxToSectionLocal',
+            GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+            `${txID} in section ${sectionId} at ${bp} moves a box of another section`,
+            { elementId: sectionId, details: { bp, transformation: tx } },
+          ),
+        );
+        continue;
+      }
+
+      deferred.push(tx);
+    }
+
+    transformations[bp] = local;
+    if (deferred.length > 0) {
+      crossSection ??= {};
+      crossSection[bp] = deferred;
+    }
+  }
+
+  return crossSection;
+}
+
+/**
+ * Resolves the boxes of a section at every breakpoint, mobile-first.
+ * Inherited breakpoints get their own copy of the boxes, since transformations
+ * and later stages work on the boxes of each breakpoint independently.
+ * Boxes hidden at the inheriting breakpoint are left out of the copy.
+ * 
+ * Transformations write into the returned maps: each breakpoint gets its own map,
+ * while the boxes stay shared with the input until a transformation replaces them.
+ * 
+ * @template sectionIDs - The section identifier types for this layout
+ * @template blockIDs - The block identifier types for this layout
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names
+ * @param layoutTx - Layout with transformations holding the section
+ * @param sectionId - The section to resolve
+ * @param diagnostics - Array receiving info diagnostics for inherited breakpoints
+ * @param breakpoints - Breakpoint names to resolve, smallest first
+ * @returns A new box map per breakpoint
+ */
+export function resolveSectionGridBoxes<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string,
+>(
+  layoutTx: LayoutWithTx<sectionIDs, blockIDs, Ext, BP>,
+  sectionId: sectionIDs,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[],
+): BPSGridBoxes<blockIDs, BP> {
+  const hidden = layoutTx.hiddenBoxes?.[sectionId];
+
+  const gridBoxes = cascadeBps<Partial<Record<blockIDs, GridBox>>, BP>(
+    layoutTx.sections[sectionId].gridBoxes,
+    (bp, from, boxes) => {
+      const copy: Partial<Record<blockIDs, GridBox>> = {};
+      for (const boxId in boxes) {
+        const box = boxes[boxId as blockIDs];
+        if (box && !hidden?.[boxId as blockIDs]?.includes(bp)) {
+          copy[boxId as blockIDs] = copyGridBox(box);
+        }
+      }
+      reportInherited(diagnostics, `Section ${sectionId} gridBoxes`, bp, from, copy, sectionId);
+      return copy;
+    },
+    breakpoints,
+  );
+
+  const resolved = {} as BPSGridBoxes<blockIDs, BP>;
+  breakpoints.forEach((bp) => {
+    resolved[bp] = { ...gridBoxes[bp] };
+  });
+
+  return resolved;
+}
+
+/**
+ * Resolves the transformations of a section at every breakpoint, mobile-first.
+ * Breakpoints where every box of the section is hidden get no transformations.
+ * 
+ * @template sectionIDs - The section identifier types for this layout
+ * @template blockIDs - The block identifier types for this layout
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names
+ * @param layoutTx - Layout with transformations holding the section
+ * @param sectionId - The section to resolve
+ * @param gridBoxes - The resolved boxes of the section (see `resolveSectionGridBoxes`)
+ * @param diagnostics - Array receiving info diagnostics for inherited breakpoints
+ * @param breakpoints - Breakpoint names to resolve, smallest first
+ * @returns The transformations per breakpoint, or undefined if the section has none
+ */
+export function resolveSectionTransformations<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string,
+>(
+  layoutTx: LayoutWithTx<sectionIDs, blockIDs, Ext, BP>,
+  sectionId: sectionIDs,
+  gridBoxes: BPSGridBoxes<blockIDs, BP>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[],
+): BoxTransformations<blockIDs, Ext, BP> | undefined {
+  const partialTransformations = layoutTx.sections[sectionId].transformations;
+
+  if (!partialTransformations) {
+    return undefined;
+  }
+
+  const transformations: BoxTransformations<blockIDs, Ext, BP> = cascadeBps<
+    Array<BoxMovesProps<blockIDs, Ext>>,
+    BP
+  >(
+    partialTransformations,
+    (bp, from, value) => {
+      reportInherited(diagnostics, `Section ${sectionId} transformations`, bp, from, value, sectionId);
+      return value;
+    },
+    breakpoints,
+  );
+
+  // Nothing to transform where every box of the section is hidden
+  const hidden = layoutTx.hiddenBoxes?.[sectionId];
+  if (hidden) {
+    for (const bp of breakpoints) {
+      if (
+        Object.keys(gridBoxes[bp] ?? {}).length === 0 &&
+        Object.values<BP[] | undefined>(hidden).some((bps) => bps?.includes(bp))
+      ) {
+        delete transformations[bp];
+      }
+    }
+  }
+
+  return transformations;
+}
+
+/**
+ * Applies the resolved transformations of a section to its boxes.
+ * Transformations that reference boxes of other sections are set aside and
+ * returned; `layoutSectionBtoAbsolute` applies them after section placement.
+ * 
+ * @template blockIDs - The block identifier types for this layout
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names
+ * @param sectionId - The section the boxes belong to
+ * @param gridBoxes - Box maps per breakpoint, updated in place
+ * @param transformations - Resolved transformations; cross-section ones are removed
+ * @param boxTransformations - Transformation registry
+ * @param diagnostics - Array receiving transformation errors
+ * @param breakpoints - Breakpoint names to transform
+ * @param trace - Optional array to record a snapshot after every transformation
+ * @returns The set aside transformations per breakpoint, or undefined if there are none
+ */
+export function applySectionTransformations<
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps,
+  BP extends string,
+>(
+  sectionId: SectionIDs,
+  gridBoxes: BPs<Partial<Record<blockIDs, GridBox>>, BP>,
+  transformations: BoxTransformations<blockIDs, Ext, BP>,
+  boxTransformations: BoxMovesFunctions<NodeID, Ext>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[],
+  trace?: LayoutTraceRecord<BP>[],
+): Partial<BoxTransformations<blockIDs, Ext, BP>> | undefined {
+  // References to other sections are resolved after section placement
+  const crossSection = splitCrossSection(sectionId, transformations, diagnostics, breakpoints);
+
+  // Apply box movement transformations
+  transformBoxMove<blockIDs, Ext, BP>(
+    boxTransformations,
+    transformations,
+    gridBoxes,
+    diagnostics,
+    breakpoints,
+    trace &&
+      ((record) =>
+        trace.push({ kind: 'transformation', stage: 'layoutTxToSectionLocal', section: sectionId, ...record })),
+  );
+
+  return crossSection;
+}
+
 /**
  * Converts a layout with transformations into section-local coordinate space.
  * This function processes the transformation pipeline by applying section-level box transformations
  * while maintaining the layout structure in local coordinates relative to each section.
  * 
  * Processing pipeline:
- * 1. Initializes default box transformations for movement operations
+ * 1. Uses the given transformation registry, or the default box transformations
  * 2. Creates section-local layout structure with grid boxes from the layout transformation
- * 3. Copies grid box data for each breakpoint to maintain positioning information
- * 4. Applies section-specific transformations using the box movement system
- * 5. Returns the final layout in section-local coordinate space
+ * 3. Copies grid box data for each breakpoint; breakpoints missing from a partial
+ *    record inherit (a copy of) the nearest smaller breakpoint, reported at info level
+ * 4. Sets aside transformations that reference boxes of other sections
+ * 5. Applies section-specific transformations using the box movement system
+ * 6. Returns the final layout in section-local coordinate space
  * 
  * Key behaviors:
  * - Preserves layout-level transformations in the output structure
@@ -60,8 +347,13 @@ function layoutTxSectionKeys<sectionIDs extends SectionIDs>(
  * 
  * @template sectionIDs - The section identifier types for this layout
  * @template blockIDs - The block identifier types for this layout
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param layoutTx - Layout with transformations containing positioned grid boxes
  * @param diagnostics - Array to collect diagnostic information and errors during processing
+ * @param transformationFactory - Optional transformation registry (defaults to `DefaultBoxTransformations()`)
+ * @param breakpoints - Breakpoint names to resolve, smallest first (defaults to `BREAKPOINTS`)
+ * @param trace - Optional array to record a snapshot of the section after every transformation
  * @returns Layout in section-local coordinates with applied transformations
  * 
  * @example
@@ -83,53 +375,76 @@ function layoutTxSectionKeys<sectionIDs extends SectionIDs>(
  * // sectionLocal.sections[sectionId][breakpoint][blockId] = transformed GridBox
  * ```
  */
-export function layoutTxToSectionLocal<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs>(
-  layoutTx: LayoutWithTx<sectionIDs, blockIDs>,
+export function layoutTxToSectionLocal<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint,
+>(
+  layoutTx: LayoutWithTx<sectionIDs, blockIDs, Ext, BP>,
   diagnostics: DiagnosticEntry[],
-): LayoutSectionLocal<sectionIDs, blockIDs> {
-  // Initialize default box transformations for movement operations
-  const defaultBoxTransformations = DefaultBoxTransformations();
+  transformationFactory?: BoxMovesFunctions<NodeID, Ext>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+  trace?: LayoutTraceRecord<BP>[],
+): LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP> {
+  // Use the given registry, or fall back to the default box transformations
+  const boxTransformations =
+    transformationFactory ?? (DefaultBoxTransformations() as BoxMovesFunctions<NodeID, Ext>);
 
   // Initialize the layoutSectionLocal structure
-  let layoutSectionLocal: LayoutSectionLocal<sectionIDs, blockIDs> = {
-    sections: {} as Record<sectionIDs, BPSGridBoxes<blockIDs>>,
+  // Layout-level transformations are resolved mobile-first
+  let layoutSectionLocal: LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP> = {
+    sections: {} as Record<sectionIDs, BPSGridBoxes<blockIDs, BP>>,
     transformations: layoutTx.transformations
-      ? layoutTx.transformations
-      : ({} as BoxTransformations<sectionIDs>),
+      ? cascadeBps<Array<BoxMovesProps<sectionIDs, Ext>>, BP>(
+          layoutTx.transformations,
+          (bp, from, value) => {
+            reportInherited(diagnostics, 'Layout transformations', bp, from, value);
+            return value;
+          },
+          breakpoints,
+        )
+      : ({} as BoxTransformations<sectionIDs, Ext, BP>),
   };
 
+  if (layoutTx.hiddenBoxes) {
+    layoutSectionLocal.hiddenBoxes = layoutTx.hiddenBoxes;
+  }
+
   const sectionsKeys = layoutTxSectionKeys(layoutTx.sections);
 
   // Initialize the layoutSectionLocal structure with the boxes from LayoutWithTx
   for (const sectionId of sectionsKeys) {
-    layoutSectionLocal.sections[sectionId] = {} as BPSGridBoxes<blockIDs>;
-
-    BREAKPOINTS.forEach((bp) => {
-      layoutSectionLocal.sections[sectionId][bp] = layoutTx.sections[sectionId].gridBoxes[bp];
-    });
+    layoutSectionLocal.sections[sectionId] = resolveSectionGridBoxes(layoutTx, sectionId, diagnostics, breakpoints);
   }
 
   // Apply transformations if any are defined
   for (const sectionId of sectionsKeys) {
-    // Evaluate transformations for this section
-    const transformations: BoxTransformations<blockIDs> | undefined =
-      layoutTx.sections[sectionId].transformations;
+    const transformations = resolveSectionTransformations(
+      layoutTx,
+      sectionId,
+      layoutSectionLocal.sections[sectionId],
+      diagnostics,
+      breakpoints,
+    );
 
     if (!transformations) {
       continue; // No transformations to apply
     }
 
-    // Get the local grid boxes for each breakpoint
-    let localGridBoxesPerBp: BPs<Partial<Record<blockIDs, GridBox>>> =
-      layoutSectionLocal.sections[sectionId];
-
-    // Apply box movement transformations
-    transformBoxMove<blockIDs>(
-      defaultBoxTransformations,
+    const crossSection = applySectionTransformations(
+      sectionId,
+      layoutSectionLocal.sections[sectionId],
       transformations,
-      localGridBoxesPerBp,
+      boxTransformations,
       diagnostics,
+      breakpoints,
+      trace,
     );
+    if (crossSection) {
+      layoutSectionLocal.crossSectionTransformations ??= {};
+      layoutSectionLocal.crossSectionTransformations[sectionId] = crossSection;
+    }
   }
 
   return layoutSectionLocal;
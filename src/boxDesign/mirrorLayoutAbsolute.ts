@@ -0,0 +1,144 @@
+/**
+ * Mirror Layout Absolute
+ *
+ * This module mirrors a layout with absolute CSS Grid coordinates horizontally,
+ * turning a left-to-right layout into a right-to-left one (and back).
+ * Every box keeps its rows; its columns are reflected within the grid width
+ * of its breakpoint, so sections and the boxes inside them flip together.
+ */
+
+// Layout types for the final absolute coordinates
+import { BoxesCoordinates, LayoutAbsolute } from "../boxLayout/boxLayoutTypes";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS, BPs } from "../breakpoints";
+
+// Reflection across the vertical axis
+import { reflectOnYAxis } from "../geometry";
+
+// CSS Grid coordinate type definitions
+import { CSSCoordinates } from "../gridNodeTypes";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, SectionIDs } from "../templates";
+
+/**
+ * Inline direction of a layout.
+ * - "ltr": Columns run left to right, as written in the layout (default)
+ * - "rtl": Columns run right to left, for Arabic, Hebrew and other RTL locales
+ */
+export type LayoutDirection = "ltr" | "rtl";
+
+/**
+ * Mirror a single grid column line within a grid of `columns` columns.
+ *
+ * Lines run from 1 to `columns + 1`; reflecting across the y-axis and shifting by
+ * `columns + 2` maps line 1 to `columns + 1` and back, so mirroring twice is exact.
+ *
+ * @param line - Column line to mirror (1-based)
+ * @param columns - Number of columns of the grid
+ * @returns The mirrored column line
+ */
+function mirrorColumnLine(line: number, columns: number): number {
+  return reflectOnYAxis({ x: line, y: 0 }).x + columns + 2;
+}
+
+/**
+ * Mirror CSS Grid coordinates within a grid of `columns` columns.
+ * The start and end lines swap roles, so the span of the box is unchanged.
+ *
+ * @param coordinates - Coordinates to mirror
+ * @param columns - Number of columns of the grid
+ * @returns New coordinates with the same rows and mirrored columns
+ *
+ * @example
+ * ```typescript
+ * // A sidebar on columns 1-3 of a 12-column grid moves to columns 10-12
+ * mirrorCSSCoordinates({ gridRowStart: 1, gridColumnStart: 1, gridRowEnd: 5, gridColumnEnd: 4 }, 12);
+ * // Result: { gridRowStart: 1, gridColumnStart: 10, gridRowEnd: 5, gridColumnEnd: 13 }
+ * ```
+ */
+export function mirrorCSSCoordinates(coordinates: CSSCoordinates, columns: number): CSSCoordinates {
+  return {
+    ...coordinates,
+    gridColumnStart: mirrorColumnLine(coordinates.gridColumnEnd, columns),
+    gridColumnEnd: mirrorColumnLine(coordinates.gridColumnStart, columns),
+  };
+}
+
+/**
+ * Mirror a layout with absolute coordinates horizontally at each breakpoint
+ *
+ * Columns of boxes and section bounds are reflected within `gridDimensions.columns`
+ * of each breakpoint; rows, grid dimensions and hidden boxes are kept. Grid lines stay 1-based and within
+ * the grid, and mirroring the result again gives back the original layout.
+ *
+ * The input is not modified.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param layoutAbsolute - Layout with absolute CSS Grid coordinates
+ * @param breakpoints - Breakpoints to mirror, smallest first (defaults to `BREAKPOINTS`)
+ * @returns A new layout with mirrored columns
+ *
+ * @example
+ * ```typescript
+ * const ltr = CSSLayout({ layout: myLayout, diagnostics });
+ * const rtl = mirrorLayoutAbsolute(ltr);
+ * // rtl equals CSSLayout({ layout: myLayout, diagnostics, direction: 'rtl' })
+ * ```
+ */
+export function mirrorLayoutAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>;
+
+  for (const sectionId in layoutAbsolute.sections) {
+    const coordinates = { ...layoutAbsolute.sections[sectionId].coordinates } as BPs<
+      Partial<Record<blockIDs, CSSCoordinates>>,
+      BP
+    >;
+
+    for (const bp of breakpoints) {
+      const boxes = coordinates[bp];
+      if (!boxes) {
+        continue;
+      }
+
+      const columns = layoutAbsolute.gridDimensions.columns[bp];
+      const mirrored: Partial<Record<blockIDs, CSSCoordinates>> = {};
+
+      for (const boxId of Object.keys(boxes) as blockIDs[]) {
+        const box = boxes[boxId];
+        if (box) {
+          mirrored[boxId] = mirrorCSSCoordinates(box, columns);
+        }
+      }
+
+      coordinates[bp] = mirrored;
+    }
+
+    sections[sectionId] = { ...layoutAbsolute.sections[sectionId], coordinates };
+
+    // The section bounds flip with the boxes
+    const bounds = layoutAbsolute.sections[sectionId].bounds;
+    if (bounds) {
+      const mirroredBounds: Partial<BPs<CSSCoordinates, BP>> = { ...bounds };
+      for (const bp of breakpoints) {
+        const rect = bounds[bp];
+        if (rect) {
+          mirroredBounds[bp] = mirrorCSSCoordinates(rect, layoutAbsolute.gridDimensions.columns[bp]);
+        }
+      }
+      sections[sectionId].bounds = mirroredBounds;
+    }
+  }
+
+  return { ...layoutAbsolute, sections };
+}
@@ -0,0 +1,124 @@
+/**
+ * Pipeline Hooks
+ *
+ * This module defines the extension points of the `CSSLayout` pipeline. A hook runs
+ * after one stage and receives its result: the intermediate `LayoutWithTx`,
+ * `LayoutSectionLocal`, `LayoutSectionBounds` or `LayoutAbsolute`. It may return a
+ * replacement, which the next stage then works on, or nothing to keep the value.
+ *
+ * Typical uses:
+ * - Reordering blocks from analytics before the transformations run
+ * - Enforcing house rules on section-local boxes
+ * - Adding custom diagnostics between stages
+ */
+
+// Layout types for the different stages of the pipeline
+import {
+  LayoutAbsolute,
+  LayoutSectionBounds,
+  LayoutSectionLocal,
+  LayoutWithTx,
+} from "../boxLayout/boxLayoutTypes";
+
+// Custom transformation catalogue carried along with the layout
+import { CustomBoxMovesProps } from "../boxTransformations";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint } from "../breakpoints";
+
+// Error handling and diagnostic utilities
+import { DiagnosticEntry } from "../gridErrorShape";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, SectionIDs } from "../templates";
+
+/**
+ * What a hook gets next to the stage result.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property diagnostics - The diagnostics of the `CSSLayout` run; hooks may add their own
+ * @property breakpoints - The breakpoints the pipeline processes, smallest first
+ */
+export type PipelineHookContext<BP extends string = Breakpoint> = {
+  diagnostics: DiagnosticEntry[];
+  breakpoints: readonly BP[];
+};
+
+/**
+ * A hook on one pipeline stage.
+ * Returns the value to pass on, or undefined to pass on the value it received.
+ *
+ * @template T - The stage result
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type PipelineHook<T, BP extends string = Breakpoint> = (
+  value: T,
+  context: PipelineHookContext<BP>
+) => T | undefined | void;
+
+/**
+ * Hooks on the stages of `CSSLayout`, each optional.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property afterLayoutToTx - Runs on the layout with transformations, before they are applied
+ * @property afterSectionLocal - Runs on the boxes in section-local coordinates
+ * @property afterSectionBounds - Runs on the boxes with their section bounding boxes
+ * @property afterAbsolute - Runs on the final coordinates, before the overlap check
+ *
+ * @example
+ * ```typescript
+ * const houseRules: CSSLayoutHooks<SectionIDs, BlocksIDs> = {
+ *   afterSectionLocal: (layout, { diagnostics }) => {
+ *     if (!layout.sections.header) {
+ *       diagnostics.push(makeWarning('CSSLayout', GRID_ERROR_CODE.MISSING_BOX, 'No header'));
+ *     }
+ *   },
+ * };
+ * ```
+ */
+export type CSSLayoutHooks<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = {
+  afterLayoutToTx?: PipelineHook<LayoutWithTx<sectionIDs, blockIDs, Ext, BP>, BP>;
+  afterSectionLocal?: PipelineHook<LayoutSectionLocal<sectionIDs, blockIDs, Ext, BP>, BP>;
+  afterSectionBounds?: PipelineHook<LayoutSectionBounds<sectionIDs, blockIDs, Ext, BP>, BP>;
+  afterAbsolute?: PipelineHook<LayoutAbsolute<sectionIDs, blockIDs, BP>, BP>;
+};
+
+/**
+ * Run the hooks of one stage in registration order.
+ * Each hook receives the value returned by the previous one, like a middleware chain.
+ *
+ * @template T - The stage result
+ * @template BP - Breakpoint names
+ * @param hooks - The hooks of the stage; missing entries are skipped
+ * @param value - The stage result
+ * @param context - Diagnostics and breakpoints of the run
+ * @returns The value returned by the last hook that returned one, or `value`
+ */
+export function runPipelineHooks<T, BP extends string>(
+  hooks: ReadonlyArray<PipelineHook<T, BP> | undefined>,
+  value: T,
+  context: PipelineHookContext<BP>
+): T {
+  let current = value;
+
+  for (const hook of hooks) {
+    if (!hook) {
+      continue;
+    }
+
+    const replacement = hook(current, context);
+    if (replacement !== undefined) {
+      current = replacement;
+    }
+  }
+
+  return current;
+}
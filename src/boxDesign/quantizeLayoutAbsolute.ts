@@ -0,0 +1,357 @@
+/**
+ * Quantize Layout Absolute
+ *
+ * This module fits the grid lines of a layout with absolute CSS Grid coordinates to a
+ * usable number of tracks. Layouts written with pixel-like extents turn into grids of
+ * hundreds of columns; quantization divides every line by the greatest common divisor
+ * of the axis, and rescaling maps the columns onto a target count such as 12, 16 or 24.
+ */
+
+// Layout types for the final absolute coordinates
+import { BoxesCoordinates, LayoutAbsolute } from "../boxLayout/boxLayoutTypes";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS, BPs, cascadeBps, makeBps, NoInferBP, PartialBps } from "../breakpoints";
+
+// Error handling and diagnostic utilities
+import { DiagnosticEntry, GRID_ERROR_CODE, makeError, makeInfo, makeWarning } from "../gridErrorShape";
+
+// CSS Grid coordinate type definitions
+import { CSSCoordinates } from "../gridNodeTypes";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, SectionIDs } from "../templates";
+
+/**
+ * How rescaled column lines that fall between two columns are rounded.
+ * - "round": To the nearest line (default)
+ * - "floor": Towards the start of the grid
+ * - "ceil": Towards the end of the grid
+ */
+export type RoundingPolicy = "round" | "floor" | "ceil";
+
+/**
+ * Options of the column rescaling.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property columns - Target column count, for every breakpoint or per breakpoint. Per
+ *   breakpoint targets cascade mobile-first; breakpoints below the first one set are
+ *   left as they are
+ * @property rounding - Rounding of lines between two columns (defaults to "round")
+ */
+export type RescaleOptions<BP extends string = Breakpoint> = {
+  columns: number | Partial<BPs<number, BP>>;
+  rounding?: RoundingPolicy;
+};
+
+/**
+ * Greatest common divisor of two non-negative integers.
+ */
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Copy the sections of a layout down to the per-breakpoint coordinate maps,
+ * so that they can be replaced per breakpoint without touching the input.
+ */
+function copySections<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs, BP extends string>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>
+): Record<sectionIDs, BoxesCoordinates<blockIDs, BP>> {
+  const sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>;
+
+  for (const sectionId of Object.keys(layoutAbsolute.sections) as sectionIDs[]) {
+    sections[sectionId] = {
+      ...layoutAbsolute.sections[sectionId],
+      coordinates: { ...layoutAbsolute.sections[sectionId].coordinates } as BPs<
+        Partial<Record<blockIDs, CSSCoordinates>>,
+        BP
+      >,
+    };
+  }
+
+  return sections;
+}
+
+/**
+ * Replace every box and section bound of one breakpoint.
+ */
+function mapCoordinatesAt<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs, BP extends string>(
+  sections: Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>,
+  bp: BP,
+  map: (coordinates: CSSCoordinates) => CSSCoordinates
+) {
+  for (const sectionId of Object.keys(sections) as sectionIDs[]) {
+    const coordinates = sections[sectionId].coordinates[bp];
+    if (coordinates) {
+      const mapped: Partial<Record<blockIDs, CSSCoordinates>> = {};
+      for (const boxId of Object.keys(coordinates) as blockIDs[]) {
+        const box = coordinates[boxId];
+        if (box) {
+          mapped[boxId] = map(box);
+        }
+      }
+      sections[sectionId].coordinates[bp] = mapped;
+    }
+
+    const bounds = sections[sectionId].bounds?.[bp];
+    if (bounds) {
+      sections[sectionId].bounds = { ...sections[sectionId].bounds, [bp]: map(bounds) };
+    }
+  }
+}
+
+/**
+ * Every box and section bound of one breakpoint.
+ */
+function coordinatesAt<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs, BP extends string>(
+  sections: Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>,
+  bp: BP
+): CSSCoordinates[] {
+  const all: CSSCoordinates[] = [];
+
+  for (const sectionId of Object.keys(sections) as sectionIDs[]) {
+    for (const box of Object.values<CSSCoordinates | undefined>(sections[sectionId].coordinates[bp] ?? {})) {
+      if (box) {
+        all.push(box);
+      }
+    }
+    const bounds = sections[sectionId].bounds?.[bp];
+    if (bounds) {
+      all.push(bounds);
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Divide the grid lines of a layout with absolute coordinates by their greatest common divisor
+ *
+ * For each breakpoint and axis, the distances of all box and section bound lines from
+ * line 1, and the track count of the grid, are divided by their greatest common divisor.
+ * Proportions are kept exactly: a layout of 100, 200 and 400 pixel wide boxes becomes
+ * one of 1, 2 and 4 columns.
+ *
+ * Every breakpoint that was reduced gets a `GRID_QUANTIZED` info diagnostic whose
+ * details hold the breakpoint and the divisors of the rows and columns.
+ *
+ * The input is not modified.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param layoutAbsolute - Layout with absolute CSS Grid coordinates
+ * @param diagnostics - Array to collect the quantization reports
+ * @param breakpoints - Breakpoints to quantize, smallest first (defaults to `BREAKPOINTS`)
+ * @returns A new layout on the smallest grid with the same proportions
+ *
+ * @example
+ * ```typescript
+ * const layoutAbsolute = CSSLayout({ layout: pixelLayout, diagnostics });
+ * const quantized = quantizeLayoutAbsolute(layoutAbsolute, diagnostics);
+ * // quantized equals CSSLayout({ layout: pixelLayout, diagnostics, quantize: true })
+ * ```
+ */
+export function quantizeLayoutAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
+  diagnostics: DiagnosticEntry[],
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const sections = copySections(layoutAbsolute);
+  const gridDimensions = {
+    rows: { ...layoutAbsolute.gridDimensions.rows },
+    columns: { ...layoutAbsolute.gridDimensions.columns },
+  };
+
+  for (const bp of breakpoints) {
+    let rowDivisor = layoutAbsolute.gridDimensions.rows[bp];
+    let columnDivisor = layoutAbsolute.gridDimensions.columns[bp];
+
+    for (const box of coordinatesAt(sections, bp)) {
+      rowDivisor = gcd(rowDivisor, Math.abs(box.gridRowStart - 1));
+      rowDivisor = gcd(rowDivisor, Math.abs(box.gridRowEnd - 1));
+      columnDivisor = gcd(columnDivisor, Math.abs(box.gridColumnStart - 1));
+      columnDivisor = gcd(columnDivisor, Math.abs(box.gridColumnEnd - 1));
+    }
+
+    // An empty or single-track axis has nothing to divide
+    const rows = Math.max(rowDivisor, 1);
+    const columns = Math.max(columnDivisor, 1);
+    if (rows === 1 && columns === 1) {
+      continue;
+    }
+
+    mapCoordinatesAt(sections, bp, (box) => ({
+      ...box,
+      gridRowStart: (box.gridRowStart - 1) / rows + 1,
+      gridRowEnd: (box.gridRowEnd - 1) / rows + 1,
+      gridColumnStart: (box.gridColumnStart - 1) / columns + 1,
+      gridColumnEnd: (box.gridColumnEnd - 1) / columns + 1,
+    }));
+
+    gridDimensions.rows[bp] /= rows;
+    gridDimensions.columns[bp] /= columns;
+
+    diagnostics.push(
+      makeInfo(
+        "quantizeLayoutAbsolute",
+        GRID_ERROR_CODE.GRID_QUANTIZED,
+        `Divided rows by ${rows} and columns by ${columns} at breakpoint ${bp}`,
+        { details: { bp, rows, columns } }
+      )
+    );
+  }
+
+  return { ...layoutAbsolute, gridDimensions, sections };
+}
+
+/**
+ * Map the columns of a layout with absolute coordinates onto a target column count
+ *
+ * Every column line is scaled by `target / columns` of its breakpoint and rounded with
+ * the rounding policy; rows are kept. Lines keep their order, so boxes that did not
+ * overlap still do not, but two lines may round to the same one. A box that would lose
+ * all its columns keeps one and is reported with a `RESCALE_CONFLICT` warning, as it
+ * may now overlap a neighbour. Section bounds are scaled the same way and grown to the
+ * boxes they contain.
+ *
+ * A target that is not a positive integer is reported with an `INVALID_COLUMN_COUNT`
+ * error and its breakpoint is left as it is.
+ *
+ * The input is not modified.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param layoutAbsolute - Layout with absolute CSS Grid coordinates
+ * @param diagnostics - Array to collect conflicts and errors
+ * @param options - Target column count and rounding policy
+ * @param breakpoints - Breakpoints to rescale, smallest first (defaults to `BREAKPOINTS`)
+ * @returns A new layout with the target column count
+ *
+ * @example
+ * ```typescript
+ * // A 400-column layout on 12 columns on phones and 24 from md up
+ * const rescaled = rescaleLayoutAbsolute(layoutAbsolute, diagnostics, {
+ *   columns: { xs: 12, md: 24 },
+ *   rounding: 'floor',
+ * });
+ * ```
+ */
+export function rescaleLayoutAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
+  diagnostics: DiagnosticEntry[],
+  options: RescaleOptions<NoInferBP<BP>>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const { columns: target, rounding = "round" } = options;
+  const round = Math[rounding];
+  const targets: Partial<BPs<number, BP>> =
+    typeof target === "number"
+      ? makeBps(breakpoints, () => target)
+      : cascadeBps(target as PartialBps<number, BP>, undefined, breakpoints);
+
+  const sections = copySections(layoutAbsolute);
+  const gridDimensions = {
+    rows: { ...layoutAbsolute.gridDimensions.rows },
+    columns: { ...layoutAbsolute.gridDimensions.columns },
+  };
+
+  for (const bp of breakpoints) {
+    const to = targets[bp];
+    if (to === undefined) {
+      continue;
+    }
+
+    if (!Number.isInteger(to) || to < 1) {
+      diagnostics.push(
+        makeError(
+          "rescaleLayoutAbsolute",
+          GRID_ERROR_CODE.INVALID_COLUMN_COUNT,
+          `Column count ${to} at breakpoint ${bp} is not a positive integer. Breakpoint not rescaled.`,
+          { details: { bp, columns: to } }
+        )
+      );
+      continue;
+    }
+
+    const from = layoutAbsolute.gridDimensions.columns[bp];
+    if (from === to) {
+      continue;
+    }
+
+    const scaleLine = (line: number) => round(((line - 1) * to) / from) + 1;
+
+    for (const sectionId of Object.keys(sections) as sectionIDs[]) {
+      const coordinates = sections[sectionId].coordinates[bp];
+      if (!coordinates) {
+        continue;
+      }
+
+      const scaled: Partial<Record<blockIDs, CSSCoordinates>> = {};
+
+      for (const boxId of Object.keys(coordinates) as blockIDs[]) {
+        const box = coordinates[boxId];
+        if (!box) {
+          continue;
+        }
+
+        let gridColumnStart = scaleLine(box.gridColumnStart);
+        let gridColumnEnd = scaleLine(box.gridColumnEnd);
+
+        // Keep one column, inside the grid where possible
+        if (gridColumnEnd <= gridColumnStart && box.gridColumnEnd > box.gridColumnStart) {
+          if (gridColumnStart > to) {
+            gridColumnStart = gridColumnEnd - 1;
+          } else {
+            gridColumnEnd = gridColumnStart + 1;
+          }
+
+          diagnostics.push(
+            makeWarning(
+              "rescaleLayoutAbsolute",
+              GRID_ERROR_CODE.RESCALE_CONFLICT,
+              `Box ${boxId} of section ${sectionId} rounds to no column at breakpoint ${bp}. Kept at column ${gridColumnStart}.`,
+              { elementId: boxId, details: { bp, sectionId, from: box, column: gridColumnStart } }
+            )
+          );
+        }
+
+        scaled[boxId] = { ...box, gridColumnStart, gridColumnEnd };
+      }
+
+      sections[sectionId].coordinates[bp] = scaled;
+
+      const bounds = sections[sectionId].bounds?.[bp];
+      if (bounds) {
+        const boxes = Object.values<CSSCoordinates | undefined>(scaled).filter(
+          (box): box is CSSCoordinates => box !== undefined
+        );
+        sections[sectionId].bounds = {
+          ...sections[sectionId].bounds,
+          [bp]: {
+            ...bounds,
+            gridColumnStart: Math.min(scaleLine(bounds.gridColumnStart), ...boxes.map((b) => b.gridColumnStart)),
+            gridColumnEnd: Math.max(scaleLine(bounds.gridColumnEnd), ...boxes.map((b) => b.gridColumnEnd)),
+          },
+        };
+      }
+    }
+
+    gridDimensions.columns[bp] = to;
+  }
+
+  return { ...layoutAbsolute, gridDimensions, sections };
+}
@@ -12,6 +12,9 @@
  * - alignAllToX/alignAllToY: Align multiple boxes to same coordinate
  * - stackVertically/stackHorizontally: Arrange boxes in stacks
  * 
+ * Custom transformations are looked up in the same registry as the defaults,
+ * so a registry built with `extendBoxTransformations` is dispatched the same way.
+ * 
  * The engine is type-safe and provides comprehensive error handling with detailed
  * diagnostic reporting for transformation failures.
  */
@@ -27,13 +30,11 @@ import {
   BoxMovesFunctions,      // Factory interface for transformation functions
   BoxMovesProps,          // Union type of all transformation properties
   TransformationIDs,      // Valid transformation identifier types
-  BoxMovesPropsObject,    // Object mapping transformation IDs to properties
-  transformationIDs,      // Runtime array of valid transformation IDs
-  BoxMoveToProps          // Specific properties for moveTo transformation
+  CustomBoxMovesProps,    // Custom transformations registered next to the defaults
 } from "../boxTransformations";
 
 // Responsive breakpoint types and constants
-import { BPs, BREAKPOINTS } from "../breakpoints";
+import { BPs, Breakpoint, BREAKPOINTS } from "../breakpoints";
 
 // Error handling and diagnostic utilities
 import { DiagnosticEntry, makeError, GRID_ERROR_CODE } from "../gridErrorShape";
@@ -41,6 +42,19 @@ import { DiagnosticEntry, makeError, GRID_ERROR_CODE } from "../gridErrorShape";
 // Node identifier types
 import { NodeID } from "../templates";
 
+// Opt-in tracing of every transformation
+import { changedBoxes, snapshotBoxes, TransformationTracer } from "./layoutTrace";
+
+/**
+ * Signature shared by every entry of a transformation registry once the
+ * transformation ID has been resolved at runtime.
+ */
+type RegisteredBoxMove = (props: {
+    boxprops: unknown;
+    boxes: Partial<Record<NodeID, GridBox>>;
+    diagnostics: DiagnosticEntry[];
+}) => GridBox | undefined | Partial<Record<NodeID, GridBox>>;
+
 
 /**
  * Apply box movement transformations across all responsive breakpoints
@@ -50,26 +64,37 @@ import { NodeID } from "../templates";
  * comprehensive error handling and diagnostic reporting.
  * 
  * Processing Flow:
- * 1. Iterate through each responsive breakpoint (xs, sm, md, lg, xl)
+ * 1. Iterate through each responsive breakpoint (xs, sm, md, lg, xl by default)
  * 2. For each breakpoint, process all configured transformations in sequence
- * 3. Validate transformation types and apply using the transformation factory
+ * 3. Look up each transformation in the registry and apply it
  * 4. Report errors and constraint violations through diagnostics
+ * 5. Hand each transformation and the boxes it changed to the tracer, if any
  * 
  * @template BoxID - Type extending NodeID for box identifiers
- * @param transformationFactory - Factory providing transformation function implementations
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param transformationFactory - Registry providing transformation function implementations
  * @param boxTransformations - Configuration of transformations per breakpoint
  * @param gridBoxes - Grid boxes to transform, organized by breakpoint
  * @param diagnostics - Array to collect errors and warnings during processing
+ * @param breakpoints - Breakpoint names to process, smallest first (defaults to `BREAKPOINTS`)
+ * @param tracer - Optional receiver of a snapshot after every transformation
  */
-export const transformBoxMove = <BoxID extends NodeID>(
-    transformationFactory: BoxMovesFunctions<BoxID>,
-    boxTransformations: BoxTransformations<BoxID>,
-    gridBoxes: BPs<Partial<Record<BoxID, GridBox>>>,
-    diagnostics: DiagnosticEntry[]) => {
+export const transformBoxMove = <
+    BoxID extends NodeID,
+    Ext extends CustomBoxMovesProps = {},
+    BP extends string = Breakpoint
+>(
+    transformationFactory: BoxMovesFunctions<BoxID, Ext>,
+    boxTransformations: BoxTransformations<BoxID, Ext, BP>,
+    gridBoxes: BPs<Partial<Record<BoxID, GridBox>>, BP>,
+    diagnostics: DiagnosticEntry[],
+    breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+    tracer?: TransformationTracer<BP>) => {
 
 
     // Process transformations for each responsive breakpoint
-    BREAKPOINTS.forEach(bp => {
+    breakpoints.forEach(bp => {
 
         // Skip breakpoints that have no transformation configurations
         if (!(bp in boxTransformations)) {
@@ -77,7 +102,7 @@ export const transformBoxMove = <BoxID extends NodeID>(
         }
 
         // Get transformation array for current breakpoint
-        const transformationsAtBp: Array<BoxMovesProps<BoxID>> | undefined = boxTransformations[bp];
+        const transformationsAtBp: Array<BoxMovesProps<BoxID, Ext>> | undefined = boxTransformations[bp];
 
         // Skip if no transformations are defined for this breakpoint
         if (!transformationsAtBp) {
@@ -88,14 +113,14 @@ export const transformBoxMove = <BoxID extends NodeID>(
         // Order matters: transformations are applied sequentially and may depend on previous results
         transformationsAtBp.forEach(tx => {
 
-            const tr: BoxMovesProps<BoxID> = tx;
-
             // Extract transformation type from the transformation object
             // Each transformation object has exactly one key indicating its type
-            const txID: TransformationIDs<BoxID> = Object.keys(tr)[0] as keyof BoxMovesPropsObject<BoxID>;
+            const txID = Object.keys(tx)[0] as TransformationIDs<BoxID, Ext>;
 
-            // Validate that the transformation type is recognized
-            if (!transformationIDs.includes(txID)) {
+            // Validate that the transformation type is registered
+            // Own properties only, so prototype members are never dispatched
+            if (!Object.prototype.hasOwnProperty.call(transformationFactory, txID)
+                || typeof transformationFactory[txID] !== 'function') {
                 // unknown transformation ID
                 diagnostics.push(makeError('transformBoxMove',
                     GRID_ERROR_CODE.UNKNOWN_TRANSFORMATION,
@@ -103,193 +128,35 @@ export const transformBoxMove = <BoxID extends NodeID>(
                 return;
             }
 
-            // Apply the appropriate transformation based on its type
-            // Each case handles a specific transformation type with proper type casting
-            switch (txID) {
-                case "moveTo":
-                    // Move box to absolute coordinates
-                    // console.log('Applying moveTo transformation', tr);
-                    {
-                        const propsMove = (tr as { moveTo: BoxMoveToProps<BoxID> }).moveTo;
-                        
-                        // Apply the moveTo transformation using the factory
-                        let result = transformationFactory.moveTo({
-                            boxprops: propsMove,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `moveTo transformation failed for box ${JSON.stringify(propsMove)}`));
-                        }
-                    }
-                    break;
-                case "moveBy":
-                    // Move box by relative offset amounts
-                    // console.log('Applying moveBy transformation', tr);
-                    {
-                        const propsMoveBy = (tr as { moveBy: any }).moveBy;
-                        
-                        // Apply the moveBy transformation using the factory
-                        let result = transformationFactory.moveBy({
-                            boxprops: propsMoveBy,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `moveBy transformation failed for box ${JSON.stringify(propsMoveBy)}`));
-                        }
-                    }
-                    break;
-                case "alignToY":
-                    // Align box to specific Y coordinate
-                    // console.log('Applying alignToY transformation', tr);
-                    {
-                        const propsAlignY = (tr as { alignToY: any }).alignToY;
-                        
-                        // Apply the alignToY transformation using the factory
-                        let result = transformationFactory.alignToY({
-                            boxprops: propsAlignY,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `alignToY transformation failed for box ${JSON.stringify(propsAlignY)}`));
-                        }
-                    }
+            // Every registry entry receives its own props, the boxes at this
+            // breakpoint and the shared diagnostics array
+            const transformation = transformationFactory[txID] as RegisteredBoxMove;
+            const boxprops = (tx as Record<string, unknown>)[txID];
 
-                    break;
-                case "alignToX":
-                    // Align box to specific X coordinate
-                    // console.log('Applying alignToX transformation', tr);
-                    {
-                        const propsAlignX = (tr as { alignToX: any }).alignToX;
-                        
-                        // Apply the alignToX transformation using the factory
-                        let result = transformationFactory.alignToX({
-                            boxprops: propsAlignX,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
+            // Snapshots are only taken when tracing
+            const before = tracer ? snapshotBoxes(gridBoxes[bp]) : undefined;
 
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `alignToX transformation failed for box ${JSON.stringify(propsAlignX)}`));
-                        }
-                    }
+            const result = transformation({
+                boxprops: boxprops,
+                boxes: gridBoxes[bp],
+                diagnostics: diagnostics
+            });
 
-                    break;
-                case "alignAllToY":
-                    // Align multiple boxes to the same Y coordinate
-                    // console.log('Applying alignAllToY transformation', tr);
-                    {
-                        const propsAlignAllY = (tr as { alignAllToY: any }).alignAllToY;
-                        
-                        // Apply the alignAllToY transformation using the factory
-                        let result = transformationFactory.alignAllToY({
-                            boxprops: propsAlignAllY,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `alignAllToY transformation failed for box ${JSON.stringify(propsAlignAllY)}`));
-                        }
-                    }
-                    break;
-                case "alignAllToX":
-                    // Align multiple boxes to the same X coordinate
-                    // console.log('Applying alignAllToX transformation', tr);
-                    {
-                        const propsAlignAllX = (tr as { alignAllToX: any }).alignAllToX;
-                        
-                        // Apply the alignAllToX transformation using the factory
-                        let result = transformationFactory.alignAllToX({
-                            boxprops: propsAlignAllX,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `alignAllToX transformation failed for box ${JSON.stringify(propsAlignAllX)}`));
-                        }
-                    }
-
-                    break;
-                case "stackVertically":
-                    // Arrange boxes in a vertical stack (one above the other)
-                    // console.log('Applying stackVertically transformation', tr);
-                    {
-                        const propsStackV = (tr as { stackVertically: any }).stackVertically;
-                        
-                        // Apply the stackVertically transformation using the factory
-                        let result = transformationFactory.stackVertically({
-                            boxprops: propsStackV,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `stackVertically transformation failed for box ${JSON.stringify(propsStackV)}`));
-                        }
-                    }
-                    break;
-                case "stackHorizontally":
-                    // Arrange boxes in a horizontal stack (side by side)
-                    // console.log('Applying stackHorizontally transformation', tr);
-                    {
-                        const propsStackH = (tr as { stackHorizontally: any }).stackHorizontally;
-                        
-                        // Apply the stackHorizontally transformation using the factory
-                        let result = transformationFactory.stackHorizontally({
-                            boxprops: propsStackH,
-                            boxes: gridBoxes[bp],
-                            diagnostics: diagnostics
-                        });
-
-                        // Report failure if transformation couldn't be applied
-                        if (!result) {
-                            diagnostics.push(makeError('transformBoxMove',
-                                GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
-                                `stackHorizontally transformation failed for box ${JSON.stringify(propsStackH)}`));
-                        }
-                    }
-                    break;
-
-                default:
-                    // TypeScript exhaustiveness checking: this should never be reached
-                    // If we get here, there's a transformation ID that wasn't handled above
-                    diagnostics.push(makeError('transformBoxMove',
-                        GRID_ERROR_CODE.UNKNOWN_TRANSFORMATION,
-                        `Unhandled transformation key: ${txID}`));
-
-                    // TypeScript exhaustiveness check - this will cause a compile error
-                    // if any transformation cases are missing from the switch statement
-                    const _exhaustive: never = txID;
-                    break;
+            // Report failure if transformation couldn't be applied
+            if (!result) {
+                diagnostics.push(makeError('transformBoxMove',
+                    GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+                    `${txID} transformation failed for box ${JSON.stringify(boxprops)}`));
+            }
 
+            if (tracer) {
+                const boxes = snapshotBoxes(gridBoxes[bp]);
+                tracer({
+                    bp,
+                    transformation: tx as BoxMovesProps<NodeID, CustomBoxMovesProps>,
+                    changed: changedBoxes(before!, boxes),
+                    boxes,
+                });
             }
         }); // End of transformations loop for current breakpoint
 
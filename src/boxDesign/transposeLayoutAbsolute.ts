@@ -0,0 +1,188 @@
+/**
+ * Transpose Layout Absolute
+ *
+ * This module transposes a layout with absolute CSS Grid coordinates, swapping
+ * rows and columns at every breakpoint. One layout definition can then serve both
+ * landscape and portrait screens: the sections that sat side by side are stacked
+ * and the other way around.
+ */
+
+// Layout types for the final absolute coordinates
+import { BoxesCoordinates, LayoutAbsolute } from "../boxLayout/boxLayoutTypes";
+
+// Responsive breakpoint definitions (xs, sm, md, lg, xl by default)
+import { Breakpoint, BREAKPOINTS, BPs } from "../breakpoints";
+
+// Matrix helpers for swapping the axes
+import { boundingBox, multiply, transposition } from "../geometry";
+
+// CSS Grid coordinate type definitions
+import { CSSCoordinates } from "../gridNodeTypes";
+
+// Template identifiers for sections and blocks
+import { BlocksIDs, SectionIDs } from "../templates";
+
+/**
+ * Transpose CSS Grid coordinates.
+ * The start and end lines are mapped as points `(column, row)` with the
+ * `transposition` matrix; the result spans the mapped points.
+ *
+ * @param coordinates - Coordinates to transpose
+ * @returns New coordinates with rows and columns swapped
+ *
+ * @example
+ * ```typescript
+ * // A header on row 1, columns 1-12, becomes a rail on column 1, rows 1-12
+ * transposeCSSCoordinates({ gridRowStart: 1, gridColumnStart: 1, gridRowEnd: 2, gridColumnEnd: 13 });
+ * // Result: { gridRowStart: 1, gridColumnStart: 1, gridRowEnd: 13, gridColumnEnd: 2 }
+ * ```
+ */
+export function transposeCSSCoordinates(coordinates: CSSCoordinates): CSSCoordinates {
+  const { min, max } = boundingBox([
+    multiply(transposition, { x: coordinates.gridColumnStart, y: coordinates.gridRowStart }),
+    multiply(transposition, { x: coordinates.gridColumnEnd, y: coordinates.gridRowEnd }),
+  ]);
+
+  return {
+    ...coordinates,
+    gridRowStart: min.y,
+    gridColumnStart: min.x,
+    gridRowEnd: max.y,
+    gridColumnEnd: max.x,
+  };
+}
+
+/**
+ * Transpose a layout with absolute coordinates at each breakpoint
+ *
+ * Every box and section bound has its rows and columns swapped, and so have the
+ * grid dimensions.
+ * The result is then normalized so that the first row and column lines are 1 again,
+ * as `layoutSectionBtoAbsolute` does for the original layout. Hidden boxes are kept.
+ * Transposing the result again gives back the original layout.
+ *
+ * The input is not modified.
+ *
+ * @template sectionIDs - Union type of valid section identifiers
+ * @template blockIDs - Union type of valid block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @param layoutAbsolute - Layout with absolute CSS Grid coordinates
+ * @param breakpoints - Breakpoints to transpose, smallest first (defaults to `BREAKPOINTS`)
+ * @returns A new layout with rows and columns swapped
+ *
+ * @example
+ * ```typescript
+ * const landscape = CSSLayout({ layout: myLayout, diagnostics });
+ * const portrait = transposeLayoutAbsolute(landscape);
+ * // portrait equals CSSLayout({ layout: myLayout, diagnostics, transpose: true })
+ * ```
+ */
+export function transposeLayoutAbsolute<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>(
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): LayoutAbsolute<sectionIDs, blockIDs, BP> {
+  const sections = {} as Record<sectionIDs, BoxesCoordinates<blockIDs, BP>>;
+  const gridDimensions = {
+    rows: { ...layoutAbsolute.gridDimensions.rows },
+    columns: { ...layoutAbsolute.gridDimensions.columns },
+  };
+  const sectionIds = Object.keys(layoutAbsolute.sections) as sectionIDs[];
+
+  for (const sectionId of sectionIds) {
+    sections[sectionId] = {
+      ...layoutAbsolute.sections[sectionId],
+      coordinates: { ...layoutAbsolute.sections[sectionId].coordinates } as BPs<
+        Partial<Record<blockIDs, CSSCoordinates>>,
+        BP
+      >,
+    };
+  }
+
+  // Apply a change to the bounds of a section at one breakpoint, without touching the input
+  const updateBounds = (sectionId: sectionIDs, bp: BP, update: (rect: CSSCoordinates) => CSSCoordinates) => {
+    const rect = sections[sectionId].bounds?.[bp];
+    if (rect) {
+      sections[sectionId].bounds = { ...sections[sectionId].bounds, [bp]: update(rect) };
+    }
+  };
+
+  for (const bp of breakpoints) {
+    // Swap the grid dimensions the same way as the boxes
+    const size = multiply(transposition, {
+      x: layoutAbsolute.gridDimensions.columns[bp],
+      y: layoutAbsolute.gridDimensions.rows[bp],
+    });
+
+    // Transpose every box and track the smallest lines
+    let minColumn = Infinity;
+    let minRow = Infinity;
+
+    for (const sectionId of sectionIds) {
+      const boxes = sections[sectionId].coordinates[bp];
+      if (!boxes) {
+        continue;
+      }
+
+      const transposed: Partial<Record<blockIDs, CSSCoordinates>> = {};
+
+      for (const boxId of Object.keys(boxes) as blockIDs[]) {
+        const box = boxes[boxId];
+        if (!box) {
+          continue;
+        }
+
+        const coord = transposeCSSCoordinates(box);
+        transposed[boxId] = coord;
+        minColumn = Math.min(minColumn, coord.gridColumnStart);
+        minRow = Math.min(minRow, coord.gridRowStart);
+      }
+
+      sections[sectionId].coordinates[bp] = transposed;
+
+      updateBounds(sectionId, bp, (rect) => {
+        const coord = transposeCSSCoordinates(rect);
+        minColumn = Math.min(minColumn, coord.gridColumnStart);
+        minRow = Math.min(minRow, coord.gridRowStart);
+        return coord;
+      });
+    }
+
+    // Normalize to positive lines starting from 1
+    const dx = minColumn < 1 ? 1 - minColumn : 0;
+    const dy = minRow < 1 ? 1 - minRow : 0;
+
+    gridDimensions.columns[bp] = size.x + dx;
+    gridDimensions.rows[bp] = size.y + dy;
+
+    if (dx === 0 && dy === 0) {
+      continue;
+    }
+
+    const shift = (box: CSSCoordinates): CSSCoordinates => ({
+      ...box,
+      gridRowStart: box.gridRowStart + dy,
+      gridColumnStart: box.gridColumnStart + dx,
+      gridRowEnd: box.gridRowEnd + dy,
+      gridColumnEnd: box.gridColumnEnd + dx,
+    });
+
+    for (const sectionId of sectionIds) {
+      updateBounds(sectionId, bp, shift);
+
+      const boxes = sections[sectionId].coordinates[bp];
+      if (!boxes) {
+        continue;
+      }
+
+      for (const boxId of Object.keys(boxes) as blockIDs[]) {
+        boxes[boxId] = shift(boxes[boxId]!);
+      }
+    }
+  }
+
+  return { ...layoutAbsolute, gridDimensions, sections };
+}
@@ -7,15 +7,49 @@
  */
 
 import { GridBox } from "../../src/box/gridBoxTypes";
-import { BoxMovesProps } from "../boxTransformations/boxTransformationsProps";
-import { BPs, Breakpoint } from "../breakpoints";
+import { BoxMovesProps, CustomBoxMovesProps } from "../boxTransformations/boxTransformationsProps";
+import { BPs, Breakpoint, PartialBps } from "../breakpoints";
 import { CSSCoordinates } from "../gridNodeTypes";
 import { GridNodeViewOptions } from "../nodeViewOptions";
 import { BlocksIDs, NodeID, SectionIDs } from "../templates/layoutIDs";
 
+/**
+ * A span length in grid tracks, either fixed or given per breakpoint.
+ * Breakpoint maps are mobile-first: missing breakpoints inherit the span of
+ * the nearest smaller breakpoint.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * const fixed: ResponsiveSpan = 4;
+ * const responsive: ResponsiveSpan = { xs: 4, md: 6, lg: 3 }; // sm = 4, xl = 3
+ * ```
+ */
+export type ResponsiveSpan<BP extends string = Breakpoint> = number | PartialBps<number, BP>;
+
+/**
+ * Whether a box exists, either at every breakpoint or per breakpoint.
+ * Breakpoint maps are mobile-first like responsive spans.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * const always: ResponsiveVisibility = true;
+ * const notOnPhones: ResponsiveVisibility = { xs: false, sm: true };
+ * ```
+ */
+export type ResponsiveVisibility<BP extends string = Breakpoint> = boolean | PartialBps<boolean, BP>;
+
 /**
  * Defines the grid span dimensions for a box element.
- * Specifies how many grid columns and rows a box should occupy.
+ * Specifies how many grid columns and rows a box should occupy, either for
+ * every breakpoint at once or per breakpoint. A box with `visible: false` at a
+ * breakpoint is omitted there: it gets no GridBox, takes no part in
+ * transformations or bounding boxes, and is not displayed by the renderer.
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -27,14 +61,94 @@ import { BlocksIDs, NodeID, SectionIDs } from "../templates/layoutIDs";
  *
  * // A horizontal banner (4 columns, 1 row)
  * const banner: BoxSpan = { spanX: 4, spanY: 1 };
+ *
+ * // 4 columns on phones, 6 from md, 3 from lg
+ * const card: BoxSpan = { spanX: { xs: 4, md: 6, lg: 3 }, spanY: 1 };
+ *
+ * // Omitted on phones
+ * const aside: BoxSpan = { spanX: 2, spanY: 1, visible: { xs: false, sm: true } };
  * ```
  */
-export type BoxSpan = { spanX: number; spanY: number };
+export type BoxSpan<BP extends string = Breakpoint> = {
+  spanX: ResponsiveSpan<BP>;
+  spanY: ResponsiveSpan<BP>;
+  visible?: ResponsiveVisibility<BP>; // defaults to true
+};
+
+/**
+ * A box span resolved for a single breakpoint.
+ * `layoutToTx` resolves responsive spans before handing them to
+ * `ThemeForLayout.resolveBoxSpan`, so themes only deal with plain numbers.
+ *
+ * @example
+ * ```typescript
+ * // { spanX: { xs: 4, md: 6 }, spanY: 1 } at sm
+ * const atSm: ResolvedBoxSpan = { spanX: 4, spanY: 1 };
+ * ```
+ */
+export type ResolvedBoxSpan = { spanX: number; spanY: number };
+
+/**
+ * How transformations given in a layout combine with the theme's at a breakpoint.
+ * - `"replace"`: only the layout's transformations run
+ * - `"prepend"`: the layout's transformations run first, then the theme's
+ * - `"append"`: the theme's transformations run first, then the layout's (default)
+ */
+export type TransformationMergePolicy = "replace" | "prepend" | "append";
+
+/**
+ * Transformations a layout brings along for one section (`IDs` are block IDs) or
+ * for the whole layout (`IDs` are section IDs), merged with the theme's defaults.
+ *
+ * Lists and policies are mobile-first like spans: a breakpoint without a list uses
+ * the list of the nearest smaller breakpoint, and breakpoints below the first list
+ * keep the theme's transformations. Only the built-in transformations can be given
+ * here; custom transformations come from the theme.
+ *
+ * @template IDs - Identifiers the transformations move
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ * @property at - Transformations per breakpoint
+ * @property merge - Merge policy, for every breakpoint or per breakpoint (defaults to `"append"`)
+ *
+ * @example
+ * ```typescript
+ * // Pull block_3 up next to block_1 from md on, after the theme's stacking
+ * const override: TransformationOverride<'block_1' | 'block_3'> = {
+ *   at: { md: [{ alignToY: { from: { boxId: 'block_3' }, to: { boxId: 'block_1' } } }] },
+ * };
+ *
+ * // Replace the theme's transformations on phones only
+ * const phones: TransformationOverride<'block_1'> = {
+ *   at: { xs: [{ stackVertically: { gap: 0 } }], sm: [] },
+ *   merge: { xs: 'replace', sm: 'append' },
+ * };
+ * ```
+ */
+export type TransformationOverride<IDs extends NodeID, BP extends string = Breakpoint> = {
+  at: Partial<BPs<Array<BoxMovesProps<IDs>>, BP>>;
+  merge?: TransformationMergePolicy | Partial<BPs<TransformationMergePolicy, BP>>;
+};
+
+/**
+ * The blocks of one section with their spans, and optionally transformations
+ * merged with the theme's `sectionBoxTransforms`.
+ *
+ * @template blockIDs - Union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type SectionLayout<
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = Partial<Record<blockIDs, BoxSpan<BP>>> & {
+  transformations?: TransformationOverride<blockIDs, BP>;
+};
 
 /**
  * The basic layout structure of the design system.
  * Maps section IDs to their contained blocks with span configurations.
  * Uses partial records to allow flexible, incomplete layout definitions.
+ * Sections and the layout itself may carry `transformations` that are merged
+ * with the theme's defaults (see `TransformationOverride`).
  *
  * @example
  * ```typescript
@@ -51,7 +165,27 @@ export type BoxSpan = { spanX: number; spanY: number };
  *     block_1: { spanX: 8, spanY: 1 }
  *   }
  * };
+ *
+ * // Responsive spans are resolved per breakpoint by layoutToTx
+ * const cards: Layout = {
+ *   main: {
+ *     block_1: { spanX: { xs: 4, md: 6 }, spanY: 2 },
+ *   }
+ * };
+ *
+ * // Side by side from md, whatever the theme does
+ * const split: Layout = {
+ *   main: {
+ *     block_1: { spanX: 6, spanY: 4 },
+ *     block_2: { spanX: 6, spanY: 4 },
+ *     transformations: { at: { md: [{ stackHorizontally: {} }] }, merge: 'replace' },
+ *   }
+ * };
  * ```
+ *
+ * @template sectionIDs - Union type of section identifiers
+ * @template blockIDs - Union type of block identifiers
+ * @template BP - Breakpoint names used by responsive spans (defaults to the standard `BREAKPOINTS`)
  */
 // export type Layout = Partial<
 //   Record<SectionIDs, Partial<Record<BlocksIDs, BoxSpan>>>
@@ -59,8 +193,11 @@ export type BoxSpan = { spanX: number; spanY: number };
 
 export type Layout<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
-> = Partial<Record<sectionIDs, Partial<Record<blockIDs, BoxSpan>>>>;
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = Partial<Record<sectionIDs, SectionLayout<blockIDs, BP>>> & {
+  transformations?: TransformationOverride<sectionIDs, BP>;
+};
 
 // /**
 //  * Extracts all section IDs that are present in a specific layout.
@@ -141,6 +278,8 @@ export type Layout<
  * Each breakpoint can have multiple transformation operations applied in sequence.
  *
  * @template BoxId - The type of box identifiers that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -165,15 +304,42 @@ export type Layout<
  * };
  * ```
  */
-export type BoxTransformations<BoxId extends NodeID> = BPs<
-  Array<BoxMovesProps<BoxId>>
->;
+export type BoxTransformations<
+  BoxId extends NodeID,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = BPs<Array<BoxMovesProps<BoxId, Ext>>, BP>;
+
+/**
+ * Box transformations where only `xs` is required.
+ * Missing breakpoints inherit the transformations of the nearest smaller
+ * breakpoint (mobile-first) when the layout is resolved by `layoutTxToSectionLocal`.
+ *
+ * @template BoxId - The type of box identifiers that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * // xs and sm stack vertically, md and above stack horizontally
+ * const transformations: PartialBoxTransformations<'block_1' | 'block_2'> = {
+ *   xs: [{ stackVertically: {} }],
+ *   md: [{ stackHorizontally: { gap: 1 } }]
+ * };
+ * ```
+ */
+export type PartialBoxTransformations<
+  BoxId extends NodeID,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = PartialBps<Array<BoxMovesProps<BoxId, Ext>>, BP>;
 
 /**
  * Grid boxes configuration across breakpoints.
  * Maps block IDs to their GridBox configurations for each responsive breakpoint.
  *
  * @template BlockIDs - The union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -200,15 +366,33 @@ export type BoxTransformations<BoxId extends NodeID> = BPs<
  * };
  * ```
  */
-export type BPSGridBoxes<BlockIDs extends NodeID> = BPs<
-  Partial<Record<BlockIDs, GridBox>>
+export type BPSGridBoxes<BlockIDs extends NodeID, BP extends string = Breakpoint> = BPs<
+  Partial<Record<BlockIDs, GridBox>>,
+  BP
+>;
+
+/**
+ * Grid boxes where only `xs` is required.
+ * Missing breakpoints inherit a copy of the boxes of the nearest smaller
+ * breakpoint (mobile-first) when the layout is resolved by `layoutTxToSectionLocal`.
+ *
+ * @template BlockIDs - The union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+export type PartialBPSGridBoxes<BlockIDs extends NodeID, BP extends string = Breakpoint> = PartialBps<
+  Partial<Record<BlockIDs, GridBox>>,
+  BP
 >;
 
 /**
  * Combines grid boxes with optional transformations.
  * Represents a complete grid section with its boxes and potential transformations.
+ * Both records only require `xs`; missing breakpoints inherit from the nearest
+ * smaller breakpoint.
  *
  * @template BlockIDs - The union type of block identifiers in this section
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -254,18 +438,25 @@ export type BPSGridBoxes<BlockIDs extends NodeID> = BPs<
  * ```
  */
 
-export type GridBoxesAndTx<BlockIDs extends NodeID> = {
-  gridBoxes: BPSGridBoxes<BlockIDs>;
-  transformations?: BoxTransformations<BlockIDs>;
+export type GridBoxesAndTx<
+  BlockIDs extends NodeID,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = {
+  gridBoxes: PartialBPSGridBoxes<BlockIDs, BP>;
+  transformations?: PartialBoxTransformations<BlockIDs, Ext, BP>;
 };
 
 /**
  * Complete layout with grid boxes and transformations.
  * The fundamental layout structure that includes both static grid definitions
  * and dynamic transformations that can modify the layout at runtime.
+ * Layout-level transformations may omit breakpoints; they are inherited mobile-first.
  *
  * @template sectionIDs - Union type of section identifiers
  * @template blockIDs - Union type of block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -370,12 +561,37 @@ export type GridBoxesAndTx<BlockIDs extends NodeID> = {
  */
 export type LayoutWithTx<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
 > = {
-  sections: Record<sectionIDs, GridBoxesAndTx<blockIDs>>;
-  transformations?: BoxTransformations<sectionIDs>;
+  sections: Record<sectionIDs, GridBoxesAndTx<blockIDs, Ext, BP>>;
+  transformations?: PartialBoxTransformations<sectionIDs, Ext, BP>;
+  hiddenBoxes?: HiddenBoxes<sectionIDs, blockIDs, BP>;
 };
 
+/**
+ * Boxes omitted at some breakpoints, listed per section.
+ * Produced by `layoutToTx` from `BoxSpan.visible` and carried unchanged through
+ * every later stage, so the renderer knows which boxes to hide where.
+ *
+ * @template SectionID - The union type of section identifiers
+ * @template BlockIDs - The union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * const hidden: HiddenBoxes<'main', 'block_3'> = {
+ *   main: { block_3: ['xs'] }, // block_3 does not exist at xs
+ * };
+ * ```
+ */
+export type HiddenBoxes<
+  SectionID extends SectionIDs,
+  BlockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = Partial<Record<SectionID, Partial<Record<BlockIDs, BP[]>>>>;
+
 /**
  * Extracts all section IDs from a LayoutWithTx type.
  * Provides type-safe access to sections that exist in a specific layout with transformations.
@@ -418,6 +634,8 @@ export type LayoutWithTx<
  *
  * @template SectionID - The union type of section identifiers
  * @template BlockIDs - The union type of block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -451,12 +669,48 @@ export type LayoutWithTx<
  */
 export type LayoutSectionLocal<
   SectionID extends SectionIDs,
-  BlockIDs extends BlocksIDs
+  BlockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
 > = {
-  sections: Record<SectionID, BPSGridBoxes<BlockIDs>>;
-  transformations?: BoxTransformations<SectionID>;
+  sections: Record<SectionID, BPSGridBoxes<BlockIDs, BP>>;
+  transformations?: BoxTransformations<SectionID, Ext, BP>;
+  hiddenBoxes?: HiddenBoxes<SectionID, BlockIDs, BP>;
+  crossSectionTransformations?: CrossSectionTransformations<SectionID, BlockIDs, Ext, BP>;
 };
 
+/**
+ * Section transformations that target boxes of other sections, listed per section.
+ * `layoutTxToSectionLocal` sets them aside, and `layoutSectionBtoAbsolute` applies
+ * them once every box has its absolute position.
+ *
+ * @template SectionID - The union type of section identifiers
+ * @template BlockIDs - The union type of block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ *
+ * @example
+ * ```typescript
+ * // main's block_1 lines up with the logo column of the header
+ * const crossSection: CrossSectionTransformations<'main' | 'header', 'block_1'> = {
+ *   main: {
+ *     md: [{
+ *       alignToX: {
+ *         from: { boxId: 'block_1', anchor: 'bottomLeft' },
+ *         to: { sectionId: 'header', boxId: 'block_1', anchor: 'bottomLeft' }
+ *       }
+ *     }]
+ *   }
+ * };
+ * ```
+ */
+export type CrossSectionTransformations<
+  SectionID extends SectionIDs,
+  BlockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = Partial<Record<SectionID, Partial<BoxTransformations<BlockIDs, Ext, BP>>>>;
+
 /**
  * Layout with bounding boxes for each section.
  * Children boxes are still in relative grid coordinates within their sections,
@@ -465,16 +719,22 @@ export type LayoutSectionLocal<
  *
  * @template SectionID - The union type of section identifiers
  * @template BlockIDs - The union type of block identifiers
+ * @template Ext - Custom transformations registered next to the defaults
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  */
 
 export type LayoutSectionBounds<
   SectionID extends SectionIDs,
-  BlockIDs extends BlocksIDs
+  BlockIDs extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
 > = {
-  sections: Record<SectionID, BPSGridBoxes<BlockIDs>>;
-  boundingBoxes: BPs<Record<SectionID, GridBox>>;
-  transformations?: BoxTransformations<SectionID>;
+  sections: Record<SectionID, BPSGridBoxes<BlockIDs, BP>>;
+  boundingBoxes: BPs<Record<SectionID, GridBox>, BP>;
+  transformations?: BoxTransformations<SectionID, Ext, BP>;
+  hiddenBoxes?: HiddenBoxes<SectionID, BlockIDs, BP>;
+  crossSectionTransformations?: CrossSectionTransformations<SectionID, BlockIDs, Ext, BP>;
 };
 
 /**
@@ -482,11 +742,19 @@ export type LayoutSectionBounds<
  * Represents the final positioning of boxes after all transformations and
  * coordinate system conversions have been applied.
  * 
+ * `bounds` holds the rectangle of the section itself, the bounding box of its
+ * boxes after section placement, in the same grid lines. Sections hidden at a
+ * breakpoint have no bounds there. `layoutSectionBtoAbsolute` always sets it;
+ * it is optional so that hand-built coordinates stay valid. Use it for section
+ * backgrounds, full-bleed bands and separators.
+ * 
  * @template BlockIDs - The union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
   
  */
-export type BoxesCoordinates<BlockIDs extends NodeID> = {
-  coordinates: BPs<Partial<Record<BlockIDs, CSSCoordinates>>>;
+export type BoxesCoordinates<BlockIDs extends NodeID, BP extends string = Breakpoint> = {
+  coordinates: BPs<Partial<Record<BlockIDs, CSSCoordinates>>, BP>;
+  bounds?: Partial<BPs<CSSCoordinates, BP>>;
 };
 
 /**
@@ -496,17 +764,20 @@ export type BoxesCoordinates<BlockIDs extends NodeID> = {
  *
  * @template SectionID - The union type of section identifiers
  * @template BlockIDs - The union type of block identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  *
  */
 export type LayoutAbsolute<
   SectionID extends SectionIDs,
-  BlockIDs extends BlocksIDs
+  BlockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
 > = {
   gridDimensions: {
-    rows: BPs<number>;
-    columns: BPs<number>;
+    rows: BPs<number, BP>;
+    columns: BPs<number, BP>;
   };
-  sections: Record<SectionID, BoxesCoordinates<BlockIDs>>;
+  sections: Record<SectionID, BoxesCoordinates<BlockIDs, BP>>;
+  hiddenBoxes?: HiddenBoxes<SectionID, BlockIDs, BP>;
 };
 
 // =============================================================================
@@ -554,10 +825,10 @@ export type LayoutAbsolute<
 export type NodeRenderCtx<
   sectionID extends SectionIDs,
   blockIDs extends BlocksIDs,
-
+  BP extends string = Breakpoint
 > = {
   sectionId: sectionID;
-  bp: Breakpoint;
+  bp: BP;
   boxId: blockIDs;
   coords: CSSCoordinates;
 };
@@ -568,6 +839,7 @@ export type NodeRenderCtx<
  *
  * @template sectionID - The section identifier type
  * @template blockIDs - The block identifier type
+ * @template BP - The breakpoint type (defaults to all breakpoints)
  *
  * @example
  * ```typescript
@@ -595,10 +867,11 @@ export type NodeRenderCtx<
  */
 export type NodeRenderConfig<
   sectionID extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
 > = {
   contentRenderer?: (
-    ctx: NodeRenderCtx<sectionID, blockIDs>
+    ctx: NodeRenderCtx<sectionID, blockIDs, BP>
   ) => React.ReactNode;
   view?: GridNodeViewOptions;
 };
@@ -610,6 +883,7 @@ export type NodeRenderConfig<
  *
  * @template sectionID - The section identifier type
  * @template blockIDs - The block identifier type
+ * @template BP - The breakpoint type (defaults to all breakpoints)
  *
  * @example
  * ```typescript
@@ -651,8 +925,9 @@ export type NodeRenderConfig<
  */
 export type LayoutRenderingOverride<
   sectionID extends SectionIDs,
-  blockIDs extends BlocksIDs
-> = Partial<Record<sectionID, Partial<Record<blockIDs, NodeRenderConfig<sectionID, blockIDs>>>>>;
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = Partial<Record<sectionID, Partial<Record<blockIDs, NodeRenderConfig<sectionID, blockIDs, BP>>>>>;
 
 type SEC<L extends Layout<any, any>> = Extract<keyof L, SectionIDs>;
 type BLK<L extends Layout<any, any>, S extends SEC<L>> =
@@ -7,12 +7,21 @@
 export type {
   // Basic layout types
   BoxSpan,
+  ResponsiveSpan,
+  ResolvedBoxSpan,
+  ResponsiveVisibility,
+  HiddenBoxes,
   Layout,
+  SectionLayout,
+  TransformationOverride,
+  TransformationMergePolicy,
   
  
   // Transformation and grid box types
   BoxTransformations,
+  PartialBoxTransformations,
   BPSGridBoxes,
+  PartialBPSGridBoxes,
   GridBoxesAndTx,
   
   // Complete layout types
@@ -22,6 +31,7 @@ export type {
   // Layout processing types
   LayoutSectionLocal,
   LayoutSectionBounds,
+  CrossSectionTransformations,
   BoxesCoordinates,
   LayoutAbsolute,
   
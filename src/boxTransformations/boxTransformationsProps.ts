@@ -1,20 +1,24 @@
 /**
  * @fileoverview Box transformation properties and types for CSS Grid layout system.
  * Provides comprehensive type definitions for transforming boxes within layouts,
- * including movement, alignment, and stacking operations.
+ * including movement, alignment, stacking and resize operations.
  * @module BoxTransformationsProps
  */
 
 import { Anchor, GridBox } from "../../src/box/gridBoxTypes";
 import { Coordinate } from "../geometry";
 import { DiagnosticEntry } from "../gridErrorShape";
-import { NodeID } from "../templates/layoutIDs";
+import { NodeID, SectionIDs } from "../templates/layoutIDs";
 
 /**
  * Base properties for box transformations.
  * Defines the fundamental structure for identifying a box and its reference point.
  * The localIDs are the NodeIDs that can be used in box layouts.
  * 
+ * A target of a section transformation may name a box of another section by adding
+ * its `sectionId`. Such transformations run after the sections are placed, in
+ * `layoutSectionBtoAbsolute`, once all boxes share the same coordinates.
+ * 
  * @template BoxIDFrom - The type of box identifier that can be transformed
  * 
  * @example
@@ -23,9 +27,18 @@ import { NodeID } from "../templates/layoutIDs";
  *   boxId: 'block_1',
  *   anchor: 'topLeft'
  * };
+ * 
+ * // block_1 of the header section, e.g. as the target of a main block
+ * const logo: BoxPropBase<'block_1'> = {
+ *   sectionId: 'header',
+ *   boxId: 'block_1',
+ *   anchor: 'bottomLeft'
+ * };
  * ```
  */
 export type BoxPropBase<BoxIDFrom extends NodeID> = {
+  /** Section of the box, for targets in another section (defaults to the current one) */
+  sectionId?: SectionIDs;
   /** The identifier of the box to transform */
   boxId: BoxIDFrom;
   /** The anchor point on the box to use as reference for transformations */
@@ -157,6 +170,466 @@ export type BoxAlignXProps<BoxID extends NodeID> = {
   gap?: number;
 };
 
+/**
+ * Selects the boxes a transformation acts on.
+ * Either an explicit list of box ids, or every box except the excluded ones.
+ * 
+ * @template BoxID - The type of box identifier that can be selected
+ * 
+ * @example
+ * ```typescript
+ * // Only these boxes
+ * const cards: BoxSelector<BlocksIDs> = ['block_2', 'block_3', 'block_4'];
+ * 
+ * // Everything but the hero
+ * const allButHero: BoxSelector<BlocksIDs> = { exclude: ['block_1'] };
+ * ```
+ */
+export type BoxSelector<BoxID extends NodeID> = readonly BoxID[] | { exclude: readonly BoxID[] };
+
+/**
+ * Properties for aligning several boxes to the same coordinate.
+ * Every box in the section is aligned unless `boxes` selects a subset.
+ * 
+ * @template BoxID - The type of box identifier that can be aligned
+ * 
+ * @example
+ * ```typescript
+ * // Left edges of the cards on X=0, the hero stays where it is
+ * const alignCards: BoxAlignAllProps<BlocksIDs> = {
+ *   to: 0,
+ *   anchor: 'bottomLeft',
+ *   boxes: { exclude: ['block_1'] }
+ * };
+ * ```
+ */
+export type BoxAlignAllProps<BoxID extends NodeID> = {
+  /** Target coordinate on the alignment axis */
+  to: number;
+  /** The anchor of each box placed on the target */
+  anchor: Anchor;
+  /** Boxes to align (all boxes when omitted) */
+  boxes?: BoxSelector<BoxID>;
+};
+
+/**
+ * Cross-axis alignment of stacked boxes, relative to the line they form.
+ * The line starts at the smallest cross-axis origin and is as thick as the
+ * thickest box. `stretch` resizes every box to the line thickness.
+ * 
+ * @example
+ * ```typescript
+ * const centered: StackAlign = 'center';
+ * ```
+ */
+export type StackAlign = 'start' | 'center' | 'end' | 'stretch';
+
+/**
+ * Main-axis distribution of stacked boxes within `BoxStackProps.extent`.
+ * `packed` keeps boxes `gap` apart from 0; the other modes share the free
+ * space between boxes like their flexbox namesakes.
+ * 
+ * @example
+ * ```typescript
+ * const spread: StackDistribution = 'space-between';
+ * ```
+ */
+export type StackDistribution = 'packed' | 'space-between' | 'space-evenly';
+
+/**
+ * Properties for stacking boxes one after another.
+ * Only the boxes picked by `boxes` are stacked (all boxes when omitted); the
+ * others keep their position. Boxes listed in `order` are stacked first, in that order; the remaining boxes
+ * follow in key order. `reverse` flips the resulting sequence.
+ * 
+ * Without `align` boxes keep their cross-axis position. Distributions other than
+ * `packed` need an `extent` and ignore `gap`. Grid lines are integers, so shared
+ * space and centering offsets are rounded down.
+ * 
+ * @template BoxID - The type of box identifier that can be stacked
+ * 
+ * @example
+ * ```typescript
+ * // Sidebar before the main content, 16 units apart
+ * const sidebarFirst: BoxStackProps<'main' | 'sidebar'> = {
+ *   gap: 16,
+ *   order: ['sidebar', 'main']
+ * };
+ * 
+ * // Last box first
+ * const reversed: BoxStackProps<'block_1' | 'block_2'> = { reverse: true };
+ * 
+ * // Stack the cards, the hero stays pinned
+ * const cards: BoxStackProps<BlocksIDs> = { boxes: { exclude: ['block_1'] } };
+ * 
+ * // Spread over 12 columns, vertically centered on the tallest box
+ * const toolbar: BoxStackProps<'block_1' | 'block_2'> = {
+ *   align: 'center',
+ *   distribute: 'space-between',
+ *   extent: 12
+ * };
+ * ```
+ */
+export type BoxStackProps<BoxID extends NodeID> = {
+  /** Boxes to stack (all boxes when omitted) */
+  boxes?: BoxSelector<BoxID>;
+  /** Optional gap between consecutive boxes */
+  gap?: number;
+  /** Boxes to stack first, in this order */
+  order?: readonly BoxID[];
+  /** Stack the sequence back to front */
+  reverse?: boolean;
+  /** Cross-axis alignment (boxes keep their cross position when omitted) */
+  align?: StackAlign;
+  /** Main-axis distribution (defaults to `packed`) */
+  distribute?: StackDistribution;
+  /** Main-axis length the boxes are distributed in */
+  extent?: number;
+};
+
+/**
+ * Properties for flowing boxes left to right in wrapping rows.
+ * A box that would end past `maxWidth` starts a new row below the tallest box
+ * of the current one. Boxes are visited in `order` first, then in key order;
+ * `boxes` restricts the flow to a subset.
+ * 
+ * @template BoxID - The type of box identifier that can be flowed
+ * 
+ * @example
+ * ```typescript
+ * // Six 4-column cards on a 20-column grid: rows of four, then two
+ * const gallery: BoxFlowWrapProps<BlocksIDs> = {
+ *   maxWidth: 20,
+ *   columnGap: 1,
+ *   rowGap: 1
+ * };
+ * ```
+ */
+export type BoxFlowWrapProps<BoxID extends NodeID> = {
+  /** Width a row may not exceed */
+  maxWidth: number;
+  /** Optional gap between boxes of a row */
+  columnGap?: number;
+  /** Optional gap between rows */
+  rowGap?: number;
+  /** Boxes to place first, in this order */
+  order?: readonly BoxID[];
+  /** Boxes to flow (all boxes when omitted) */
+  boxes?: BoxSelector<BoxID>;
+};
+
+/**
+ * Properties for giving a box an explicit span.
+ * The origin stays where it is; an omitted span keeps its current value.
+ * 
+ * @template BoxID - The type of box identifier that can be resized
+ * 
+ * @example
+ * ```typescript
+ * const wide: BoxSetSpanProps<'block_1'> = { boxId: 'block_1', spanX: 8 };
+ * ```
+ */
+export type BoxSetSpanProps<BoxID extends NodeID> = {
+  /** The box to resize */
+  boxId: BoxID;
+  /** New number of columns */
+  spanX?: number;
+  /** New number of rows */
+  spanY?: number;
+};
+
+/**
+ * Properties for scaling a box's span by a factor.
+ * Results are rounded to whole tracks and never drop below one track.
+ * 
+ * @template BoxID - The type of box identifier that can be resized
+ * 
+ * @example
+ * ```typescript
+ * // Twice as wide and tall
+ * const double: BoxScaleProps<'block_1'> = { boxId: 'block_1', factor: 2 };
+ * 
+ * // Half as wide, same height
+ * const narrow: BoxScaleProps<'block_1'> = { boxId: 'block_1', factor: { x: 0.5, y: 1 } };
+ * ```
+ */
+export type BoxScaleProps<BoxID extends NodeID> = {
+  /** The box to resize */
+  boxId: BoxID;
+  /** Scale factor for both axes, or per axis */
+  factor: number | Coordinate;
+};
+
+/**
+ * Box edges that resize transformations can move.
+ * Named like the anchors: `left` and `bottom` are the origin side.
+ */
+export type BoxEdge = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * Properties for stretching one edge of a box to a position or to another box's anchor.
+ * The opposite edge stays in place.
+ * 
+ * @template BoxID - The type of box identifier that can be resized
+ * 
+ * @example
+ * ```typescript
+ * // Stretch the content's right edge to the aside's left edge
+ * const toAside: BoxStretchToProps<'content' | 'aside'> = {
+ *   boxId: 'content',
+ *   edge: 'right',
+ *   to: { boxId: 'aside', anchor: 'bottomLeft' }
+ * };
+ * ```
+ */
+export type BoxStretchToProps<BoxID extends NodeID> = {
+  /** The box to resize */
+  boxId: BoxID;
+  /** The edge to move */
+  edge: BoxEdge;
+  /** Target position - either absolute number or another box's anchor */
+  to: number | BoxPropBase<BoxID>;
+  /** Optional gap to keep between the edge and the target */
+  gap?: number;
+};
+
+/**
+ * Properties for letting a box take the width that is left in its section.
+ * The box grows to the right until the next box on its rows, or else until
+ * `width` (defaults to the right edge of all boxes, i.e. the section bounding box).
+ * 
+ * @template BoxID - The type of box identifier that can be resized
+ * 
+ * @example
+ * ```typescript
+ * // Main takes whatever the sidebar leaves of 20 columns
+ * const main: BoxFillRemainingProps<'main'> = { boxId: 'main', width: 20 };
+ * ```
+ */
+export type BoxFillRemainingProps<BoxID extends NodeID> = {
+  /** The box to resize */
+  boxId: BoxID;
+  /** Width of the area to fill, measured from x = 0 */
+  width?: number;
+  /** Optional gap to keep before the next box */
+  gap?: number;
+};
+
+/**
+ * Packing algorithm of the `pack` transformation.
+ * - `first-fit`: scans rows top to bottom, left to right, like CSS grid auto-placement
+ * - `skyline`: places each box where the column skyline is lowest (leftmost on ties)
+ * 
+ * @example
+ * ```typescript
+ * const strategy: PackStrategy = 'skyline';
+ * ```
+ */
+export type PackStrategy = 'first-fit' | 'skyline';
+
+/**
+ * Properties for packing boxes automatically into a fixed number of columns.
+ * Boxes keep their spans and are visited in `order` first, then in key order.
+ * Without `dense` the packing never goes back to holes left behind, like
+ * `grid-auto-flow: row`; with `dense` later boxes back-fill them, like
+ * `grid-auto-flow: row dense`. A box wider than `columns` is placed at column 0
+ * of its own row(s) and reported.
+ * 
+ * @template BoxID - The type of box identifier that can be packed
+ * 
+ * @example
+ * ```typescript
+ * // Articles packed into 12 columns, small ones filling the gaps
+ * const articles: BoxPackProps<BlocksIDs> = { columns: 12, strategy: 'skyline', dense: true };
+ * ```
+ */
+export type BoxPackProps<BoxID extends NodeID> = {
+  /** Number of columns to pack into */
+  columns: number;
+  /** Packing algorithm (defaults to `first-fit`) */
+  strategy?: PackStrategy;
+  /** Back-fill holes left by earlier boxes */
+  dense?: boolean;
+  /** Boxes to place first, in this order */
+  order?: readonly BoxID[];
+  /** Boxes to pack (all boxes when omitted) */
+  boxes?: BoxSelector<BoxID>;
+};
+
+/**
+ * Catalogue of the constraints understood by the `constrain` transformation.
+ * Edges follow the anchor names: `left` and `bottom` are the origin side of a box.
+ * 
+ * @template BoxID - The type of box identifier that can be constrained
+ */
+export type BoxConstraintsObject<BoxID extends NodeID> = {
+  /** `box` ends at least `gap` before `of` starts on the x axis */
+  leftOf: { box: BoxID; of: BoxID; gap?: number };
+  /** `box` ends at least `gap` before `of` starts on the y axis */
+  below: { box: BoxID; of: BoxID; gap?: number };
+  /** The boxes share their left edge */
+  sameLeft: readonly BoxID[];
+  /** The boxes share their bottom edge (origin y) */
+  sameBottom: readonly BoxID[];
+  /** The boxes share their top edge (origin y plus height) */
+  sameTop: readonly BoxID[];
+  /** The boxes take the width of the widest of them */
+  sameWidth: readonly BoxID[];
+  /** The boxes take the height of the tallest of them */
+  sameHeight: readonly BoxID[];
+  /** The boxes stay within the section area given by `width` and `height` */
+  inside: readonly BoxID[];
+};
+
+/**
+ * A single constraint, keyed by its name like the transformations themselves.
+ * 
+ * @template BoxID - The type of box identifier that can be constrained
+ * 
+ * @example
+ * ```typescript
+ * const sidebarFirst: BoxConstraint<'sidebar' | 'main'> = {
+ *   leftOf: { box: 'sidebar', of: 'main', gap: 1 }
+ * };
+ * const aligned: BoxConstraint<'sidebar' | 'main'> = { sameBottom: ['sidebar', 'main'] };
+ * ```
+ */
+export type BoxConstraint<BoxID extends NodeID> = {
+  [K in keyof BoxConstraintsObject<BoxID>]: { [P in K]: BoxConstraintsObject<BoxID>[P] };
+}[keyof BoxConstraintsObject<BoxID>];
+
+/**
+ * Properties for placing boxes by solving constraints together.
+ * Unlike a sequence of moves, a later constraint cannot undo an earlier one:
+ * all of them hold in the result, or none is applied.
+ * 
+ * Sizes are settled first (`sameWidth`, `sameHeight`), then each axis is solved
+ * as a system of difference constraints. On each axis the boxes named by its
+ * constraints are placed as close to 0 as the constraints allow; other boxes,
+ * and the other axis of a box, are left alone. `width` and `height` bound the
+ * section area for `inside`; without them `inside` only keeps boxes at or after 0.
+ * 
+ * @template BoxID - The type of box identifier that can be constrained
+ * 
+ * @example
+ * ```typescript
+ * // Sidebar left of main, both as tall as the taller one, within 12 columns
+ * const page: BoxConstrainProps<'sidebar' | 'main'> = {
+ *   constraints: [
+ *     { leftOf: { box: 'sidebar', of: 'main', gap: 1 } },
+ *     { sameBottom: ['sidebar', 'main'] },
+ *     { sameHeight: ['sidebar', 'main'] },
+ *     { inside: ['sidebar', 'main'] }
+ *   ],
+ *   width: 12
+ * };
+ * ```
+ */
+export type BoxConstrainProps<BoxID extends NodeID> = {
+  /** The constraints to satisfy together */
+  constraints: readonly BoxConstraint<BoxID>[];
+  /** Width of the section area for `inside` */
+  width?: number;
+  /** Height of the section area for `inside` */
+  height?: number;
+};
+
+/**
+ * Properties for transposing boxes, swapping rows and columns.
+ * The boxes are reflected across the diagonal through the lowest corner of their
+ * bounding box, so the section stays where it was and turns from landscape to portrait.
+ * 
+ * @template BoxID - The type of box identifier
+ * 
+ * @example
+ * ```typescript
+ * // A row of three cards becomes a column of three cards
+ * const portrait: BoxTransposeProps<'block_1'> = {};
+ * 
+ * // Transpose everything but the header
+ * const body: BoxTransposeProps<'header'> = { boxes: { exclude: ['header'] } };
+ * ```
+ */
+export type BoxTransposeProps<BoxID extends NodeID> = {
+  /** Which boxes to transpose (defaults to all boxes of the section) */
+  boxes?: BoxSelector<BoxID>;
+};
+
+/**
+ * Properties for exchanging the positions of two boxes.
+ * Each box is moved so that its `anchor` lands where the other box's anchor was;
+ * the boxes keep their spans.
+ * 
+ * @template BoxID - The type of box identifier that can be swapped
+ * 
+ * @example
+ * ```typescript
+ * // Sidebar and main trade places, aligned on their top-left corners
+ * const swapColumns: BoxSwapProps<'sidebar' | 'main'> = {
+ *   boxes: ['sidebar', 'main'],
+ *   anchor: 'topLeft'
+ * };
+ * ```
+ */
+export type BoxSwapProps<BoxID extends NodeID> = {
+  /** The two boxes to swap */
+  boxes: readonly [BoxID, BoxID];
+  /** The anchor exchanged between the boxes (defaults to `bottomLeft`) */
+  anchor?: Anchor;
+};
+
+/**
+ * Properties for centering a box within another box.
+ * Without `within` the box is centered in the section bounding box, i.e. the
+ * bounds of all boxes of the section. Offsets are rounded down to whole tracks.
+ * 
+ * @template BoxID - The type of box identifier that can be centered
+ * 
+ * @example
+ * ```typescript
+ * // Title centered horizontally over the section
+ * const title: BoxCenterInProps<'block_1'> = { boxId: 'block_1', axis: 'x' };
+ * 
+ * // Badge centered on the hero image
+ * const badge: BoxCenterInProps<'block_2' | 'block_1'> = { boxId: 'block_2', within: 'block_1' };
+ * ```
+ */
+export type BoxCenterInProps<BoxID extends NodeID> = {
+  /** The box to center */
+  boxId: BoxID;
+  /** The box to center in (defaults to the section bounding box) */
+  within?: BoxID;
+  /** The axis to center on (defaults to `both`) */
+  axis?: 'x' | 'y' | 'both';
+};
+
+/**
+ * Properties for arranging boxes in a matrix of `columns` columns.
+ * Boxes fill the matrix row by row, in `order` first and then in key order.
+ * Each column is as wide as its widest box and each row as tall as its tallest box,
+ * so boxes line up on both axes.
+ * 
+ * @template BoxID - The type of box identifier that can be arranged
+ * 
+ * @example
+ * ```typescript
+ * // Six KPI tiles in a 3 x 2 matrix
+ * const kpis: BoxGridifyProps<BlocksIDs> = { columns: 3, columnGap: 1, rowGap: 1 };
+ * ```
+ */
+export type BoxGridifyProps<BoxID extends NodeID> = {
+  /** Number of columns of the matrix */
+  columns: number;
+  /** Optional gap between columns */
+  columnGap?: number;
+  /** Optional gap between rows */
+  rowGap?: number;
+  /** Boxes to place first, in this order */
+  order?: readonly BoxID[];
+  /** Boxes to arrange (all boxes when omitted) */
+  boxes?: BoxSelector<BoxID>;
+};
+
 /**
  * Union type of all possible box transformation properties.
  * Enables type-safe handling of any individual box transformation operation.
@@ -212,14 +685,75 @@ export type BoxMovesPropsObject<BoxID extends NodeID> = {
   alignToY: BoxAlignYProps<BoxID>;
   /** Align a box to a specific X-coordinate or another box's X-position */
   alignToX: BoxAlignXProps<BoxID>;
-  /** Align all boxes to the same Y-coordinate using specified anchor */
-  alignAllToY: { to: number; anchor: Anchor };
-  /** Align all boxes to the same X-coordinate using specified anchor */
-  alignAllToX: { to: number; anchor: Anchor };
-  /** Stack all boxes vertically with optional gap */
-  stackVertically: { gap?: number };
-  /** Stack all boxes horizontally with optional gap */
-  stackHorizontally: { gap?: number };
+  /** Align all (or the selected) boxes to the same Y-coordinate using specified anchor */
+  alignAllToY: BoxAlignAllProps<BoxID>;
+  /** Align all (or the selected) boxes to the same X-coordinate using specified anchor */
+  alignAllToX: BoxAlignAllProps<BoxID>;
+  /** Stack all (or the selected) boxes vertically with optional gap and order */
+  stackVertically: BoxStackProps<BoxID>;
+  /** Stack all (or the selected) boxes horizontally with optional gap and order */
+  stackHorizontally: BoxStackProps<BoxID>;
+  /** Flow all boxes left to right, wrapping rows at a maximum width */
+  flowWrap: BoxFlowWrapProps<BoxID>;
+  /** Give a box an explicit span */
+  setSpan: BoxSetSpanProps<BoxID>;
+  /** Scale a box's span by a factor */
+  scale: BoxScaleProps<BoxID>;
+  /** Stretch one edge of a box to a position or another box's anchor */
+  stretchTo: BoxStretchToProps<BoxID>;
+  /** Grow a box over the width left in its section */
+  fillRemaining: BoxFillRemainingProps<BoxID>;
+  /** Exchange the positions of two boxes */
+  swap: BoxSwapProps<BoxID>;
+  /** Center a box within another box or the section bounding box */
+  centerIn: BoxCenterInProps<BoxID>;
+  /** Arrange boxes in a matrix with a fixed number of columns */
+  gridify: BoxGridifyProps<BoxID>;
+  /** Pack boxes automatically into a fixed number of columns */
+  pack: BoxPackProps<BoxID>;
+  /** Place boxes by solving layout constraints together */
+  constrain: BoxConstrainProps<BoxID>;
+  /** Swap rows and columns of all (or the selected) boxes */
+  transpose: BoxTransposeProps<BoxID>;
+};
+
+/**
+ * Catalogue of custom transformations registered next to the defaults.
+ * Maps each custom transformation name to the props object it accepts.
+ * Custom names may not shadow the built-in transformation names.
+ * 
+ * @example
+ * ```typescript
+ * type CompanyMoves = {
+ *   dockToSidebar: { boxId: BlocksIDs; side: 'left' | 'right' };
+ * };
+ * 
+ * const dock: BoxMovesProps<BlocksIDs, CompanyMoves> = {
+ *   dockToSidebar: { boxId: 'block_2', side: 'left' }
+ * };
+ * ```
+ */
+export type CustomBoxMovesProps = {
+  [transformation: string]: object;
+} & {
+  [M in keyof BoxMovesPropsObject<any>]?: never;
+};
+
+/**
+ * Built-in transformations merged with a custom transformation catalogue.
+ * 
+ * @template BoxID - The type of box identifier that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
+ */
+export type BoxMovesPropsRegistry<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps = {}
+> = {
+  [M in TransformationIDs<BoxID, Ext>]: M extends keyof BoxMovesPropsObject<any>
+    ? BoxMovesPropsObject<BoxID>[M]
+    : M extends keyof Ext
+      ? Ext[M]
+      : never;
 };
 
 /**
@@ -227,9 +761,12 @@ export type BoxMovesPropsObject<BoxID extends NodeID> = {
  * Provides type-safe access to all available transformation names.
  * 
  * @template BoxID - The type of box identifier
+ * @template Ext - Custom transformations registered next to the defaults
  */
-export type TransformationIDs<BoxID extends NodeID> =
-  keyof BoxMovesPropsObject<BoxID>;
+export type TransformationIDs<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps = {}
+> = keyof BoxMovesPropsObject<any> | Extract<keyof Ext, string>;
 
 /**
  * Constant array of all available transformation IDs.
@@ -252,6 +789,17 @@ export const transformationIDs = [
   "alignAllToX",
   "stackVertically",
   "stackHorizontally",
+  "flowWrap",
+  "setSpan",
+  "scale",
+  "stretchTo",
+  "fillRemaining",
+  "swap",
+  "centerIn",
+  "gridify",
+  "pack",
+  "constrain",
+  "transpose",
 ] as const satisfies readonly TransformationIDs<any>[];
 
 /**
@@ -260,6 +808,7 @@ export const transformationIDs = [
  * is identified by its unique key and contains the corresponding properties.
  * 
  * @template BoxID - The type of box identifier that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
  * 
  * @example
  * ```typescript
@@ -282,11 +831,20 @@ export const transformationIDs = [
  * ];
  * ```
  */
-export type BoxMovesProps<BoxID extends NodeID> = {
-  [M in keyof BoxMovesPropsObject<any>]: {
-    [K in M]: BoxMovesPropsObject<BoxID>[M];
-  };
-}[keyof BoxMovesPropsObject<any>];
+export type BoxMovesProps<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps = {}
+> =
+  | {
+      [M in keyof BoxMovesPropsObject<any>]: {
+        [K in M]: BoxMovesPropsObject<BoxID>[M];
+      };
+    }[keyof BoxMovesPropsObject<any>]
+  | {
+      [M in Extract<keyof Ext, string>]: {
+        [K in M]: Ext[M];
+      };
+    }[Extract<keyof Ext, string>];
 
 /**
  * Union type of all possible box transformation identifiers.
@@ -303,6 +861,7 @@ export type AllBoxMovesProps<BoxID extends NodeID> =
  * including the transformation properties, current box state, and diagnostics.
  * 
  * @template BoxID - The type of box identifier that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
  * 
  * @example
  * ```typescript
@@ -319,10 +878,13 @@ export type AllBoxMovesProps<BoxID extends NodeID> =
  * };
  * ```
  */
-export type BoxMovesFunctionsProps<BoxID extends NodeID> = {
-  [M in keyof BoxMovesPropsObject<any>]: {
+export type BoxMovesFunctionsProps<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps = {}
+> = {
+  [M in TransformationIDs<BoxID, Ext>]: {
     /** The specific transformation properties */
-    boxprops: BoxMovesPropsObject<BoxID>[M];
+    boxprops: BoxMovesPropsRegistry<BoxID, Ext>[M];
     /** Current state of all boxes in the layout */
     boxes: Partial<Record<NodeID, GridBox>>;
     /** Array for recording diagnostic information and errors */
@@ -341,7 +903,11 @@ export type BoxMovesFunctionsProps<BoxID extends NodeID> = {
  * - May modify the diagnostics array to record errors or warnings
  * - Assumes in-place transformation of the boxes array
  * 
+ * Custom transformations listed in `Ext` must be implemented next to the
+ * defaults, usually by spreading `DefaultBoxTransformations()` into the registry.
+ * 
  * @template BoxID - The type of box identifier that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
  * 
  * @example
  * ```typescript
@@ -363,12 +929,37 @@ export type BoxMovesFunctionsProps<BoxID extends NodeID> = {
  * };
  * ```
  */
-export type BoxMovesFunctions<BoxID extends NodeID> = {
-  [M in keyof BoxMovesPropsObject<any>]: (
-    props: BoxMovesFunctionsProps<BoxID>[M]
+export type BoxMovesFunctions<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps = {}
+> = {
+  [M in TransformationIDs<BoxID, Ext>]: (
+    props: BoxMovesFunctionsProps<BoxID, Ext>[M]
   ) => GridBox | undefined | Partial<Record<NodeID, GridBox>>;
 };
 
+/**
+ * Function signatures for the custom part of a transformation registry.
+ * Only the transformations listed in `Ext` have to be implemented; the
+ * built-in ones come from `DefaultBoxTransformations()`.
+ * 
+ * @template BoxID - The type of box identifier that can be transformed
+ * @template Ext - Custom transformations registered next to the defaults
+ * 
+ * @example
+ * ```typescript
+ * const companyMoves: CustomBoxMovesFunctions<NodeID, CompanyMoves> = {
+ *   dockToSidebar: ({ boxprops, boxes, diagnostics }) => boxes[boxprops.boxId]
+ * };
+ * ```
+ */
+export type CustomBoxMovesFunctions<
+  BoxID extends NodeID,
+  Ext extends CustomBoxMovesProps
+> = {
+  [M in Extract<keyof Ext, string>]: BoxMovesFunctions<BoxID, Ext>[M];
+};
+
 /**
  * @example Example Usage Scenarios
  * 
@@ -513,6 +1104,97 @@ const stackHorizontallyExample: BoxMovesProps<'nav' | 'sidebar'> = {
   }
 };
 
+const flowWrapExample: BoxMovesProps<'block_1' | 'block_2' | 'block_3'> = {
+  flowWrap: {
+    maxWidth: 20,
+    columnGap: 1,
+    rowGap: 1
+  }
+};
+
+const setSpanExample: BoxMovesProps<'block_1'> = {
+  setSpan: {
+    boxId: 'block_1',
+    spanX: 8
+  }
+};
+
+const scaleExample: BoxMovesProps<'block_1'> = {
+  scale: {
+    boxId: 'block_1',
+    factor: { x: 0.5, y: 1 }
+  }
+};
+
+const stretchToExample: BoxMovesProps<'content' | 'aside'> = {
+  stretchTo: {
+    boxId: 'content',
+    edge: 'right',
+    to: { boxId: 'aside', anchor: 'bottomLeft' }
+  }
+};
+
+const fillRemainingExample: BoxMovesProps<'main'> = {
+  fillRemaining: {
+    boxId: 'main',
+    width: 20
+  }
+};
+
+const swapExample: BoxMovesProps<'main' | 'sidebar'> = {
+  swap: {
+    boxes: ['sidebar', 'main'],
+    anchor: 'topLeft'
+  }
+};
+
+const centerInExample: BoxMovesProps<'block_1' | 'block_2'> = {
+  centerIn: {
+    boxId: 'block_2',
+    within: 'block_1'
+  }
+};
+
+const gridifyExample: BoxMovesProps<'block_1' | 'block_2' | 'block_3'> = {
+  gridify: {
+    columns: 3,
+    columnGap: 1,
+    rowGap: 1
+  }
+};
+
+const packExample: BoxMovesProps<'block_1' | 'block_2' | 'block_3'> = {
+  pack: {
+    columns: 12,
+    strategy: 'skyline',
+    dense: true
+  }
+};
+
+const constrainExample: BoxMovesProps<'sidebar' | 'main'> = {
+  constrain: {
+    constraints: [
+      { leftOf: { box: 'sidebar', of: 'main', gap: 1 } },
+      { sameBottom: ['sidebar', 'main'] },
+      { inside: ['sidebar', 'main'] }
+    ],
+    width: 12
+  }
+};
+
+const transposeExample: BoxMovesProps<'header' | 'main'> = {
+  transpose: {
+    boxes: { exclude: ['header'] }
+  }
+};
+
+const stackOrderedExample: BoxMovesProps<'main' | 'sidebar'> = {
+  stackHorizontally: {
+    order: ['sidebar', 'main'],
+    reverse: false
+  }
+};
+
 const alignAllToYExample: BoxMovesProps<'header' | 'footer'> = {
   alignAllToY: {
     to: 100,
@@ -7,16 +7,23 @@
 
 import { boxPosition } from "../box/boxPositions";
 import { GridBox } from "../box/gridBoxTypes";
-import { makeGridBox } from "../box/gridBoxUtils";
-import { Coordinate, addCoordinates, subtractCoordinates } from "../geometry";
-import { DiagnosticEntry, GRID_ERROR_CODE, makeError } from "../gridErrorShape";
+import { makeGridBox, transformGridBox } from "../box/gridBoxUtils";
+import { Coordinate, addCoordinates, boundingBox, subtractCoordinates, transposition } from "../geometry";
+import { DiagnosticEntry, GRID_ERROR_CODE, makeError, makeWarning } from "../gridErrorShape";
 import { NodeID } from "../templates/layoutIDs";
 import {
     AllBoxMovesProps,
     BoxMovesFunctions,
     BoxMovesFunctionsProps,
-    BoxPropBase
+    BoxPropBase,
+    BoxConstraint,
+    BoxConstraintsObject,
+    BoxSelector,
+    BoxStackProps,
+    CustomBoxMovesFunctions,
+    CustomBoxMovesProps
 } from "./boxTransformationsProps";
+import { DifferenceEdge, solveDifferenceConstraints } from "./differenceConstraints";
 
 /**
  * Utility function to resolve coordinate targets from various input types.
@@ -143,6 +150,232 @@ function validateBoxFrom(
   return boxFrom;
 }
 
+/**
+ * Helper function to resolve the boxes a selector picks, in key order.
+ * Without a selector every box is picked. Ids in the selector that are not
+ * among the boxes are skipped with a warning.
+ * 
+ * @param selector - Explicit id list, exclusion list, or undefined for all boxes
+ * @param boxes - Sparse map object containing all available boxes
+ * @param diagnostics - Array to record unknown box names
+ * @param source - The transformation type making this call (for error reporting)
+ * @returns The selected box IDs in key order
+ * 
+ * @example
+ * ```typescript
+ * // boxes: { block_1, block_2, block_3 }
+ * selectBoxes({ exclude: ['block_1'] }, boxes, diagnostics, "stackVertically");
+ * // Result: ['block_2', 'block_3']
+ * ```
+ */
+function selectBoxes(
+  selector: BoxSelector<NodeID> | undefined,
+  boxes: Partial<Record<NodeID, GridBox>>,
+  diagnostics: DiagnosticEntry[],
+  source: AllBoxMovesProps<any>
+): NodeID[] {
+  const all = Object.keys(boxes) as NodeID[];
+
+  if (!selector) {
+    return all;
+  }
+
+  const listed = Array.isArray(selector)
+    ? (selector as readonly NodeID[])
+    : (selector as { exclude: readonly NodeID[] }).exclude ?? [];
+
+  for (const id of listed) {
+    if (!boxes[id]) {
+      diagnostics.push(
+        makeWarning(
+          source,
+          GRID_ERROR_CODE.UNKNOWN_NODE_ID,
+          `${source} transformation has unknown boxId in 'boxes': ${id}`
+        )
+      );
+    }
+  }
+
+  return Array.isArray(selector)
+    ? all.filter((id) => listed.includes(id))
+    : all.filter((id) => !listed.includes(id));
+}
+
+/**
+ * Helper function to resolve the sequence in which stack transformations visit boxes.
+ * Only the boxes picked by `boxes` are visited. Boxes named in `order` come first,
+ * in that order; the others follow in key order.
+ * Names in `order` that are not among the boxes are skipped with a warning,
+ * names outside the selection are skipped silently.
+ * 
+ * @param stackProps - The stack properties carrying the optional selection, order and reverse flag
+ * @param boxes - Sparse map object containing all available boxes
+ * @param diagnostics - Array to record unknown box names
+ * @param source - The transformation type making this call (for error reporting)
+ * @returns The box IDs in stacking order
+ * 
+ * @example
+ * ```typescript
+ * // boxes: { main, sidebar, footer }
+ * stackSequence({ order: ['sidebar'] }, boxes, diagnostics, "stackHorizontally");
+ * // Result: ['sidebar', 'main', 'footer']
+ * 
+ * stackSequence({ order: ['sidebar'], reverse: true }, boxes, diagnostics, "stackHorizontally");
+ * // Result: ['footer', 'main', 'sidebar']
+ * ```
+ */
+function stackSequence(
+  stackProps: BoxStackProps<NodeID>,
+  boxes: Partial<Record<NodeID, GridBox>>,
+  diagnostics: DiagnosticEntry[],
+  source: AllBoxMovesProps<any>
+): NodeID[] {
+  const { order = [], reverse } = stackProps;
+  const selected = selectBoxes(stackProps.boxes, boxes, diagnostics, source);
+  const sequence: NodeID[] = [];
+
+  for (const id of order) {
+    if (!boxes[id]) {
+      diagnostics.push(
+        makeWarning(
+          source,
+          GRID_ERROR_CODE.UNKNOWN_NODE_ID,
+          `${source} transformation has unknown boxId in 'order': ${id}`
+        )
+      );
+      continue;
+    }
+    if (selected.includes(id) && !sequence.includes(id)) {
+      sequence.push(id);
+    }
+  }
+
+  for (const id of selected) {
+    if (!sequence.includes(id)) {
+      sequence.push(id);
+    }
+  }
+
+  return reverse ? sequence.reverse() : sequence;
+}
+
+/**
+ * Helper function to compute where a stack starts and how far apart its boxes are.
+ * `packed` starts at 0 and uses `gap`; the other distributions share the space
+ * left in `extent` and round it down to whole grid tracks.
+ * 
+ * @param stackProps - The stack properties carrying gap, distribution and extent
+ * @param sizes - Main-axis sizes of the stacked boxes, in stacking order
+ * @param diagnostics - Array to record invalid parameters or overflowing stacks
+ * @param source - The transformation type making this call (for error reporting)
+ * @returns The first position and the spacing, or undefined if the parameters are invalid
+ * 
+ * @example
+ * ```typescript
+ * stackSpacing({ distribute: 'space-between', extent: 12 }, [2, 2, 2], diagnostics, "stackHorizontally");
+ * // Result: { start: 0, gap: 3 }
+ * 
+ * stackSpacing({ distribute: 'space-evenly', extent: 12 }, [2, 2, 2], diagnostics, "stackHorizontally");
+ * // Result: { start: 1, gap: 1 }
+ * ```
+ */
+function stackSpacing(
+  stackProps: BoxStackProps<NodeID>,
+  sizes: number[],
+  diagnostics: DiagnosticEntry[],
+  source: AllBoxMovesProps<any>
+): { start: number; gap: number } | undefined {
+  const { gap = 0, distribute = "packed", extent } = stackProps;
+
+  if (distribute === "packed") {
+    return { start: 0, gap };
+  }
+
+  if (extent === undefined) {
+    diagnostics.push(
+      makeError(
+        source,
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `${source} transformation needs an 'extent' to distribute boxes ${distribute}`
+      )
+    );
+    return undefined;
+  }
+
+  const free = extent - sizes.reduce((sum, size) => sum + size, 0);
+
+  if (free < 0) {
+    diagnostics.push(
+      makeWarning(
+        source,
+        GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+        `${source} transformation boxes exceed the extent ${extent}; stacking them packed`
+      )
+    );
+    return { start: 0, gap };
+  }
+
+  if (distribute === "space-between") {
+    return { start: 0, gap: sizes.length > 1 ? Math.floor(free / (sizes.length - 1)) : 0 };
+  }
+
+  const space = Math.floor(free / (sizes.length + 1));
+  return { start: space, gap: space };
+}
+
+/**
+ * Helper function to align stacked boxes on the cross axis.
+ * The line formed by the boxes starts at their smallest cross-axis origin and is as
+ * thick as the thickest box; each box is moved (or resized, for `stretch`) within it.
+ * 
+ * @param stacked - The stacked boxes, updated in-place
+ * @param boxes - Sparse map object containing all available boxes, updated in-place
+ * @param stackProps - The stack properties carrying the alignment
+ * @param axis - The cross axis ('y' for horizontal stacks, 'x' for vertical ones)
+ * 
+ * @example
+ * ```typescript
+ * // After a horizontal stack: center every box on the tallest one
+ * alignStackCross(newBoxes, boxes, { align: 'center' }, 'y');
+ * ```
+ */
+function alignStackCross(
+  stacked: Partial<Record<NodeID, GridBox>>,
+  boxes: Partial<Record<NodeID, GridBox>>,
+  stackProps: BoxStackProps<NodeID>,
+  axis: "x" | "y"
+): void {
+  const { align } = stackProps;
+
+  if (!align) {
+    return;
+  }
+
+  const ids = Object.keys(stacked) as NodeID[];
+  const lineStart = Math.min(...ids.map((id) => stacked[id]!.origin[axis]));
+  const thickness = Math.max(...ids.map((id) => stacked[id]!.diagonal[axis]));
+
+  for (const id of ids) {
+    const box = stacked[id]!;
+    const size = align === "stretch" ? thickness : box.diagonal[axis];
+
+    let offset = 0;
+    if (align === "center") {
+      offset = Math.floor((thickness - size) / 2);
+    } else if (align === "end") {
+      offset = thickness - size;
+    }
+
+    const newBox = makeGridBox(
+      { ...box.origin, [axis]: lineStart + offset },
+      { ...box.diagonal, [axis]: size }
+    );
+
+    stacked[id] = newBox;
+    boxes[id] = newBox;
+  }
+}
+
 /**
  * Moves a box to a specific target position.
  * Calculates the displacement needed to move the specified anchor of the source box
@@ -474,7 +707,7 @@ const alignToX = (props: BoxMovesFunctionsProps<NodeID>["alignToX"]) => {
  * creating a vertical line of aligned elements.
  * 
  * The transformation:
- * 1. Iterates through all boxes in the collection
+ * 1. Iterates through all boxes in the collection (or the ones picked by `boxes`)
  * 2. Applies alignToX to each box using the specified anchor and target X position
  * 3. Collects successfully transformed boxes
  * 4. Updates the boxes collection in-place
@@ -502,8 +735,7 @@ const alignAllToX = (props: BoxMovesFunctionsProps<NodeID>["alignAllToX"]) => {
 
   let newBoxes: Partial<Record<NodeID, GridBox>> = {};
 
-  for (const boxId in boxes) {
-    const id = boxId as NodeID;
+  for (const id of selectBoxes(boxprops.boxes, boxes, diagnostics, "alignAllToX")) {
     const newBox = alignToX({
       boxprops: {
         from: {
@@ -542,7 +774,7 @@ const alignAllToX = (props: BoxMovesFunctionsProps<NodeID>["alignAllToX"]) => {
  * creating a horizontal line of aligned elements.
  * 
  * The transformation:
- * 1. Iterates through all boxes in the collection
+ * 1. Iterates through all boxes in the collection (or the ones picked by `boxes`)
  * 2. Applies alignToY to each box using the specified anchor and target Y position
  * 3. Collects successfully transformed boxes
  * 4. Updates the boxes collection in-place
@@ -571,8 +803,7 @@ const alignAllToY = (props: BoxMovesFunctionsProps<NodeID>["alignAllToY"]) => {
 
   let newBoxes: Partial<Record<NodeID, GridBox>> = {};
 
-  for (const boxId in boxes) {
-    const id = boxId as NodeID;
+  for (const id of selectBoxes(boxprops.boxes, boxes, diagnostics, "alignAllToY")) {
 
     const newBox = alignToY({
       boxprops: {
@@ -610,13 +841,15 @@ const alignAllToY = (props: BoxMovesFunctionsProps<NodeID>["alignAllToY"]) => {
  * Arranges boxes in a horizontal stack with optional spacing.
  * Positions boxes side by side from left to right, with each box's left edge
  * aligned to the right edge of the previous box plus optional gap.
+ * Boxes are visited in `order` first, then in key order, optionally reversed.
  * 
  * The transformation:
- * 1. Starts with X position at 0
+ * 1. Starts with X position at 0 (or the leading space of `space-evenly`)
  * 2. For each box, aligns its bottomLeft anchor to current X position
- * 3. Updates X position to box's right edge plus gap
+ * 3. Updates X position to box's right edge plus gap (or the distributed spacing)
  * 4. Continues for all boxes, creating a horizontal sequence
- * 5. Updates the boxes collection in-place
+ * 5. Aligns the boxes vertically when `align` is given
+ * 6. Updates the boxes collection in-place
  * 
  * @param props - StackHorizontally transformation properties including optional gap
  * @returns Partial record of transformed boxes, or undefined if no boxes were processed
@@ -636,6 +869,20 @@ const alignAllToY = (props: BoxMovesFunctionsProps<NodeID>["alignAllToY"]) => {
  *   boxes: existingBoxes,
  *   diagnostics: []
  * });
+ * 
+ * // Sidebar to the left of the main content
+ * const result3 = stackHorizontally({
+ *   boxprops: { order: ['sidebar', 'main'] },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * 
+ * // Toolbar spread over 12 columns, boxes vertically centered
+ * const result4 = stackHorizontally({
+ *   boxprops: { align: 'center', distribute: 'space-between', extent: 12 },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
  * ```
  */
 // stack boxes horizontally with an optional gap
@@ -643,14 +890,24 @@ const stackHorizontally = (
   props: BoxMovesFunctionsProps<NodeID>["stackHorizontally"]
 ) => {
   const { boxprops, boxes, diagnostics } = props;
-  const { gap } = boxprops;
 
   let newBoxes: Partial<Record<NodeID, GridBox>> = {};
 
-  let x0 = 0;
+  const sequence = stackSequence(boxprops, boxes, diagnostics, "stackHorizontally");
+  const spacing = stackSpacing(
+    boxprops,
+    sequence.map((id) => boxes[id]!.diagonal.x),
+    diagnostics,
+    "stackHorizontally"
+  );
+
+  if (!spacing) {
+    return undefined;
+  }
 
-  for (const boxId in boxes) {
-    const id = boxId as NodeID;
+  let x0 = spacing.start;
+
+  for (const id of sequence) {
     const newBox = alignToX({
       boxprops: {
         from: {
@@ -665,11 +922,13 @@ const stackHorizontally = (
 
     if (newBox) {
       newBoxes[id] = newBox;
-      x0 += newBox.diagonal.x + (gap ? gap : 0);
+      x0 += newBox.diagonal.x + spacing.gap;
       boxes[id] = newBox;
     }
   }
 
+  alignStackCross(newBoxes, boxes, boxprops, "y");
+
   if (Object.keys(newBoxes).length === 0) {
     diagnostics.push(
       makeError(
@@ -689,13 +948,15 @@ const stackHorizontally = (
  * Arranges boxes in a vertical stack with optional spacing.
  * Positions boxes one above another from bottom to top, with each box's bottom edge
  * aligned to the top edge of the previous box plus optional gap.
+ * Boxes are visited in `order` first, then in key order, optionally reversed.
  * 
  * The transformation:
- * 1. Starts with Y position at 0
+ * 1. Starts with Y position at 0 (or the leading space of `space-evenly`)
  * 2. For each box, aligns its bottomLeft anchor to current Y position
- * 3. Updates Y position to box's top edge plus gap
+ * 3. Updates Y position to box's top edge plus gap (or the distributed spacing)
  * 4. Continues for all boxes, creating a vertical sequence
- * 5. Updates the boxes collection in-place
+ * 5. Aligns the boxes horizontally when `align` is given
+ * 6. Updates the boxes collection in-place
  * 
  * @param props - StackVertically transformation properties including optional gap
  * @returns Partial record of transformed boxes, or undefined if no boxes were processed
@@ -722,14 +983,24 @@ const stackVertically = (
   props: BoxMovesFunctionsProps<NodeID>["stackVertically"]
 ) => {
   const { boxprops, boxes, diagnostics } = props;
-  const { gap } = boxprops;
 
   let newBoxes: Partial<Record<NodeID, GridBox>> = {};
 
-  let y0 = 0;
+  const sequence = stackSequence(boxprops, boxes, diagnostics, "stackVertically");
+  const spacing = stackSpacing(
+    boxprops,
+    sequence.map((id) => boxes[id]!.diagonal.y),
+    diagnostics,
+    "stackVertically"
+  );
+
+  if (!spacing) {
+    return undefined;
+  }
 
-  for (const boxId in boxes) {
-    const id = boxId as NodeID;
+  let y0 = spacing.start;
+
+  for (const id of sequence) {
     const newBox = alignToY({
       boxprops: {
         from: {
@@ -744,11 +1015,13 @@ const stackVertically = (
 
     if (newBox) {
       newBoxes[id] = newBox;
-      y0 += newBox.diagonal.y + (gap ? gap : 0);
+      y0 += newBox.diagonal.y + spacing.gap;
       boxes[id] = newBox;
     }
   }
 
+  alignStackCross(newBoxes, boxes, boxprops, "x");
+
   if (Object.keys(newBoxes).length === 0) {
     diagnostics.push(
       makeError(
@@ -765,114 +1038,1262 @@ const stackVertically = (
 };
 
 /**
- * Factory function that creates the default transformation registry.
- * Returns a complete implementation of all box transformation functions
- * defined in the BoxMovesFunctions interface. This serves as the standard
- * implementation of the transformation system.
+ * Flows boxes left to right in rows that wrap at a maximum width.
+ * Each row starts at X = 0 below the previous one; a row is as tall as its
+ * tallest box. This is the layout of card galleries and KPI rows.
  * 
- * The registry provides implementations for:
- * - `moveTo`: Move box to specific position or another box's anchor
- * - `moveBy`: Move box by relative amount
- * - `alignToY`: Align box vertically while preserving X position
- * - `alignToX`: Align box horizontally while preserving Y position
- * - `alignAllToX`: Align all boxes to same X coordinate
- * - `alignAllToY`: Align all boxes to same Y coordinate
- * - `stackHorizontally`: Arrange boxes in horizontal sequence
- * - `stackVertically`: Arrange boxes in vertical sequence
+ * The transformation:
+ * 1. Validates `maxWidth`
+ * 2. Visits boxes in `order` first, then in key order
+ * 3. Starts a new row when the next box would end past `maxWidth`
+ * 4. Places each box at the current X and row Y, then advances X by its width plus columnGap
+ * 5. Updates the boxes collection in-place
  * 
- * @returns Complete registry of transformation functions
+ * A box wider than `maxWidth` gets a row of its own and a warning.
+ * 
+ * @param props - FlowWrap transformation properties including maximum width and gaps
+ * @returns Partial record of transformed boxes, or undefined if no boxes were processed
  * 
  * @example
  * ```typescript
- * // Get the default transformation registry
- * const transformations = DefaultBoxTransformations();
- * 
- * // Use a specific transformation
- * const result = transformations.moveTo({
- *   boxprops: {
- *     from: { boxId: 'block_1', anchor: 'center' },
- *     to: { x: 100, y: 200 }
- *   },
- *   boxes: myBoxes,
- *   diagnostics: []
- * });
- * 
- * // Apply multiple transformations
- * transformations.stackHorizontally({
- *   boxprops: { gap: 20 },
- *   boxes: myBoxes,
- *   diagnostics: []
- * });
- * 
- * transformations.alignAllToY({
- *   boxprops: { to: 100, anchor: 'center' },
- *   boxes: myBoxes,
+ * // Six 4-column cards on a 20-column grid: rows of four, then two
+ * const result = flowWrap({
+ *   boxprops: { maxWidth: 20, columnGap: 1, rowGap: 1 },
+ *   boxes: existingBoxes,
  *   diagnostics: []
  * });
  * ```
  */
-// the factory of default transformations
-// a registry of all verbs
-export const DefaultBoxTransformations = (): BoxMovesFunctions<NodeID> => {
-  return {
-    moveTo: moveTo,
+const flowWrap = (props: BoxMovesFunctionsProps<NodeID>["flowWrap"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { maxWidth, columnGap = 0, rowGap = 0 } = boxprops;
 
-    moveBy: moveBy,
+  if (typeof maxWidth !== "number" || !(maxWidth > 0)) {
+    diagnostics.push(
+      makeError(
+        "flowWrap",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `flowWrap transformation needs a positive 'maxWidth', got ${maxWidth}`
+      )
+    );
+    return undefined;
+  }
 
-    alignToY: alignToY,
+  let newBoxes: Partial<Record<NodeID, GridBox>> = {};
 
-    alignToX: alignToX,
+  let x0 = 0;
+  let y0 = 0;
+  let rowHeight = 0;
 
-    alignAllToX: alignAllToX,
+  for (const id of stackSequence(boxprops, boxes, diagnostics, "flowWrap")) {
+    const box = boxes[id]!;
 
-    alignAllToY: alignAllToY,
+    // Wrap unless the row is still empty
+    if (x0 > 0 && x0 + box.diagonal.x > maxWidth) {
+      x0 = 0;
+      y0 += rowHeight + rowGap;
+      rowHeight = 0;
+    }
 
-    stackHorizontally: stackHorizontally,
+    if (box.diagonal.x > maxWidth) {
+      diagnostics.push(
+        makeWarning(
+          "flowWrap",
+          GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+          `flowWrap box ${id} is wider (${box.diagonal.x}) than maxWidth ${maxWidth}`,
+          { elementId: id }
+        )
+      );
+    }
 
-    stackVertically: stackVertically,
-  };
-};
+    const newBox = makeGridBox({ x: x0, y: y0 }, box.diagonal);
 
-// =============================================================================
-// Compilation Test Examples
-// =============================================================================
+    newBoxes[id] = newBox;
+    boxes[id] = newBox;
 
-// Mock data for testing
-const existingBoxes: Partial<Record<NodeID, GridBox>> = {
-  'block_1': makeGridBox({ x: 0, y: 0 }, { x: 100, y: 50 }),
-  'aside': makeGridBox({ x: 150, y: 100 }, { x: 80, y: 60 }),
-  'sidebar': makeGridBox({ x: 0, y: 200 }, { x: 60, y: 120 }),
-  'nav': makeGridBox({ x: 200, y: 0 }, { x: 120, y: 40 }),
-  'header': makeGridBox({ x: 50, y: 300 }, { x: 200, y: 80 }),
-  'main': makeGridBox({ x: 120, y: 150 }, { x: 180, y: 140 }),
-  'block_4': makeGridBox({ x: 300, y: 50 }, { x: 90, y: 70 })
-};
+    x0 += box.diagonal.x + columnGap;
+    rowHeight = Math.max(rowHeight, box.diagonal.y);
+  }
 
-const myBoxes: Partial<Record<NodeID, GridBox>> = {
-  'block_1': makeGridBox({ x: 10, y: 10 }, { x: 50, y: 50 }),
-  'block_2': makeGridBox({ x: 70, y: 10 }, { x: 50, y: 50 }),
-  'block_3': makeGridBox({ x: 130, y: 10 }, { x: 50, y: 50 })
-};
+  if (Object.keys(newBoxes).length === 0) {
+    diagnostics.push(
+      makeError(
+        "flowWrap",
+        GRID_ERROR_CODE.NO_BOXES_PROCESSED,
+        `flowWrap transformation could not process any box`
+      )
+    );
 
-let diagnostics: DiagnosticEntry[] = [];
-let boxes = { ...existingBoxes };
+    return undefined;
+  }
 
-// getCoordinateBoxTo examples
-// Resolve from number
-const coord1 = getCoordinateBoxTo(100, boxes, diagnostics, "moveTo");
-// Result: { x: 100, y: 100 }
+  return newBoxes;
+};
 
-// Resolve from coordinate
-const coord2 = getCoordinateBoxTo({ x: 50, y: 75 }, boxes, diagnostics, "moveTo");
-// Result: { x: 50, y: 75 }
+/**
+ * Helper function to check that a resize parameter is a positive number.
+ * 
+ * @param value - The value to check
+ * @param name - The parameter name (for error reporting)
+ * @param diagnostics - Array to record invalid parameters
+ * @param source - The transformation type making this call (for error reporting)
+ * @returns True if the value is a positive finite number
+ */
+function validatePositive(
+  value: unknown,
+  name: string,
+  diagnostics: DiagnosticEntry[],
+  source: AllBoxMovesProps<any>
+): value is number {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return true;
+  }
 
-// Resolve from box anchor
-const coord3 = getCoordinateBoxTo(
-  { boxId: 'block_1', anchor: 'topLeft' }, 
-  boxes, 
-  diagnostics, 
-  "moveTo"
-);
+  diagnostics.push(
+    makeError(
+      source,
+      GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+      `${source} transformation needs a positive '${name}', got ${value}`
+    )
+  );
+  return false;
+}
+
+/**
+ * Gives a box an explicit span while keeping its origin.
+ * 
+ * The transformation:
+ * 1. Validates the box exists and the given spans are positive
+ * 2. Replaces the given spans, keeping the others
+ * 3. Updates the boxes collection in-place
+ * 
+ * @param props - SetSpan transformation properties including the box and its new spans
+ * @returns The resized GridBox, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // block_1 becomes 8 columns wide
+ * const result = setSpan({
+ *   boxprops: { boxId: 'block_1', spanX: 8 },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const setSpan = (props: BoxMovesFunctionsProps<NodeID>["setSpan"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { boxId, spanX, spanY } = boxprops;
+
+  const boxFrom = validateBoxFrom(boxId, boxes, diagnostics, "setSpan");
+
+  if (!boxFrom) {
+    return undefined;
+  }
+
+  if (
+    (spanX !== undefined && !validatePositive(spanX, "spanX", diagnostics, "setSpan")) ||
+    (spanY !== undefined && !validatePositive(spanY, "spanY", diagnostics, "setSpan"))
+  ) {
+    return undefined;
+  }
+
+  const newBox = makeGridBox(boxFrom.origin, {
+    x: spanX ?? boxFrom.diagonal.x,
+    y: spanY ?? boxFrom.diagonal.y,
+  });
+
+  boxes[boxId] = newBox;
+
+  return newBox;
+};
+
+/**
+ * Scales a box's span by a factor while keeping its origin.
+ * Spans are rounded to whole tracks and never drop below one track.
+ * 
+ * The transformation:
+ * 1. Validates the box exists and the factors are positive
+ * 2. Multiplies each span by its factor and rounds it
+ * 3. Updates the boxes collection in-place
+ * 
+ * @param props - Scale transformation properties including the box and the factor
+ * @returns The resized GridBox, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // Half as wide, same height
+ * const result = scale({
+ *   boxprops: { boxId: 'block_1', factor: { x: 0.5, y: 1 } },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const scale = (props: BoxMovesFunctionsProps<NodeID>["scale"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { boxId, factor } = boxprops;
+
+  const boxFrom = validateBoxFrom(boxId, boxes, diagnostics, "scale");
+
+  if (!boxFrom) {
+    return undefined;
+  }
+
+  const f: Coordinate = typeof factor === "number" ? { x: factor, y: factor } : factor;
+
+  if (
+    !f ||
+    !validatePositive(f.x, "factor.x", diagnostics, "scale") ||
+    !validatePositive(f.y, "factor.y", diagnostics, "scale")
+  ) {
+    return undefined;
+  }
+
+  const newBox = makeGridBox(boxFrom.origin, {
+    x: Math.max(1, Math.round(boxFrom.diagonal.x * f.x)),
+    y: Math.max(1, Math.round(boxFrom.diagonal.y * f.y)),
+  });
+
+  boxes[boxId] = newBox;
+
+  return newBox;
+};
+
+/**
+ * Stretches one edge of a box to a position or to another box's anchor.
+ * The opposite edge stays in place, so the box grows or shrinks.
+ * Edges are named like the anchors: `left` and `bottom` are the origin side.
+ * 
+ * The transformation:
+ * 1. Validates the box exists
+ * 2. Resolves the target position (absolute number or another box's anchor)
+ * 3. Moves the edge to the target on its axis, minus the optional gap
+ * 4. Rejects a result that is not at least one track long
+ * 5. Updates the boxes collection in-place
+ * 
+ * @param props - StretchTo transformation properties including the box, edge and target
+ * @returns The resized GridBox, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // Stretch the content's right edge up to the aside
+ * const result = stretchTo({
+ *   boxprops: { boxId: 'content', edge: 'right', to: { boxId: 'aside', anchor: 'bottomLeft' } },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const stretchTo = (props: BoxMovesFunctionsProps<NodeID>["stretchTo"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { boxId, edge, to, gap = 0 } = boxprops;
+
+  const boxFrom = validateBoxFrom(boxId, boxes, diagnostics, "stretchTo");
+
+  if (!boxFrom) {
+    return undefined;
+  }
+
+  const toPoint = getCoordinateBoxTo(to, boxes, diagnostics, "stretchTo");
+
+  if (!toPoint) {
+    return undefined;
+  }
+
+  const axis = edge === "left" || edge === "right" ? "x" : "y";
+  const start = boxFrom.origin[axis];
+  const end = start + boxFrom.diagonal[axis];
+
+  let newStart: number;
+  let newEnd: number;
+
+  if (edge === "right" || edge === "top") {
+    newStart = start;
+    newEnd = toPoint[axis] - gap;
+  } else if (edge === "left" || edge === "bottom") {
+    newStart = toPoint[axis] + gap;
+    newEnd = end;
+  } else {
+    diagnostics.push(
+      makeError(
+        "stretchTo",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `stretchTo transformation has invalid 'edge': ${edge}`
+      )
+    );
+    return undefined;
+  }
+
+  if (newEnd - newStart < 1) {
+    diagnostics.push(
+      makeError(
+        "stretchTo",
+        GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+        `stretchTo would leave box ${boxId} ${newEnd - newStart} tracks long`,
+        { elementId: boxId }
+      )
+    );
+    return undefined;
+  }
+
+  const newBox = makeGridBox(
+    { ...boxFrom.origin, [axis]: newStart },
+    { ...boxFrom.diagonal, [axis]: newEnd - newStart }
+  );
+
+  boxes[boxId] = newBox;
+
+  return newBox;
+};
+
+/**
+ * Grows a box to the right over the width left in its section.
+ * The box stops before the nearest box that starts to its right on the same rows;
+ * without one it reaches `width`, or the right edge of all boxes when no width is given.
+ * 
+ * The transformation:
+ * 1. Validates the box exists
+ * 2. Finds the right limit: the next box on the same rows (minus gap), else the section edge
+ * 3. Rejects a result that is not at least one track wide
+ * 4. Updates the boxes collection in-place
+ * 
+ * @param props - FillRemaining transformation properties including the box and optional width
+ * @returns The resized GridBox, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // Main takes whatever the sidebar leaves of 20 columns
+ * const result = fillRemaining({
+ *   boxprops: { boxId: 'main', width: 20 },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const fillRemaining = (props: BoxMovesFunctionsProps<NodeID>["fillRemaining"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { boxId, width, gap = 0 } = boxprops;
+
+  const boxFrom = validateBoxFrom(boxId, boxes, diagnostics, "fillRemaining");
+
+  if (!boxFrom) {
+    return undefined;
+  }
+
+  if (width !== undefined && !validatePositive(width, "width", diagnostics, "fillRemaining")) {
+    return undefined;
+  }
+
+  const top = boxFrom.origin.y;
+  const bottom = top + boxFrom.diagonal.y;
+
+  let sectionRight = 0;
+  let limit = Infinity;
+
+  for (const otherId in boxes) {
+    const other = boxes[otherId as NodeID];
+    if (!other) {
+      continue;
+    }
+
+    sectionRight = Math.max(sectionRight, other.origin.x + other.diagonal.x);
+
+    const sharesRows = other.origin.y < bottom && other.origin.y + other.diagonal.y > top;
+    if (otherId !== boxId && sharesRows && other.origin.x > boxFrom.origin.x) {
+      limit = Math.min(limit, other.origin.x - gap);
+    }
+  }
+
+  limit = Math.min(limit, width ?? sectionRight);
+
+  const newWidth = limit - boxFrom.origin.x;
+
+  if (newWidth < 1) {
+    diagnostics.push(
+      makeError(
+        "fillRemaining",
+        GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+        `fillRemaining leaves no width for box ${boxId}`,
+        { elementId: boxId }
+      )
+    );
+    return undefined;
+  }
+
+  const newBox = makeGridBox(boxFrom.origin, { x: newWidth, y: boxFrom.diagonal.y });
+
+  boxes[boxId] = newBox;
+
+  return newBox;
+};
+
+/**
+ * Exchanges the positions of two boxes.
+ * Each box moves so that its anchor lands where the other box's anchor was;
+ * spans are kept. Offsets are rounded down to whole tracks.
+ * 
+ * The transformation:
+ * 1. Validates that two different, existing boxes are given
+ * 2. Resolves the anchor of both boxes
+ * 3. Moves each box by the distance between the two anchors
+ * 4. Updates the boxes collection in-place
+ * 
+ * @param props - Swap transformation properties including the two boxes and the anchor
+ * @returns Partial record of the two moved boxes, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // Sidebar and main trade places
+ * const result = swap({
+ *   boxprops: { boxes: ['sidebar', 'main'], anchor: 'topLeft' },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const swap = (props: BoxMovesFunctionsProps<NodeID>["swap"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { anchor = "bottomLeft" } = boxprops;
+
+  if (!Array.isArray(boxprops.boxes) || boxprops.boxes.length !== 2 || boxprops.boxes[0] === boxprops.boxes[1]) {
+    diagnostics.push(
+      makeError(
+        "swap",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `swap transformation needs two different boxes, got ${JSON.stringify(boxprops.boxes)}`
+      )
+    );
+    return undefined;
+  }
+
+  const [idA, idB] = boxprops.boxes;
+
+  const boxA = validateBoxFrom(idA, boxes, diagnostics, "swap");
+  const boxB = validateBoxFrom(idB, boxes, diagnostics, "swap");
+
+  if (!boxA || !boxB) {
+    return undefined;
+  }
+
+  const anchorA = boxPosition(boxA, anchor);
+  const anchorB = boxPosition(boxB, anchor);
+
+  if (!anchorA || !anchorB) {
+    diagnostics.push(
+      makeError(
+        "swap",
+        GRID_ERROR_CODE.UNKNOWN_ANCHOR,
+        `swap transformation has invalid anchor: ${anchor}`
+      )
+    );
+    return undefined;
+  }
+
+  const delta = subtractCoordinates(anchorB, anchorA);
+  const displacement = { x: Math.floor(delta.x), y: Math.floor(delta.y) };
+
+  const newA = makeGridBox(addCoordinates(boxA.origin, displacement), boxA.diagonal);
+  const newB = makeGridBox(subtractCoordinates(boxB.origin, displacement), boxB.diagonal);
+
+  boxes[idA] = newA;
+  boxes[idB] = newB;
+
+  return { [idA]: newA, [idB]: newB } as Partial<Record<NodeID, GridBox>>;
+};
+
+/**
+ * Centers a box within another box or within the section bounding box.
+ * The section bounding box spans all boxes of the section, the centered one included.
+ * Offsets are rounded down to whole tracks; a box larger than its container
+ * overhangs it evenly.
+ * 
+ * The transformation:
+ * 1. Validates the box, the container and the axis
+ * 2. Computes the container: the `within` box, or the bounds of all boxes
+ * 3. Places the box in the middle of the container on the requested axes
+ * 4. Updates the boxes collection in-place
+ * 
+ * @param props - CenterIn transformation properties including the box, container and axis
+ * @returns The centered GridBox, or undefined if transformation failed
+ * 
+ * @example
+ * ```typescript
+ * // Center block_1 horizontally in the section
+ * const result = centerIn({
+ *   boxprops: { boxId: 'block_1', axis: 'x' },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const centerIn = (props: BoxMovesFunctionsProps<NodeID>["centerIn"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { boxId, within, axis = "both" } = boxprops;
+
+  if (within === boxId || (axis !== "x" && axis !== "y" && axis !== "both")) {
+    diagnostics.push(
+      makeError(
+        "centerIn",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        within === boxId
+          ? `centerIn transformation cannot center box ${boxId} within itself`
+          : `centerIn transformation has invalid 'axis': ${axis}`
+      )
+    );
+    return undefined;
+  }
+
+  const boxFrom = validateBoxFrom(boxId, boxes, diagnostics, "centerIn");
+
+  if (!boxFrom) {
+    return undefined;
+  }
+
+  let container: GridBox;
+
+  if (within !== undefined) {
+    const boxWithin = boxes[within];
+    if (!boxWithin) {
+      diagnostics.push(
+        makeError(
+          "centerIn",
+          GRID_ERROR_CODE.UNKNOWN_NODE_ID,
+          `centerIn transformation has invalid 'within' boxId: ${within}`
+        )
+      );
+      return undefined;
+    }
+    container = boxWithin;
+  } else {
+    let min = { x: Infinity, y: Infinity };
+    let max = { x: -Infinity, y: -Infinity };
+    for (const box of Object.values(boxes)) {
+      if (!box) {
+        continue;
+      }
+      min = { x: Math.min(min.x, box.origin.x), y: Math.min(min.y, box.origin.y) };
+      max = {
+        x: Math.max(max.x, box.origin.x + box.diagonal.x),
+        y: Math.max(max.y, box.origin.y + box.diagonal.y),
+      };
+    }
+    container = makeGridBox(min, subtractCoordinates(max, min));
+  }
+
+  const centered = {
+    x: container.origin.x + Math.floor((container.diagonal.x - boxFrom.diagonal.x) / 2),
+    y: container.origin.y + Math.floor((container.diagonal.y - boxFrom.diagonal.y) / 2),
+  };
+
+  const newBox = makeGridBox(
+    {
+      x: axis === "y" ? boxFrom.origin.x : centered.x,
+      y: axis === "x" ? boxFrom.origin.y : centered.y,
+    },
+    boxFrom.diagonal
+  );
+
+  boxes[boxId] = newBox;
+
+  return newBox;
+};
+
+/**
+ * Arranges boxes in a matrix with a fixed number of columns.
+ * Boxes fill the matrix row by row from (0, 0). Each column is as wide as its
+ * widest box and each row as tall as its tallest box, so the boxes line up on
+ * both axes.
+ * 
+ * The transformation:
+ * 1. Validates `columns`
+ * 2. Visits the selected boxes in `order` first, then in key order
+ * 3. Measures the width of every column and the height of every row
+ * 4. Places each box at the start of its cell
+ * 5. Updates the boxes collection in-place
+ * 
+ * @param props - Gridify transformation properties including the number of columns and gaps
+ * @returns Partial record of transformed boxes, or undefined if no boxes were processed
+ * 
+ * @example
+ * ```typescript
+ * // Six KPI tiles in a 3 x 2 matrix
+ * const result = gridify({
+ *   boxprops: { columns: 3, columnGap: 1, rowGap: 1 },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const gridify = (props: BoxMovesFunctionsProps<NodeID>["gridify"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { columns, columnGap = 0, rowGap = 0 } = boxprops;
+
+  if (!Number.isInteger(columns) || !(columns > 0)) {
+    diagnostics.push(
+      makeError(
+        "gridify",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `gridify transformation needs a positive whole number of 'columns', got ${columns}`
+      )
+    );
+    return undefined;
+  }
+
+  const sequence = stackSequence(boxprops, boxes, diagnostics, "gridify");
+
+  const widths: number[] = [];
+  const heights: number[] = [];
+
+  sequence.forEach((id, i) => {
+    const box = boxes[id]!;
+    const col = i % columns;
+    const row = Math.floor(i / columns);
+    widths[col] = Math.max(widths[col] ?? 0, box.diagonal.x);
+    heights[row] = Math.max(heights[row] ?? 0, box.diagonal.y);
+  });
+
+  // Cell starts are the running sums of the previous sizes plus gaps
+  const xs = widths.map((_, col) => widths.slice(0, col).reduce((x, w) => x + w + columnGap, 0));
+  const ys = heights.map((_, row) => heights.slice(0, row).reduce((y, h) => y + h + rowGap, 0));
+
+  let newBoxes: Partial<Record<NodeID, GridBox>> = {};
+
+  sequence.forEach((id, i) => {
+    const newBox = makeGridBox({ x: xs[i % columns], y: ys[Math.floor(i / columns)] }, boxes[id]!.diagonal);
+
+    newBoxes[id] = newBox;
+    boxes[id] = newBox;
+  });
+
+  if (Object.keys(newBoxes).length === 0) {
+    diagnostics.push(
+      makeError(
+        "gridify",
+        GRID_ERROR_CODE.NO_BOXES_PROCESSED,
+        `gridify transformation could not process any box`
+      )
+    );
+
+    return undefined;
+  }
+
+  return newBoxes;
+};
+
+/**
+ * Packs boxes automatically into a fixed number of columns, starting at (0, 0).
+ * Boxes keep their spans and land on whole grid tracks. They are visited in
+ * `order` first, then in key order.
+ * 
+ * Strategies:
+ * - `first-fit` places each box at the first free spot, scanning rows from the
+ *   top and left to right, like CSS grid auto-placement. Without `dense` the scan
+ *   resumes after the previous box; with `dense` it restarts at the top.
+ * - `skyline` places each box where the column skyline is lowest, leftmost on
+ *   ties. With `dense` a box first goes into a hole below the skyline, if one fits.
+ * 
+ * The transformation:
+ * 1. Validates `columns` and `strategy`
+ * 2. Reports boxes wider than `columns`; they are placed at column 0 and overhang
+ * 3. Places every box with the chosen strategy, recording the area it covers
+ * 4. Updates the boxes collection in-place
+ * 
+ * @param props - Pack transformation properties including the column count and strategy
+ * @returns Partial record of transformed boxes, or undefined if no boxes were processed
+ * 
+ * @example
+ * ```typescript
+ * // Articles packed into 12 columns, small ones filling the gaps
+ * const result = pack({
+ *   boxprops: { columns: 12, strategy: 'skyline', dense: true },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const pack = (props: BoxMovesFunctionsProps<NodeID>["pack"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { columns, strategy = "first-fit", dense = false } = boxprops;
+
+  if (!Number.isInteger(columns) || !(columns > 0) || (strategy !== "first-fit" && strategy !== "skyline")) {
+    diagnostics.push(
+      makeError(
+        "pack",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        Number.isInteger(columns) && columns > 0
+          ? `pack transformation has invalid 'strategy': ${strategy}`
+          : `pack transformation needs a positive whole number of 'columns', got ${columns}`
+      )
+    );
+    return undefined;
+  }
+
+  // Cells covered by the boxes placed so far
+  const placed: { x: number; y: number; w: number; h: number }[] = [];
+  // Height of the highest occupied cell of each column
+  const skyline: number[] = new Array(columns).fill(0);
+
+  // A placed box in the way of a w x h box at (x, y), if any
+  const blocker = (x: number, y: number, w: number, h: number) =>
+    placed.find((b) => x < b.x + b.w && b.x < x + w && y < b.y + b.h && b.y < y + h);
+
+  // First free spot in row-major order from `from`, above row `yEnd`.
+  // A spot is either on the starting rows or right below a placed box, so only
+  // those rows are tried; within a row the scan jumps past each box in the way.
+  // With `holesOnly`, spots must also lie below the skyline of some column.
+  const scan = (from: Coordinate, w: number, h: number, yEnd: number, holesOnly = false) => {
+    const rows = [...new Set([from.y, from.y + 1, ...placed.map((b) => b.y + b.h)])]
+      .filter((y) => y >= from.y && y < yEnd)
+      .sort((a, b) => a - b);
+
+    for (const y of rows) {
+      let x = y === from.y ? from.x : 0;
+      while (x <= columns - w) {
+        const b = blocker(x, y, w, h);
+        if (b) {
+          x = b.x + b.w;
+          continue;
+        }
+        if (!holesOnly || skylineAt(x, w) > y) {
+          return { x, y };
+        }
+        // Move on until the window reaches a column whose skyline is above the row
+        let c = x + w;
+        while (c < columns && skyline[c] <= y) {
+          c++;
+        }
+        x = c - w + 1;
+      }
+    }
+    return undefined;
+  };
+
+  const skylineAt = (x: number, w: number) => Math.max(...skyline.slice(x, x + w));
+
+  let newBoxes: Partial<Record<NodeID, GridBox>> = {};
+  let cursor: Coordinate = { x: 0, y: 0 };
+
+  for (const id of stackSequence(boxprops, boxes, diagnostics, "pack")) {
+    const box = boxes[id]!;
+
+    if (box.diagonal.x > columns) {
+      diagnostics.push(
+        makeWarning(
+          "pack",
+          GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+          `pack box ${id} is wider (${box.diagonal.x}) than the ${columns} columns`,
+          { elementId: id }
+        )
+      );
+    }
+
+    // Cells covered by the box; a box wider than the columns blocks whole rows
+    const w = Math.min(columns, Math.ceil(box.diagonal.x));
+    const h = Math.ceil(box.diagonal.y);
+
+    let at: Coordinate | undefined;
+
+    if (strategy === "first-fit") {
+      at = scan(dense ? { x: 0, y: 0 } : cursor, w, h, Infinity);
+    } else {
+      if (dense) {
+        at = scan({ x: 0, y: 0 }, w, h, Math.max(...skyline), true);
+      }
+      if (!at) {
+        // The leftmost lowest spot starts where the skyline changes height
+        for (let x = 0; x <= columns - w; x++) {
+          if (x > 0 && skyline[x] === skyline[x - 1]) {
+            continue;
+          }
+          const y = skylineAt(x, w);
+          if (!at || y < at.y) {
+            at = { x, y };
+          }
+        }
+      }
+    }
+
+    const { x, y } = at!;
+
+    placed.push({ x, y, w, h });
+    for (let i = 0; i < w; i++) {
+      skyline[x + i] = Math.max(skyline[x + i], y + h);
+    }
+    cursor = { x: x + w, y };
+
+    const newBox = makeGridBox({ x, y }, box.diagonal);
+
+    newBoxes[id] = newBox;
+    boxes[id] = newBox;
+  }
+
+  if (Object.keys(newBoxes).length === 0) {
+    diagnostics.push(
+      makeError(
+        "pack",
+        GRID_ERROR_CODE.NO_BOXES_PROCESSED,
+        `pack transformation could not process any box`
+      )
+    );
+
+    return undefined;
+  }
+
+  return newBoxes;
+};
+
+/**
+ * Helper function to list the boxes a constraint names.
+ * 
+ * @param constraint - The constraint to inspect
+ * @returns The constraint name and its box IDs, or undefined if the constraint is malformed
+ */
+function constraintBoxes(
+  constraint: BoxConstraint<NodeID>
+): { name: keyof BoxConstraintsObject<NodeID>; ids: readonly NodeID[] } | undefined {
+  const name = Object.keys(constraint ?? {})[0] as keyof BoxConstraintsObject<NodeID>;
+  const value = (constraint as Record<string, unknown>)?.[name];
+
+  if (name === "leftOf" || name === "below") {
+    const { box, of, gap = 0 } = (value ?? {}) as BoxConstraintsObject<NodeID>["leftOf"];
+    return box !== undefined && of !== undefined && Number.isFinite(gap) ? { name, ids: [box, of] } : undefined;
+  }
+
+  if (
+    (name === "sameLeft" || name === "sameBottom" || name === "sameTop" ||
+      name === "sameWidth" || name === "sameHeight" || name === "inside") &&
+    Array.isArray(value)
+  ) {
+    return { name, ids: value };
+  }
+
+  return undefined;
+}
+
+/**
+ * Places boxes by solving layout constraints together.
+ * Unlike a sequence of moves, all constraints hold in the result or none is applied.
+ * 
+ * The transformation:
+ * 1. Validates every constraint and the boxes it names
+ * 2. Settles sizes: `sameWidth` and `sameHeight` groups take their largest size
+ * 3. Turns the constraints of each axis into difference constraints
+ *    (`leftOf`, `sameLeft`, `inside` on x; `below`, `sameBottom`, `sameTop`, `inside` on y)
+ * 4. Solves each axis with `solveDifferenceConstraints`, placing the boxes it names
+ *    as close to 0 as allowed; other boxes and axes are left alone
+ * 5. Reports contradicting constraints as a `CONSTRAINT_VIOLATION` naming them
+ * 6. Updates the boxes collection in-place when both axes are solved
+ * 
+ * @param props - Constrain transformation properties including the constraints and section area
+ * @returns Partial record of the constrained boxes, or undefined if the constraints cannot be met
+ * 
+ * @example
+ * ```typescript
+ * // Sidebar left of main, bottoms aligned, within 12 columns
+ * const result = constrain({
+ *   boxprops: {
+ *     constraints: [
+ *       { leftOf: { box: 'sidebar', of: 'main', gap: 1 } },
+ *       { sameBottom: ['sidebar', 'main'] },
+ *       { inside: ['sidebar', 'main'] }
+ *     ],
+ *     width: 12
+ *   },
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const constrain = (props: BoxMovesFunctionsProps<NodeID>["constrain"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+  const { constraints, width, height } = boxprops;
+
+  if (!Array.isArray(constraints) || constraints.length === 0) {
+    diagnostics.push(
+      makeError(
+        "constrain",
+        GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+        `constrain transformation needs a non-empty 'constraints' array`
+      )
+    );
+    return undefined;
+  }
+
+  const parsed: Array<{ name: keyof BoxConstraintsObject<NodeID>; ids: readonly NodeID[] }> = [];
+
+  for (const constraint of constraints) {
+    const entry = constraintBoxes(constraint);
+
+    if (!entry) {
+      diagnostics.push(
+        makeError(
+          "constrain",
+          GRID_ERROR_CODE.INVALID_TRANSFORMATION_PARAMS,
+          `constrain transformation has an invalid constraint: ${JSON.stringify(constraint)}`
+        )
+      );
+      return undefined;
+    }
+
+    for (const id of entry.ids) {
+      if (!validateBoxFrom(id, boxes, diagnostics, "constrain")) {
+        return undefined;
+      }
+    }
+
+    parsed.push(entry);
+  }
+
+  // Sizes first, so that the position constraints can use them as constants
+  const sizes = new Map<NodeID, Coordinate>();
+  const sizeOf = (id: NodeID) => sizes.get(id) ?? boxes[id]!.diagonal;
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const { name, ids } of parsed) {
+      if (name !== "sameWidth" && name !== "sameHeight") {
+        continue;
+      }
+      const axis = name === "sameWidth" ? "x" : "y";
+      const size = Math.max(...ids.map((id) => sizeOf(id)[axis]));
+      for (const id of ids) {
+        if (sizeOf(id)[axis] !== size) {
+          sizes.set(id, { ...sizeOf(id), [axis]: size });
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const solveAxis = (axis: "x" | "y") => {
+    // Node 0 is the section origin
+    const nodes = new Map<NodeID, number>();
+    const node = (id: NodeID) => {
+      if (!nodes.has(id)) {
+        nodes.set(id, nodes.size + 1);
+      }
+      return nodes.get(id)!;
+    };
+    const edges: DifferenceEdge[] = [];
+    const extent = axis === "x" ? width : height;
+
+    parsed.forEach(({ name, ids }, tag) => {
+      const sequence = (name === "leftOf" && axis === "x") || (name === "below" && axis === "y");
+      const sameStart = (name === "sameLeft" && axis === "x") || (name === "sameBottom" && axis === "y");
+      const sameEnd = name === "sameTop" && axis === "y";
+
+      if (sequence) {
+        const { gap = 0 } = (constraints[tag] as Record<string, { gap?: number }>)[name];
+        const [a, b] = ids;
+        edges.push({ from: node(a), to: node(b), weight: sizeOf(a)[axis] + gap, tag });
+      } else if (sameStart || sameEnd) {
+        for (let i = 1; i < ids.length; i++) {
+          const a = ids[i - 1];
+          const b = ids[i];
+          // Shared far edges: start(b) = start(a) + size(a) - size(b)
+          const shift = sameEnd ? sizeOf(a)[axis] - sizeOf(b)[axis] : 0;
+          edges.push({ from: node(a), to: node(b), weight: shift, tag });
+          edges.push({ from: node(b), to: node(a), weight: -shift, tag });
+        }
+      } else if (name === "inside" && extent !== undefined) {
+        for (const id of ids) {
+          edges.push({ from: node(id), to: 0, weight: sizeOf(id)[axis] - extent, tag });
+        }
+      }
+    });
+
+    return { nodes, solution: solveDifferenceConstraints(nodes.size + 1, edges) };
+  };
+
+  const solved = { x: solveAxis("x"), y: solveAxis("y") };
+  let failed = false;
+
+  for (const axis of ["x", "y"] as const) {
+    const { conflict } = solved[axis].solution;
+    if (!conflict) {
+      continue;
+    }
+
+    failed = true;
+    const offending = [...new Set(conflict)].map((tag) => constraints[tag]);
+    diagnostics.push(
+      makeError(
+        "constrain",
+        GRID_ERROR_CODE.CONSTRAINT_VIOLATION,
+        `constrain cannot satisfy together on ${axis}: ${offending.map((c) => JSON.stringify(c)).join(", ")}`,
+        { details: { axis, constraints: offending } }
+      )
+    );
+  }
+
+  if (failed) {
+    return undefined;
+  }
+
+  let newBoxes: Partial<Record<NodeID, GridBox>> = {};
+
+  for (const { ids } of parsed) {
+    for (const id of ids) {
+      if (newBoxes[id]) {
+        continue;
+      }
+
+      const origin = { ...boxes[id]!.origin };
+      for (const axis of ["x", "y"] as const) {
+        const index = solved[axis].nodes.get(id);
+        if (index !== undefined) {
+          origin[axis] = solved[axis].solution.values![index];
+        }
+      }
+
+      newBoxes[id] = makeGridBox(origin, sizeOf(id));
+    }
+  }
+
+  for (const id in newBoxes) {
+    boxes[id as NodeID] = newBoxes[id as NodeID];
+  }
+
+  return newBoxes;
+};
+
+/**
+ * Transposes boxes, swapping rows and columns.
+ * The boxes are reflected across the diagonal through the lowest corner of their
+ * bounding box, so a horizontal row of boxes becomes a vertical column and the
+ * section keeps its position. Spans are transposed too.
+ * 
+ * The transformation:
+ * 1. Picks all boxes, or the ones selected by `boxes`
+ * 2. Finds the lowest corner of their bounding box
+ * 3. Maps every box with the `transposition` matrix around that corner
+ * 4. Updates the boxes collection in-place
+ * 
+ * @param props - Transpose transformation properties including the optional box selection
+ * @returns Partial record of the transposed boxes, or undefined if no box was selected
+ * 
+ * @example
+ * ```typescript
+ * // Turn a landscape section into a portrait one
+ * const result = transpose({
+ *   boxprops: {},
+ *   boxes: existingBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+const transpose = (props: BoxMovesFunctionsProps<NodeID>["transpose"]) => {
+  const { boxprops, boxes, diagnostics } = props;
+
+  const selected = selectBoxes(boxprops.boxes, boxes, diagnostics, "transpose").filter((id) => boxes[id]);
+
+  if (selected.length === 0) {
+    diagnostics.push(
+      makeError(
+        "transpose",
+        GRID_ERROR_CODE.NO_BOXES_PROCESSED,
+        `transpose transformation could not process any box`
+      )
+    );
+
+    return undefined;
+  }
+
+  // The pivot stays in place: it lies on the diagonal of the transposition
+  const { min: pivot } = boundingBox(selected.map((id) => boxes[id]!.origin));
+
+  let newBoxes: Partial<Record<NodeID, GridBox>> = {};
+
+  for (const id of selected) {
+    const box = boxes[id]!;
+    const local = makeGridBox(subtractCoordinates(box.origin, pivot), box.diagonal);
+    const transposed = transformGridBox(local, transposition);
+    const newBox = makeGridBox(addCoordinates(transposed.origin, pivot), transposed.diagonal);
+
+    newBoxes[id] = newBox;
+    boxes[id] = newBox;
+  }
+
+  return newBoxes;
+};
+
+/**
+ * Factory function that creates the default transformation registry.
+ * Returns a complete implementation of all box transformation functions
+ * defined in the BoxMovesFunctions interface. This serves as the standard
+ * implementation of the transformation system.
+ * 
+ * The registry provides implementations for:
+ * - `moveTo`: Move box to specific position or another box's anchor
+ * - `moveBy`: Move box by relative amount
+ * - `alignToY`: Align box vertically while preserving X position
+ * - `alignToX`: Align box horizontally while preserving Y position
+ * - `alignAllToX`: Align all boxes to same X coordinate
+ * - `alignAllToY`: Align all boxes to same Y coordinate
+ * - `stackHorizontally`: Arrange boxes in horizontal sequence
+ * - `stackVertically`: Arrange boxes in vertical sequence
+ * - `flowWrap`: Arrange boxes in rows that wrap at a maximum width
+ * - `setSpan`: Give a box an explicit span
+ * - `scale`: Scale a box's span by a factor
+ * - `stretchTo`: Stretch one edge of a box to a position or another box's anchor
+ * - `fillRemaining`: Grow a box over the width left in its section
+ * - `swap`: Exchange the positions of two boxes
+ * - `centerIn`: Center a box within another box or the section bounding box
+ * - `gridify`: Arrange boxes in a matrix with a fixed number of columns
+ * - `pack`: Pack boxes automatically into a fixed number of columns
+ * - `constrain`: Place boxes by solving layout constraints together
+ * - `transpose`: Swap rows and columns of boxes
+ * 
+ * @returns Complete registry of transformation functions
+ * 
+ * @example
+ * ```typescript
+ * // Get the default transformation registry
+ * const transformations = DefaultBoxTransformations();
+ * 
+ * // Use a specific transformation
+ * const result = transformations.moveTo({
+ *   boxprops: {
+ *     from: { boxId: 'block_1', anchor: 'center' },
+ *     to: { x: 100, y: 200 }
+ *   },
+ *   boxes: myBoxes,
+ *   diagnostics: []
+ * });
+ * 
+ * // Apply multiple transformations
+ * transformations.stackHorizontally({
+ *   boxprops: { gap: 20 },
+ *   boxes: myBoxes,
+ *   diagnostics: []
+ * });
+ * 
+ * transformations.alignAllToY({
+ *   boxprops: { to: 100, anchor: 'center' },
+ *   boxes: myBoxes,
+ *   diagnostics: []
+ * });
+ * ```
+ */
+// the factory of default transformations
+// a registry of all verbs
+export const DefaultBoxTransformations = (): BoxMovesFunctions<NodeID> => {
+  return {
+    moveTo: moveTo,
+
+    moveBy: moveBy,
+
+    alignToY: alignToY,
+
+    alignToX: alignToX,
+
+    alignAllToX: alignAllToX,
+
+    alignAllToY: alignAllToY,
+
+    stackHorizontally: stackHorizontally,
+
+    stackVertically: stackVertically,
+
+    flowWrap: flowWrap,
+
+    setSpan: setSpan,
+
+    scale: scale,
+
+    stretchTo: stretchTo,
+
+    fillRemaining: fillRemaining,
+
+    swap: swap,
+
+    centerIn: centerIn,
+
+    gridify: gridify,
+
+    pack: pack,
+
+    constrain: constrain,
+
+    transpose: transpose,
+  };
+};
+
+/**
+ * Creates a transformation registry that holds the default transformations
+ * together with a set of custom ones. The result can be passed to
+ * `transformBoxMove`, the layout stages and `CSSLayout`.
+ * 
+ * @template Ext - Custom transformations registered next to the defaults
+ * @param custom - Implementations of the custom transformations
+ * @returns Registry with the default and the custom transformations
+ * 
+ * @example
+ * ```typescript
+ * type CompanyMoves = { dockToSidebar: { boxId: BlocksIDs; side: 'left' | 'right' } };
+ * 
+ * const registry = extendBoxTransformations<CompanyMoves>({
+ *   dockToSidebar: ({ boxprops, boxes, diagnostics }) => {
+ *     const box = boxes[boxprops.boxId];
+ *     if (!box) {
+ *       diagnostics.push(makeError('custom:dockToSidebar', GRID_ERROR_CODE.MISSING_BOX,
+ *         `Box ${boxprops.boxId} not found`));
+ *       return undefined;
+ *     }
+ *     return box;
+ *   }
+ * });
+ * ```
+ */
+export const extendBoxTransformations = <Ext extends CustomBoxMovesProps>(
+  custom: CustomBoxMovesFunctions<NodeID, Ext>
+): BoxMovesFunctions<NodeID, Ext> => {
+  return {
+    ...DefaultBoxTransformations(),
+    ...custom,
+  } as BoxMovesFunctions<NodeID, Ext>;
+};
+
+// =============================================================================
+// Compilation Test Examples
+// =============================================================================
+
+// Mock data for testing
+const existingBoxes: Partial<Record<NodeID, GridBox>> = {
+  'block_1': makeGridBox({ x: 0, y: 0 }, { x: 100, y: 50 }),
+  'aside': makeGridBox({ x: 150, y: 100 }, { x: 80, y: 60 }),
+  'sidebar': makeGridBox({ x: 0, y: 200 }, { x: 60, y: 120 }),
+  'nav': makeGridBox({ x: 200, y: 0 }, { x: 120, y: 40 }),
+  'header': makeGridBox({ x: 50, y: 300 }, { x: 200, y: 80 }),
+  'main': makeGridBox({ x: 120, y: 150 }, { x: 180, y: 140 }),
+  'block_4': makeGridBox({ x: 300, y: 50 }, { x: 90, y: 70 })
+};
+
+const myBoxes: Partial<Record<NodeID, GridBox>> = {
+  'block_1': makeGridBox({ x: 10, y: 10 }, { x: 50, y: 50 }),
+  'block_2': makeGridBox({ x: 70, y: 10 }, { x: 50, y: 50 }),
+  'block_3': makeGridBox({ x: 130, y: 10 }, { x: 50, y: 50 })
+};
+
+let diagnostics: DiagnosticEntry[] = [];
+let boxes = { ...existingBoxes };
+
+// getCoordinateBoxTo examples
+// Resolve from number
+const coord1 = getCoordinateBoxTo(100, boxes, diagnostics, "moveTo");
+// Result: { x: 100, y: 100 }
+
+// Resolve from coordinate
+const coord2 = getCoordinateBoxTo({ x: 50, y: 75 }, boxes, diagnostics, "moveTo");
+// Result: { x: 50, y: 75 }
+
+// Resolve from box anchor
+const coord3 = getCoordinateBoxTo(
+  { boxId: 'block_1', anchor: 'topLeft' }, 
+  boxes, 
+  diagnostics, 
+  "moveTo"
+);
 // Result: coordinate of block_1's topLeft anchor
 
 // validateBoxFrom example
@@ -983,6 +2404,17 @@ const alignAllToYResult = alignAllToY({
   diagnostics: []
 });
 
+// Align only the selected boxes, the others stay where they are
+const alignSomeToYResult = alignAllToY({
+  boxprops: {
+    to: 200,
+    anchor: 'topLeft',
+    boxes: ['nav', 'header']
+  },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
 // stackHorizontally examples
 // Stack boxes horizontally with 20px gap
 const stackHorizontallyResult1 = stackHorizontally({
@@ -1013,6 +2445,111 @@ const stackVerticallyResult2 = stackVertically({
   diagnostics: []
 });
 
+// Stack boxes bottom-up
+const stackVerticallyResult3 = stackVertically({
+  boxprops: { reverse: true },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// Stack boxes evenly over 20 rows, all as wide as the widest
+const stackVerticallyResult4 = stackVertically({
+  boxprops: { align: 'stretch', distribute: 'space-evenly', extent: 20 },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// flowWrap examples
+// Wrap boxes into rows at most 20 columns wide
+const flowWrapResult = flowWrap({
+  boxprops: { maxWidth: 20, columnGap: 1, rowGap: 1 },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// Resize examples
+// block_1 becomes 8 columns wide
+const setSpanResult = setSpan({
+  boxprops: { boxId: 'block_1', spanX: 8 },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// Half as wide, same height
+const scaleResult = scale({
+  boxprops: { boxId: 'block_1', factor: { x: 0.5, y: 1 } },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// Stretch block_1's right edge up to nav
+const stretchToResult = stretchTo({
+  boxprops: { boxId: 'block_1', edge: 'right', to: { boxId: 'nav', anchor: 'bottomLeft' } },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// main takes whatever is left of 400 columns
+const fillRemainingResult = fillRemaining({
+  boxprops: { boxId: 'main', width: 400 },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// Rearrangement examples
+// nav and header trade places
+const swapResult = swap({
+  boxprops: { boxes: ['nav', 'header'], anchor: 'topLeft' },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// block_1 centered horizontally in the section
+const centerInResult = centerIn({
+  boxprops: { boxId: 'block_1', axis: 'x' },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// All boxes in a 3-column matrix
+const gridifyResult = gridify({
+  boxprops: { columns: 3, columnGap: 10, rowGap: 10 },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// All boxes packed into 12 columns, back-filling holes
+const packResult = pack({
+  boxprops: { columns: 12, strategy: 'skyline', dense: true },
+  boxes: {
+    'block_1': makeGridBox({ x: 0, y: 0 }, { x: 8, y: 2 }),
+    'block_2': makeGridBox({ x: 0, y: 0 }, { x: 6, y: 1 }),
+    'block_3': makeGridBox({ x: 0, y: 0 }, { x: 4, y: 1 })
+  },
+  diagnostics: []
+});
+
+// block_1 left of main, bottoms aligned, within 400 columns
+const constrainResult = constrain({
+  boxprops: {
+    constraints: [
+      { leftOf: { box: 'block_1', of: 'main', gap: 10 } },
+      { sameBottom: ['block_1', 'main'] },
+      { inside: ['block_1', 'main'] }
+    ],
+    width: 400
+  },
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
+// All boxes transposed around their lowest corner
+const transposeResult = transpose({
+  boxprops: {},
+  boxes: { ...existingBoxes },
+  diagnostics: []
+});
+
 // DefaultBoxTransformations examples
 // Get the default transformation registry
 const transformations = DefaultBoxTransformations();
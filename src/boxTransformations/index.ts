@@ -11,6 +11,26 @@ export type {
   BoxMoveByProps,
   BoxAlignYProps,
   BoxAlignXProps,
+  BoxSelector,
+  BoxAlignAllProps,
+  BoxStackProps,
+  BoxFlowWrapProps,
+  BoxSetSpanProps,
+  BoxScaleProps,
+  BoxEdge,
+  BoxStretchToProps,
+  BoxFillRemainingProps,
+  BoxSwapProps,
+  BoxCenterInProps,
+  BoxGridifyProps,
+  PackStrategy,
+  BoxPackProps,
+  BoxConstraintsObject,
+  BoxConstraint,
+  BoxConstrainProps,
+  BoxTransposeProps,
+  StackAlign,
+  StackDistribution,
   BoxProps,
   BoxMovesPropsObject,
   TransformationIDs,
@@ -18,6 +38,9 @@ export type {
   AllBoxMovesProps,
   BoxMovesFunctionsProps,
   BoxMovesFunctions,
+  CustomBoxMovesProps,
+  BoxMovesPropsRegistry,
+  CustomBoxMovesFunctions,
 } from './boxTransformationsProps';
 
 export {
@@ -27,4 +50,5 @@ export {
 // Export default transformation implementations
 export {
   DefaultBoxTransformations,
+  extendBoxTransformations,
 } from './defaultBoxTransformations';
\ No newline at end of file
@@ -1,4 +1,3 @@
-
 /**
  * Standard responsive breakpoint names
  */
@@ -7,12 +6,103 @@ export const BREAKPOINTS = ["xs", "sm", "md", "lg", "xl"] as const;
 export type Breakpoint = (typeof BREAKPOINTS)[number];
 /**
  * Complete breakpoint record with all breakpoints required
+ *
+ * @template T - Value stored per breakpoint
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+
+export type BPs<T, BP extends string = Breakpoint> = Record<BP, T>; 
+/**
+ * Partial breakpoint record with only xs required.
+ * Custom breakpoint sets without an `xs` entry leave every breakpoint optional.
+ *
+ * @template T - Value stored per breakpoint
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
+ */
+
+export type PartialBps<T, BP extends string = Breakpoint> = Record<Extract<BP, 'xs'>, T> &
+  Partial<Record<BP, T>>;
+/**
+ * Breakpoint names that take no part in type inference, so that the names are
+ * inferred from the `breakpoints` list alone. Works like `NoInfer<BP>`, which
+ * needs TypeScript 5.4.
+ *
+ * @template BP - Breakpoint names
+ */
+
+export type NoInferBP<BP extends string> = [BP][BP extends any ? 0 : never];
+
+/**
+ * Builds a complete breakpoint record by evaluating `value` for every breakpoint
+ * of the list, in order.
+ *
+ * @param breakpoints - Breakpoint names, smallest first
+ * @param value - Produces the value stored for one breakpoint
+ * @returns Complete breakpoint record
+ *
+ * @example
+ * ```typescript
+ * const columns = makeBps(["mobile", "desktop"] as const, () => 12);
+ * // { mobile: 12, desktop: 12 }
+ * ```
  */
+export function makeBps<T, BP extends string>(
+  breakpoints: readonly BP[],
+  value: (bp: BP) => T,
+): BPs<T, BP> {
+  const record = {} as BPs<T, BP>;
+
+  for (const bp of breakpoints) {
+    record[bp] = value(bp);
+  }
+
+  return record;
+}
 
-export type BPs<T> = Record<Breakpoint, T>; 
 /**
- * Partial breakpoint record with only xs required
+ * Resolves a partial breakpoint record mobile-first: every missing breakpoint
+ * inherits the value of the nearest smaller breakpoint that is defined.
+ *
+ * @param partial - Breakpoint record where only some breakpoints are set
+ * @param onInherit - Optional hook called for each inherited breakpoint; its
+ * return value is stored instead of the inherited value (e.g. a copy)
+ * @param breakpoints - Breakpoint names, smallest first (defaults to `BREAKPOINTS`)
+ * @returns Complete breakpoint record
+ *
+ * @example
+ * ```typescript
+ * const gaps = cascadeBps({ xs: 1, md: 3 });
+ * // { xs: 1, sm: 1, md: 3, lg: 3, xl: 3 }
+ *
+ * const widget = cascadeBps({ mobile: 1 }, undefined, ["mobile", "desktop"] as const);
+ * // { mobile: 1, desktop: 1 }
+ * ```
  */
+export function cascadeBps<T, BP extends string = Breakpoint>(
+  partial: PartialBps<T, BP>,
+  onInherit?: (bp: BP, from: BP, value: T) => T,
+  breakpoints: readonly BP[] = BREAKPOINTS as readonly string[] as readonly BP[],
+): BPs<T, BP> {
+  const resolved = {} as BPs<T, BP>;
+  let from: BP | undefined;
+
+  for (const bp of breakpoints) {
+    const value = (partial as Partial<Record<BP, T>>)[bp];
+
+    if (value !== undefined) {
+      resolved[bp] = value as T;
+      from = bp;
+      continue;
+    }
+
+    // Nothing defined yet at or below this breakpoint
+    if (from === undefined) {
+      continue;
+    }
 
-export type PartialBps<T> = { xs: T; } & Partial<Record<Exclude<Breakpoint, 'xs'>, T>>;
+    const inherited = resolved[from];
+    resolved[bp] = onInherit ? onInherit(bp, from, inherited) : inherited;
+  }
 
+  return resolved;
+}
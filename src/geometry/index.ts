@@ -85,6 +85,7 @@ export {
   zeroMatrix,
   reflectionOnXAxis,
   reflectionOnYAxis,
+  transposition,
   rotationByThetaClockWise,
   multiply
 } from './matrixAlgebra';
\ No newline at end of file
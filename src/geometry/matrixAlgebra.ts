@@ -76,6 +76,24 @@ export const reflectionOnXAxis: Matrix2x2 = [[1, 0],
 export const reflectionOnYAxis: Matrix2x2 = [[-1, 0],
 [0, 1]];
 
+/**
+ * Transposition matrix.
+ * Swaps the x- and y-coordinates, reflecting across the diagonal y = x.
+ * 
+ * @example
+ * ```typescript
+ * // Transposition: [[0, 1], [1, 0]]
+ * const point: Coordinate = { x: 5, y: 3 };
+ * const swapped = multiply(transposition, point);  // { x: 3, y: 5 }
+ * 
+ * // Turn a row of columns into a column of rows
+ * const span = { x: 12, y: 2 };
+ * const portraitSpan = multiply(transposition, span);  // { x: 2, y: 12 }
+ * ```
+ */
+export const transposition: Matrix2x2 = [[0, 1],
+[1, 0]];
+
 /**
  * Creates a 2x2 rotation matrix for clockwise rotation by the specified angle.
  * Uses standard rotation matrix formula with trigonometric functions.
@@ -29,16 +29,22 @@ export type DiagnosticSeverity = 'error' | 'warning' | 'info';
  * const layoutOrigin: DiagnosticOrigin = 'CSSLayout';
  * const rendererOrigin: DiagnosticOrigin = 'GridCssMuiRenderer';
  * const transformOrigin: DiagnosticOrigin = 'transformBoxMove';
+ * const customOrigin: DiagnosticOrigin = 'custom:dockToSidebar';
  * ```
  */
 export type DiagnosticOrigin =
   | AllBoxMovesProps<any>  // box transformations
+  | `custom:${string}` // custom transformations registered next to the defaults
   | 'transformBoxMove' // box move transformer
   | 'layoutSectionToBounds' // layout section to bounds converter
   | 'layoutSectionBtoAbsolute'
   | 'CSSLayout'
   | 'GridCssMuiRenderer'
   | 'layoutToTx'
+  | 'layoutTxToSectionLocal'
+  | 'compactLayoutAbsolute'
+  | 'quantizeLayoutAbsolute'
+  | 'rescaleLayoutAbsolute'
   ;
 
 
@@ -99,6 +105,12 @@ export const GRID_ERROR_CODE = {
   BOX_SPAN_MISSING: 'BOX_SPAN_MISSING' as GridErrorCode,
   MISSING_BOX: 'MISSING_BOX' as GridErrorCode,
   CONSTRAINT_VIOLATION: 'CONSTRAINT_VIOLATION' as GridErrorCode,
+  BREAKPOINT_INHERITED: 'BREAKPOINT_INHERITED' as GridErrorCode,
+  UNKNOWN_BREAKPOINT: 'UNKNOWN_BREAKPOINT' as GridErrorCode,
+  TRACKS_COMPACTED: 'TRACKS_COMPACTED' as GridErrorCode,
+  GRID_QUANTIZED: 'GRID_QUANTIZED' as GridErrorCode,
+  RESCALE_CONFLICT: 'RESCALE_CONFLICT' as GridErrorCode,
+  INVALID_COLUMN_COUNT: 'INVALID_COLUMN_COUNT' as GridErrorCode,
 } as const;
 
 /**
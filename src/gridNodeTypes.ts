@@ -11,7 +11,7 @@
  */
 
 
-import { BPs } from "./breakpoints";
+import { BPs, Breakpoint } from "./breakpoints";
 
 /**
  * Layout configuration flags for grid node behavior and constraints.
@@ -94,5 +94,7 @@ export type CSSCoordinates = {
  *   xl: { gridRowStart: 1, gridColumnStart: 3, gridRowEnd: 2, gridColumnEnd: 6 }
  * };
  * ```
+ *
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  */
-export type CSSCoordinatesBPS = BPs<CSSCoordinates>;
+export type CSSCoordinatesBPS<BP extends string = Breakpoint> = BPs<CSSCoordinates, BP>;
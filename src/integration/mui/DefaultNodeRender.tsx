@@ -21,18 +21,58 @@
 
 // MUI core imports - using specific file paths for better tree shaking
 import { useTheme } from '@mui/material/styles';
-import useMediaQuery from '@mui/material/useMediaQuery'; 
+import type { Breakpoint as MuiBreakpoint } from '@mui/material/styles';
 import Box  from '@mui/material/Box';
  import { MuiTheme } from './muiTypes';
 import type { MuiSystemStyleObject } from './muiTypes';
-import React from 'react';
+import * as React from 'react';
 // Internal type imports for grid system integration
 import { BlocksIDs, SectionIDs } from '../../templates/layoutIDs';  // Template identifier types
 import { NodeRenderConfig } from '../../boxLayout';                   // Node rendering configuration
-import { BPs } from '../../breakpoints';                              // Breakpoint types
+import { BPs, Breakpoint, BREAKPOINTS, makeBps } from '../../breakpoints'; // Breakpoint types
 import { CSSCoordinates } from '../../gridNodeTypes';                 // CSS Grid coordinate types
 import { GridNodeViewOptions } from '../../nodeViewOptions';          // View configuration options
 
+/**
+ * Index of the active breakpoint, given the `min-width` queries of all breakpoints
+ * but the smallest. A single subscription covers every query, so the number of
+ * hooks does not depend on the number of breakpoints.
+ *
+ * @param queries - Media queries, smallest breakpoint first
+ * @returns 1 + the index of the last matching query, or 0 when none matches
+ *   (and during server rendering)
+ */
+function useActiveBreakpointIndex(queries: readonly string[]): number {
+  const key = queries.join('\n');
+
+  const subscribe = React.useCallback(
+    (onChange: () => void) => {
+      if (typeof window === 'undefined' || !window.matchMedia) {
+        return () => {};
+      }
+      const lists = key ? key.split('\n').map((q) => window.matchMedia(q)) : [];
+      lists.forEach((list) => list.addEventListener('change', onChange));
+      return () => lists.forEach((list) => list.removeEventListener('change', onChange));
+    },
+    [key]
+  );
+
+  const getSnapshot = () => {
+    if (typeof window === 'undefined' || !window.matchMedia) {
+      return 0;
+    }
+    let active = 0;
+    queries.forEach((q, i) => {
+      if (window.matchMedia(q).matches) {
+        active = i + 1;
+      }
+    });
+    return active;
+  };
+
+  return React.useSyncExternalStore(subscribe, getSnapshot, () => 0);
+}
+
 /**
  * CSS styles for visually hiding elements while keeping them accessible to screen readers
  * 
@@ -151,12 +191,19 @@ export function getNodeDomProps(
  * 
  * @template sectionIDs - Union type of valid section identifiers
  * @template blockIDs - Union type of valid block/box identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  */
-type DefaultNodeRenderProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
-  section: sectionIDs;                    // The section this node belongs to
-  boxId: blockIDs;                        // Unique identifier for this box/node
-  cssCoordinateBPs: BPs<CSSCoordinates>;  // CSS Grid coordinates for all breakpoints
-  content: NodeRenderConfig<sectionIDs, blockIDs>; // Rendering configuration and content
+type DefaultNodeRenderProps<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+> = {
+  section: sectionIDs;                        // The section this node belongs to
+  boxId: blockIDs;                            // Unique identifier for this box/node
+  cssCoordinateBPs: BPs<CSSCoordinates, BP>;  // CSS Grid coordinates for all breakpoints
+  content: NodeRenderConfig<sectionIDs, blockIDs, BP>; // Rendering configuration and content
+  breakpoints?: readonly BP[];                // Breakpoint names, smallest first (defaults to BREAKPOINTS)
+  hiddenAt?: readonly BP[];                   // Breakpoints at which the node is not displayed
 };
 
 /**
@@ -173,20 +220,32 @@ type DefaultNodeRenderProps<sectionIDs extends SectionIDs, blockIDs extends Bloc
  * - Flexible content rendering through render props
  * - Integration with MUI theming
  * 
- * The component uses MUI's useMediaQuery to detect the current breakpoint and
- * applies the appropriate CSS Grid coordinates for that breakpoint.
+ * The component listens to the media queries of the MUI breakpoints to detect the
+ * current breakpoint and applies the appropriate CSS Grid coordinates for that
+ * breakpoint. Custom breakpoint sets must be defined in the MUI theme
+ * (`theme.breakpoints.keys`).
+ * 
+ * Breakpoints listed in `hiddenAt` get `display: none`, and the content renderer
+ * is not called while one of them is active.
  * 
  * @template sectionIDs - Union type of valid section identifiers
  * @template blockIDs - Union type of valid block/box identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param props - Component props including coordinates, content, and identifiers
  * @returns Rendered grid node as MUI Box component
  */
-export function DefaultNodeRender<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs>({
+export function DefaultNodeRender<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint
+>({
   section,
   boxId,
   cssCoordinateBPs,
   content,
-}: DefaultNodeRenderProps<sectionIDs, blockIDs>) {
+  breakpoints = BREAKPOINTS as readonly string[] as readonly BP[],
+  hiddenAt = [],
+}: DefaultNodeRenderProps<sectionIDs, blockIDs, BP>) {
   // Generate styling and DOM properties from view configuration
   const nodeSx = getNodeSxProps(content.view);
   const domProps = getNodeDomProps(content.view);
@@ -195,15 +254,38 @@ export function DefaultNodeRender<sectionIDs extends SectionIDs, blockIDs extend
   const theme = useTheme();
 
   // Use MUI's breakpoint system to detect current screen size
-  // These hooks return true if screen is at or above the specified breakpoint
-  const upSm = useMediaQuery(theme.breakpoints.up('sm'));
-  const upMd = useMediaQuery(theme.breakpoints.up('md'));
-  const upLg = useMediaQuery(theme.breakpoints.up('lg'));
-  const upXl = useMediaQuery(theme.breakpoints.up('xl'));
+  // Each query is true if screen is at or above the specified breakpoint; the
+  // smallest breakpoint needs no query
+  const queries = breakpoints
+    .slice(1)
+    .map((bp) => theme.breakpoints.up(bp as MuiBreakpoint).replace(/^@media( ?)/m, ''));
 
   // Determine current breakpoint using waterfall logic
-  // Checks from largest to smallest breakpoint
-  const bp = upXl ? 'xl' : upLg ? 'lg' : upMd ? 'md' : upSm ? 'sm' : 'xs';
+  // The largest breakpoint whose query matches wins
+  const bp = breakpoints[useActiveBreakpointIndex(queries)];
+
+  // Responsive value for one coordinate field, keyed by breakpoint
+  const responsive = (field: keyof CSSCoordinates) =>
+    makeBps(breakpoints, (b) => cssCoordinateBPs[b][field]);
+
+  // Omitted breakpoints are switched off, the others keep the view's display
+  // (cascading up like any responsive value) or the Box default
+  const viewDisplay = (nodeSx as { display?: unknown }).display;
+  let shown: unknown = 'block';
+  const display: Record<string, unknown> | undefined =
+    hiddenAt.length > 0
+      ? makeBps(breakpoints, (b) => {
+          const own =
+            viewDisplay !== null && typeof viewDisplay === 'object'
+              ? (viewDisplay as Record<string, unknown>)[b]
+              : viewDisplay;
+          if (own != null) {
+            shown = own;
+          }
+          return hiddenAt.includes(b) ? 'none' : shown;
+        })
+      : undefined;
+  const hidden = hiddenAt.includes(bp);
 
   return (
     <Box
@@ -218,43 +300,22 @@ export function DefaultNodeRender<sectionIDs extends SectionIDs, blockIDs extend
 
         // Responsive CSS Grid positioning
         // Each breakpoint gets its specific grid coordinates
-        gridColumnStart: {
-          xs: cssCoordinateBPs.xs.gridColumnStart,
-          sm: cssCoordinateBPs.sm.gridColumnStart,
-          md: cssCoordinateBPs.md.gridColumnStart,
-          lg: cssCoordinateBPs.lg.gridColumnStart,
-          xl: cssCoordinateBPs.xl.gridColumnStart,
-        },
-        gridColumnEnd: {
-          xs: cssCoordinateBPs.xs.gridColumnEnd,
-          sm: cssCoordinateBPs.sm.gridColumnEnd,
-          md: cssCoordinateBPs.md.gridColumnEnd,
-          lg: cssCoordinateBPs.lg.gridColumnEnd,
-          xl: cssCoordinateBPs.xl.gridColumnEnd,
-        },
-        gridRowStart: {
-          xs: cssCoordinateBPs.xs.gridRowStart,
-          sm: cssCoordinateBPs.sm.gridRowStart,
-          md: cssCoordinateBPs.md.gridRowStart,
-          lg: cssCoordinateBPs.lg.gridRowStart,
-          xl: cssCoordinateBPs.xl.gridRowStart,
-        },
-        gridRowEnd: {
-          xs: cssCoordinateBPs.xs.gridRowEnd,
-          sm: cssCoordinateBPs.sm.gridRowEnd,
-          md: cssCoordinateBPs.md.gridRowEnd,
-          lg: cssCoordinateBPs.lg.gridRowEnd,
-          xl: cssCoordinateBPs.xl.gridRowEnd,
-        },
+        gridColumnStart: responsive('gridColumnStart'),
+        gridColumnEnd: responsive('gridColumnEnd'),
+        gridRowStart: responsive('gridRowStart'),
+        gridRowEnd: responsive('gridRowEnd'),
 
         // Apply view-driven style overrides
         // This includes alignment, sizing, visibility, z-index, etc.
         ...nodeSx,
+
+        // Per-breakpoint omission from the layout, after the view so it always wins
+        ...(display ? { display } : {}),
       }}
     >
       {/* Render content using the provided content renderer */}
       {/* The renderer receives context about the current breakpoint and coordinates */}
-      {content.contentRenderer
+      {content.contentRenderer && !hidden
         ? content.contentRenderer({ 
             sectionId: section, 
             bp, 
@@ -19,6 +19,7 @@
 
 // MUI core imports - using specific file paths for better tree shaking
 import Box from "@mui/material/Box";
+import { useTheme } from "@mui/material/styles";
 import { MuiSxProps } from "./muiTypes";
 // Internal type imports for grid system integration
 import { BlocksIDs, SectionIDs } from "../../templates/layoutIDs"; // Template identifier types
@@ -28,7 +29,7 @@ import {
   LayoutRenderingOverride,
   NodeRenderConfig,
 } from "../../boxLayout"; // Layout types
-import { BPs, BREAKPOINTS } from "../../breakpoints"; // Breakpoint system
+import { BPs, Breakpoint, BREAKPOINTS, makeBps } from "../../breakpoints"; // Breakpoint system
 import { gapValueToString, gridUnitValueToString } from "../../cssStringify"; // CSS value utilities
 import {
   DiagnosticEntry,
@@ -99,9 +100,15 @@ function getSxProps(gridOptions: Partial<GridOptions>): MuiSxProps {
  *
  * @template sectionIDs - Union type of valid section identifiers
  * @template blockIDs - Union type of valid block/box identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  */
-type MainProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
-  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs>; // Layout with absolute CSS coordinates
+type MainProps<
+  sectionIDs extends SectionIDs,
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint,
+> = {
+  layoutAbsolute: LayoutAbsolute<sectionIDs, blockIDs, BP>; // Layout with absolute CSS coordinates
+  breakpoints: readonly BP[]; // Breakpoint names, smallest first
   gridOptionsOverride?: Partial<GridOptions>; // Optional grid behavior overrides
   children?: React.ReactNode; // Child elements to render in the grid
 };
@@ -125,20 +132,36 @@ type MainProps<sectionIDs extends SectionIDs, blockIDs extends BlocksIDs> = {
  *
  * @template sectionIDs - Union type of valid section identifiers
  * @template blockIDs - Union type of valid block/box identifiers
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param props - Component props including layout and grid options
  * @returns Rendered CSS Grid container
  */
 function TopContainer<
   sectionIDs extends SectionIDs,
-  blockIDs extends BlocksIDs
+  blockIDs extends BlocksIDs,
+  BP extends string = Breakpoint,
 >({
   layoutAbsolute,
+  breakpoints,
   gridOptionsOverride,
   children,
-}: MainProps<sectionIDs, blockIDs>) {
+}: MainProps<sectionIDs, blockIDs, BP>) {
   // Convert grid options to MUI sx props
   const gridOptionsResolved: MuiSxProps = getSxProps(gridOptionsOverride || {});
 
+  // Responsive track definitions, one entry per breakpoint
+  // 🔒 Allow tracks to shrink using minmax(0, 1fr)
+  const templateColumns: Record<string, string> = makeBps(
+    breakpoints,
+    (bp) => `repeat(${layoutAbsolute.gridDimensions.columns[bp]}, minmax(0, 1fr))`
+  );
+
+  // Row templates with content-driven sizing
+  const templateRows: Record<string, string> = makeBps(
+    breakpoints,
+    (bp) => `repeat(${layoutAbsolute.gridDimensions.rows[bp]}, minmax(min-content, auto))`
+  );
+
   return (
     <Box
       sx={{
@@ -152,23 +175,8 @@ function TopContainer<
         boxSizing: "border-box", // Include padding/border in width
 
         // Responsive grid template definitions
-        // 🔒 Allow tracks to shrink using minmax(0, 1fr)
-        gridTemplateColumns: {
-          xs: `repeat(${layoutAbsolute.gridDimensions.columns.xs}, minmax(0, 1fr))`,
-          sm: `repeat(${layoutAbsolute.gridDimensions.columns.sm}, minmax(0, 1fr))`,
-          md: `repeat(${layoutAbsolute.gridDimensions.columns.md}, minmax(0, 1fr))`,
-          lg: `repeat(${layoutAbsolute.gridDimensions.columns.lg}, minmax(0, 1fr))`,
-          xl: `repeat(${layoutAbsolute.gridDimensions.columns.xl}, minmax(0, 1fr))`,
-        },
-
-        // Row templates with content-driven sizing
-        gridTemplateRows: {
-          xs: `repeat(${layoutAbsolute.gridDimensions.rows.xs}, minmax(min-content, auto))`,
-          sm: `repeat(${layoutAbsolute.gridDimensions.rows.sm}, minmax(min-content, auto))`,
-          md: `repeat(${layoutAbsolute.gridDimensions.rows.md}, minmax(min-content, auto))`,
-          lg: `repeat(${layoutAbsolute.gridDimensions.rows.lg}, minmax(min-content, auto))`,
-          xl: `repeat(${layoutAbsolute.gridDimensions.rows.xl}, minmax(min-content, auto))`,
-        },
+        gridTemplateColumns: templateColumns,
+        gridTemplateRows: templateRows,
 
         // Apply configured grid options (gaps, alignment, etc.)
         ...gridOptionsResolved,
@@ -184,16 +192,18 @@ function TopContainer<
  *
  * @template sectionID - Union type of valid section identifiers
  * @template blockID - Union type of valid block/box identifiers
- * @template LA - Layout type extending LayoutAbsolute
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  */
 export type GridCssMuiRendererProps<
   sectionID extends SectionIDs,
   blockID extends BlocksIDs,
+  BP extends string = Breakpoint,
 > = {
-  layoutAbsolute: LayoutAbsolute<sectionID, blockID>; // Layout with absolute CSS coordinates
+  layoutAbsolute: LayoutAbsolute<sectionID, blockID, BP>; // Layout with absolute CSS coordinates
   diagnostics: DiagnosticEntry[]; // Array to collect errors and warnings
-  layoutRendering?: LayoutRenderingOverride<sectionID, blockID>; // Optional custom rendering overrides
+  layoutRendering?: LayoutRenderingOverride<sectionID, blockID, BP>; // Optional custom rendering overrides
   gridOptionsOverride?: Partial<GridOptions>; // Optional grid behavior configuration
+  breakpoints?: readonly BP[]; // Breakpoint names, smallest first; must match theme.breakpoints.keys
 };
 
 /**
@@ -202,11 +212,16 @@ export type GridCssMuiRendererProps<
  * Combines box identification, coordinates, and rendering configuration
  * into a single object for efficient processing.
  */
-type BoxRenderer<sectionID extends SectionIDs, blockID extends BlocksIDs> = {
+type BoxRenderer<
+  sectionID extends SectionIDs,
+  blockID extends BlocksIDs,
+  BP extends string,
+> = {
   sectionId: sectionID; // Parent section identifier
   boxId: blockID; // Box identifier within section
-  coordinate: BPs<CSSCoordinates>; // CSS coordinates for all breakpoints
-  content: NodeRenderConfig<sectionID, blockID>; // Rendering configuration
+  coordinate: BPs<CSSCoordinates, BP>; // CSS coordinates for all breakpoints
+  content: NodeRenderConfig<sectionID, blockID, BP>; // Rendering configuration
+  hiddenAt: readonly BP[]; // Breakpoints at which the layout omits the box
 };
 
 /**
@@ -270,11 +285,15 @@ const fallbackCSSCoordinates: CSSCoordinates = {
  * entry point for converting layout definitions into rendered UI components.
  *
  * Processing Flow:
+ * 0. Check that every breakpoint is one of the MUI theme's `breakpoints.keys`
  * 1. Extract and process all boxes from all sections across all breakpoints
  * 2. Build node registry with coordinates and rendering configurations
- * 3. Handle missing coordinates with error reporting and fallbacks
+ * 3. Handle missing coordinates with error reporting and fallbacks; boxes omitted by
+ *    the layout at a breakpoint (`layoutAbsolute.hiddenBoxes`) are hidden there instead
  * 4. Render CSS Grid container with positioned child nodes
  *
+ * Boxes omitted at every breakpoint have no coordinates at all and are never mounted.
+ *
  * Error Handling:
  * - Missing breakpoint data: Reports errors and skips processing
  * - Missing box coordinates: Reports errors and applies fallback positioning
@@ -282,22 +301,40 @@ const fallbackCSSCoordinates: CSSCoordinates = {
  *
  * @template sectionID - Union type of valid section identifiers
  * @template blockID - Union type of valid block/box identifiers
- * @template LA - Layout type extending LayoutAbsolute
+ * @template BP - Breakpoint names (defaults to the standard `BREAKPOINTS`)
  * @param props - Component props including layout, rendering overrides, and options
  * @returns Rendered CSS Grid layout with positioned nodes
  */
 export function GridCssMuiRenderer<
   sectionID extends SectionIDs,
   blockID extends BlocksIDs,
-
+  BP extends string = Breakpoint,
 >({
   layoutAbsolute,
   layoutRendering,
   diagnostics,
   gridOptionsOverride,
-}: GridCssMuiRendererProps<sectionID, blockID>) {
+  breakpoints = BREAKPOINTS as readonly string[] as readonly BP[],
+}: GridCssMuiRendererProps<sectionID, blockID, BP>) {
   // Registry for all nodes to be rendered, indexed by unique key
-  const nodes: Record<string, BoxRenderer<sectionID, blockID>> = {};
+  const nodes: Record<string, BoxRenderer<sectionID, blockID, BP>> = {};
+
+  // PHASE 0: Breakpoints are resolved by the MUI theme, so each one needs a
+  // matching key in theme.breakpoints (custom sets use module augmentation)
+  const theme = useTheme();
+
+  for (const bp of breakpoints) {
+    if (!theme.breakpoints.keys.includes(bp as (typeof theme.breakpoints.keys)[number])) {
+      diagnostics.push(
+        makeError(
+          "GridCssMuiRenderer",
+          GRID_ERROR_CODE.UNKNOWN_BREAKPOINT,
+          `Breakpoint "${bp}" is not defined in the MUI theme (keys: ${theme.breakpoints.keys.join(", ")})`,
+          { details: { bp, themeKeys: theme.breakpoints.keys } }
+        )
+      );
+    }
+  }
 
   // Extract all section IDs for processing
   const sectionIds = recordKeys(layoutAbsolute.sections);
@@ -306,7 +343,7 @@ export function GridCssMuiRenderer<
   // This creates a comprehensive map of all boxes with their coordinates and rendering config
   for (const sectionId of sectionIds) {
     // Process each responsive breakpoint for this section
-    for (const bp of BREAKPOINTS) {
+    for (const bp of breakpoints) {
       // Get box coordinates for this section at this breakpoint
       const boxesAtBP = layoutAbsolute.sections[sectionId].coordinates[bp];
 
@@ -352,9 +389,9 @@ export function GridCssMuiRenderer<
 
         // Resolve rendering configuration with safe fallbacks
         // Check for custom rendering override, otherwise use default empty renderer
-        const resolved: NodeRenderConfig<sectionID, blockID> =
+        const resolved: NodeRenderConfig<sectionID, blockID, BP> =
           (layoutRendering?.[sectionId]?.[boxId] as
-            | NodeRenderConfig<sectionID, blockID>
+            | NodeRenderConfig<sectionID, blockID, BP>
             | undefined) ?? {
             contentRenderer: () => <></>, // Empty fragment as fallback
             view: {}, // Empty view options as fallback
@@ -366,14 +403,9 @@ export function GridCssMuiRenderer<
             sectionId,
             boxId,
             // Initialize all breakpoint coordinates with dummy values
-            coordinate: {
-              xs: dummyCSSCoordinates,
-              sm: dummyCSSCoordinates,
-              md: dummyCSSCoordinates,
-              lg: dummyCSSCoordinates,
-              xl: dummyCSSCoordinates,
-            },
+            coordinate: makeBps(breakpoints, () => dummyCSSCoordinates),
             content: resolved, // Use resolved rendering configuration
+            hiddenAt: layoutAbsolute.hiddenBoxes?.[sectionId]?.[boxId] ?? [],
           };
         } else {
           // Node already exists from processing another breakpoint
@@ -393,9 +425,15 @@ export function GridCssMuiRenderer<
     const node = nodes[nodeKey];
 
     // Check each breakpoint for missing/invalid coordinates
-    for (const bp of BREAKPOINTS) {
+    for (const bp of breakpoints) {
       const crd = node.coordinate[bp];
 
+      // Omitted by the layout: not displayed at this breakpoint, nothing to repair
+      if (node.hiddenAt.includes(bp)) {
+        node.coordinate[bp] = fallbackCSSCoordinates;
+        continue;
+      }
+
       // Check if coordinates are still dummy values (all zeros indicate unset)
       if (
         crd.gridColumnStart === 0 &&
@@ -431,6 +469,7 @@ export function GridCssMuiRenderer<
   return (
     <TopContainer
       layoutAbsolute={layoutAbsolute}
+      breakpoints={breakpoints}
       gridOptionsOverride={gridOptionsOverride}
     >
       {/* Render each node using DefaultNodeRender component */}
@@ -441,6 +480,8 @@ export function GridCssMuiRenderer<
           section={node.sectionId} // Section identifier
           boxId={node.boxId} // Box identifier
           content={node.content} // Rendering configuration
+          breakpoints={breakpoints} // Breakpoint names, smallest first
+          hiddenAt={node.hiddenAt} // Breakpoints at which the node is display:none
         />
       ))}
     </TopContainer>
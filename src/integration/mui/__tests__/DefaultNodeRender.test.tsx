@@ -0,0 +1,67 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { createTheme, ThemeProvider } from "@mui/material/styles";
+import * as React from "react";
+import { DefaultNodeRender } from "../DefaultNodeRender";
+
+type CSSCoordinates = {
+  gridColumnStart: number;
+  gridColumnEnd: number;
+  gridRowStart: number;
+  gridRowEnd: number;
+};
+
+const at = (column: number): CSSCoordinates => ({
+  gridColumnStart: column,
+  gridColumnEnd: column + 1,
+  gridRowStart: 1,
+  gridRowEnd: 2,
+});
+
+describe("DefaultNodeRender (SSR/Jest-only)", () => {
+  test("renders with any number of breakpoints, the smallest active on the server", () => {
+    const theme = createTheme({
+      breakpoints: { keys: ["mobile", "tablet", "desktop"] as any, values: { mobile: 0, tablet: 600, desktop: 1200 } as any },
+    });
+    const seen: string[] = [];
+    const contentRenderer = ({ bp }: { bp: string }) => {
+      seen.push(bp);
+      return bp;
+    };
+
+    const render = (breakpoints: readonly string[]) =>
+      renderToStaticMarkup(
+        <ThemeProvider theme={theme}>
+          <DefaultNodeRender<"main", "block_1", string>
+            section="main"
+            boxId="block_1"
+            breakpoints={breakpoints}
+            cssCoordinateBPs={Object.fromEntries(breakpoints.map((bp, i) => [bp, at(i + 1)]))}
+            content={{ contentRenderer }}
+          />
+        </ThemeProvider>
+      );
+
+    render(["mobile", "tablet", "desktop"]);
+    render(["mobile", "desktop"]);
+
+    // No media queries on the server: the smallest breakpoint is active
+    expect(seen).toEqual(["mobile", "mobile"]);
+  });
+
+  test("hidden breakpoints get display none alongside the view styles", () => {
+    const markup = renderToStaticMarkup(
+      <DefaultNodeRender<"main", "block_1", "xs" | "md">
+        section="main"
+        boxId="block_1"
+        breakpoints={["xs", "md"]}
+        hiddenAt={["md"]}
+        cssCoordinateBPs={{ xs: at(1), md: at(2) }}
+        content={{ view: { zIndex: 2, visibility: "hidden" }, contentRenderer: ({ bp }) => bp }}
+      />
+    );
+
+    expect(markup).toContain("z-index:2");
+    expect(markup).toMatch(/@media \(min-width:0px\)\{[^}]*display:block;/);
+    expect(markup).toMatch(/@media \(min-width:900px\)\{[^}]*display:none;/);
+  });
+});
@@ -1,4 +1,5 @@
 import { renderToStaticMarkup } from "react-dom/server";
+import { createTheme, ThemeProvider } from "@mui/material/styles";
 import { GridCssMuiRenderer } from "../GridCssMuiRenderer";
 import * as React from "react";
 import { LayoutAbsolute } from "../../../boxLayout";
@@ -13,8 +14,8 @@ const defaultNodeRenderMock = jest.fn((props: any) => {
     "data-testid": "node",
     "data-section": String(props.section),
     "data-box": String(props.boxId),
-    "data-xs": `${props.cssCoordinateBPs.xs.gridColumnStart},${props.cssCoordinateBPs.xs.gridColumnEnd},${props.cssCoordinateBPs.xs.gridRowStart},${props.cssCoordinateBPs.xs.gridRowEnd}`,
-    "data-md": `${props.cssCoordinateBPs.md.gridColumnStart},${props.cssCoordinateBPs.md.gridColumnEnd},${props.cssCoordinateBPs.md.gridRowStart},${props.cssCoordinateBPs.md.gridRowEnd}`,
+    "data-xs": `${props.cssCoordinateBPs.xs?.gridColumnStart},${props.cssCoordinateBPs.xs?.gridColumnEnd},${props.cssCoordinateBPs.xs?.gridRowStart},${props.cssCoordinateBPs.xs?.gridRowEnd}`,
+    "data-md": `${props.cssCoordinateBPs.md?.gridColumnStart},${props.cssCoordinateBPs.md?.gridColumnEnd},${props.cssCoordinateBPs.md?.gridRowStart},${props.cssCoordinateBPs.md?.gridRowEnd}`,
   });
 });
 
@@ -195,4 +196,80 @@ describe("GridCssMuiRenderer (SSR/Jest-only)", () => {
     expect(props.content.view).toEqual({ zIndex: 999 });
     expect(typeof props.content.contentRenderer).toBe("function");
   });
+
+  test("boxes omitted by the layout are hidden instead of repaired", () => {
+    const layoutAbsolute = mkAbs();
+    delete (layoutAbsolute.sections.main.coordinates.md as any).block_2;
+    layoutAbsolute.hiddenBoxes = { main: { block_2: ["sm", "md", "lg", "xl"] } };
+
+    const diagnostics: DiagnosticEntry[] = [];
+
+    renderToStaticMarkup(
+      React.createElement(GridCssMuiRenderer as any, {
+        layoutAbsolute,
+        diagnostics,
+        gridOptionsOverride: {},
+      }),
+    );
+
+    // mkAbs leaves other boxes without sm/lg/xl coordinates; only block_2 is omitted
+    expect(
+      diagnostics.filter((d: any) => d.issue.details?.boxId === "block_2" && d.issue.details?.sectionId === "main"),
+    ).toEqual([]);
+
+    const props = (box: string) =>
+      defaultNodeRenderMock.mock.calls.find(([p]) => p.section === "main" && p.boxId === box)![0];
+
+    expect(props("block_2").hiddenAt).toEqual(["sm", "md", "lg", "xl"]);
+    expect(props("block_1").hiddenAt).toEqual([]);
+  });
+
+  test("custom breakpoint sets are checked against the MUI theme keys", () => {
+    const widget = ["mobile", "desktop"] as const;
+    const coords = { gridColumnStart: 1, gridColumnEnd: 2, gridRowStart: 1, gridRowEnd: 2 };
+
+    const layoutAbsolute: LayoutAbsolute<"main", "block_1", (typeof widget)[number]> = {
+      gridDimensions: {
+        rows: { mobile: 1, desktop: 1 },
+        columns: { mobile: 1, desktop: 2 },
+      },
+      sections: {
+        main: {
+          coordinates: {
+            mobile: { block_1: coords },
+            desktop: { block_1: { ...coords, gridColumnEnd: 3 } },
+          },
+        },
+      },
+    };
+
+    const render = (diagnostics: DiagnosticEntry[]) =>
+      React.createElement(GridCssMuiRenderer as any, {
+        layoutAbsolute,
+        diagnostics,
+        breakpoints: widget,
+      });
+
+    // The default MUI theme only knows xs..xl
+    const withoutKeys: DiagnosticEntry[] = [];
+    renderToStaticMarkup(render(withoutKeys));
+    expect(
+      withoutKeys.filter((d) => d.issue.code === GRID_ERROR_CODE.UNKNOWN_BREAKPOINT),
+    ).toHaveLength(2);
+
+    // A theme that declares the same keys renders without breakpoint errors
+    defaultNodeRenderMock.mockClear();
+    const theme = createTheme({
+      breakpoints: { values: { mobile: 0, desktop: 1024 } as any },
+    });
+    const withKeys: DiagnosticEntry[] = [];
+    renderToStaticMarkup(
+      React.createElement(ThemeProvider, { theme }, render(withKeys)),
+    );
+
+    expect(withKeys).toEqual([]);
+    const props = defaultNodeRenderMock.mock.calls[0][0];
+    expect(props.breakpoints).toEqual(widget);
+    expect(props.cssCoordinateBPs.desktop.gridColumnEnd).toBe(3);
+  });
 });
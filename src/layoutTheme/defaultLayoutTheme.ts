@@ -12,9 +12,10 @@ import {
   BoxSpan,
   BoxTransformations,
   Layout,
+  ResolvedBoxSpan,
 
 } from "../boxLayout/boxLayoutTypes";
-import { BREAKPOINTS } from "../breakpoints";
+import { BREAKPOINTS, cascadeBps, makeBps, PartialBps } from "../breakpoints";
 import { getOrigin } from "../geometry";
 import { GridOptions } from "../gridOptionsTypes";
 import { GridNodeViewOptions } from "../nodeViewOptions";
@@ -234,9 +235,11 @@ export const DefaultTransformationsResponsiveColumns = {
  * for all aspects of layout rendering, transformation, and visual presentation.
  * 
  * Theme behaviors:
- * - **Box span resolution**: Responsive sizing with full-width on mobile (xs breakpoint)
+ * - **Box span resolution**: Responsive sizing with full-width on mobile (smallest breakpoint),
+ *   unless the layout gives `spanX` per breakpoint
  * - **Section transformations**: Horizontal stacking for most content (responsive rows)
- * - **Layout transformations**: Vertical section stacking (responsive columns)
+ * - **Layout transformations**: Vertical section stacking (responsive columns), in
+ *   `sectionOrder` where one is given for the breakpoint
  * - **Visual options**: Stretch behavior with overflow prevention
  * - **Grid configuration**: Standard CSS Grid defaults with predictable behavior
  * 
@@ -246,8 +249,16 @@ export const DefaultTransformationsResponsiveColumns = {
  * - Accessibility-friendly default configurations
  * - SSR-compatible option resolution
  * 
+ * Custom breakpoint sets (e.g. `['mobile', 'desktop']` or one that adds `xxl`) get the
+ * same behavior: the first breakpoint is treated as mobile, every larger one follows
+ * the `sm` defaults.
+ *
  * @template L - The layout type this theme will be applied to
+ * @template BPList - Breakpoint names the theme resolves, smallest first
  * @param layout - The layout configuration to create a theme for
+ * @param breakpoints - Breakpoint names, smallest first (defaults to `BREAKPOINTS`)
+ * @param sectionOrder - Optional section stacking order per breakpoint; breakpoints that
+ * are left out inherit from the nearest smaller one, sections left out follow the listed ones
  * @returns Complete ThemeForLayout implementation with all required methods and options
  * 
  * @example
@@ -262,22 +273,58 @@ export const DefaultTransformationsResponsiveColumns = {
  * // Use theme methods
  * const gridBox = theme.resolveBoxSpan('header', 'nav', myLayout, { spanX: 4, spanY: 1 }, 'md');
  * const transforms = theme.sectionBoxTransforms('header', myLayout);
+ *
+ * // Two-breakpoint widget
+ * const widgetTheme = getDefaultTheme(myLayout, ['mobile', 'desktop'] as const);
+ *
+ * // Sidebar after the main content on phones, before it from md
+ * const sidebarTheme = getDefaultTheme(pageLayout, BREAKPOINTS, {
+ *   xs: ['main', 'sidebar'],
+ *   md: ['sidebar', 'main'],
+ * });
  * ```
  */
-export const getDefaultTheme = <sectionIDS extends SectionIDs, blockIDS extends BlocksIDs>(layout: Layout<sectionIDS, blockIDS>) => {
+export const getDefaultTheme = <
+  sectionIDS extends SectionIDs,
+  blockIDS extends BlocksIDs,
+  BPList extends readonly string[] = typeof BREAKPOINTS
+>(
+  layout: Layout<sectionIDS, blockIDS, BPList[number]>,
+  breakpoints: BPList = BREAKPOINTS as readonly string[] as BPList,
+  sectionOrder?: Partial<Record<BPList[number], readonly sectionIDS[]>>
+) => {
+  // Inferred from the list only, never from the context the theme is passed to
+  type BP = BPList[number];
+  const list: readonly BP[] = breakpoints;
+
+  const mobile = list[0];
+  const rows = makeBps(list, (bp) =>
+    bp === mobile ? DefaultTransformationsResponsiveRows.xs : DefaultTransformationsResponsiveRows.sm
+  );
+  const order = sectionOrder
+    ? cascadeBps<readonly sectionIDS[], BP>(sectionOrder as PartialBps<readonly sectionIDS[], BP>, undefined, list)
+    : undefined;
+  const columns: BoxTransformations<sectionIDS, {}, BP> = makeBps(list, (bp) =>
+    order?.[bp] ? [{ stackVertically: { order: order[bp] } }] : [...DefaultTransformationsResponsiveColumns.xs]
+  );
+
   const theme = {
     resolveBoxSpan: <S extends SectionIDs, B extends BlocksIDs>(
       section: S,
       boxId: B,
-      layout: Layout<sectionIDS, blockIDS>,
-      span: BoxSpan,
-      bp: (typeof BREAKPOINTS)[number]
+      layout: Layout<sectionIDS, blockIDS, BP>,
+      span: ResolvedBoxSpan,
+      bp: BP
     ) => {
       let dx = span.spanX;
       let dy = span.spanY;
 
-      if (bp === "xs") {
-        // in xs, all boxes are full width
+      // Widths given per breakpoint are the layout author's choice
+      const declared: BoxSpan<BP> | undefined = (layout as Layout<SectionIDs, BlocksIDs, BP>)[section]?.[boxId];
+      const responsiveX = declared !== undefined && typeof declared.spanX !== "number";
+
+      if (bp === mobile && !responsiveX) {
+        // on the smallest breakpoint, all boxes are full width
         dx = 1;
       }
       const gridBox: GridBox = makeGridBox(getOrigin(), { x: dx, y: dy });
@@ -285,16 +332,16 @@ export const getDefaultTheme = <sectionIDS extends SectionIDs, blockIDS extends
     },
     sectionBoxTransforms: <S extends SectionIDs, B extends BlocksIDs>(
       section: S,
-      layout: Layout<sectionIDS, blockIDS>
+      layout: Layout<sectionIDS, blockIDS, BP>
     ) => {
-      return DefaultTransformationsResponsiveRows;
+      return rows;
     },
-    layoutTransforms: (layout: Layout<sectionIDS, blockIDS>) => {
-      return DefaultTransformationsResponsiveColumns;
+    layoutTransforms: (layout: Layout<sectionIDS, blockIDS, BP>) => {
+      return columns;
     },
     gridNodeOptions: { ...DEFAULT_GRID_NODE_VIEW_OPTIONS },
     gridOptions: { ...DEFAULT_GRID_OPTIONS },
-  } satisfies ThemeForLayout<sectionIDS, blockIDS>;
+  } satisfies ThemeForLayout<sectionIDS, blockIDS, {}, BP>;
 
   return theme;
 };
@@ -366,7 +413,7 @@ const enhancedTheme = {
     section: S,
     boxId: B,
     layout: typeof exampleLayout,
-    span: BoxSpan,
+    span: ResolvedBoxSpan,
     bp: (typeof BREAKPOINTS)[number]
   ) => {
     // Custom logic: add padding to all boxes by modifying the diagonal
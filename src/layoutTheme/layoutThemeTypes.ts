@@ -10,12 +10,13 @@
 import { GridBox } from "../box/gridBoxTypes";
 import {
  
-  BoxSpan,
-  BoxTransformations,
   Layout,
+  ResolvedBoxSpan,
+  PartialBoxTransformations,
  
 } from "../boxLayout/boxLayoutTypes";
-import { BREAKPOINTS } from "../breakpoints";
+import { CustomBoxMovesProps } from "../boxTransformations/boxTransformationsProps";
+import { Breakpoint } from "../breakpoints";
 import { GridOptions } from "../gridOptionsTypes";
 import { GridNodeViewOptions } from "../nodeViewOptions";
 import { BlocksIDs, SectionIDs } from "../templates";
@@ -32,6 +33,8 @@ import { BlocksIDs, SectionIDs } from "../templates";
  * - Grid configuration and behavior
  *
  * @template L - The layout type this theme is designed for
+ * @template Ext - Custom transformations the theme may emit next to the defaults
+ * @template BP - Breakpoint names the theme resolves (defaults to the standard `BREAKPOINTS`)
  *
  * @example
  * ```typescript
@@ -63,11 +66,17 @@ import { BlocksIDs, SectionIDs } from "../templates";
  * };
  * ``` 
  */
-export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends BlocksIDs> = {
+export type ThemeForLayout<
+  sectionIDS extends SectionIDs,
+  blockIDS extends BlocksIDs,
+  Ext extends CustomBoxMovesProps = {},
+  BP extends string = Breakpoint
+> = {
   /**
    * Resolves a box span definition into a concrete GridBox for a specific breakpoint.
    * This function is responsible for converting the abstract spanX/spanY values
-   * into actual positioned and sized GridBox coordinates.
+   * into actual positioned and sized GridBox coordinates. Responsive spans from
+   * the layout are already resolved for `bp` when this is called.
    *
    * The resolution process typically involves:
    * - Calculating actual pixel dimensions from span units
@@ -78,7 +87,7 @@ export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends Blocks
    * @param section - The section identifier containing the box
    * @param boxId - The block identifier within the section
    * @param layout - The complete layout configuration
-   * @param span - The span definition (spanX/spanY) to resolve
+   * @param span - The span (spanX/spanY) at this breakpoint
    * @param bp - The breakpoint for which to resolve the span
    * @returns A GridBox with concrete position and dimensions
    *
@@ -98,9 +107,9 @@ export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends Blocks
   resolveBoxSpan: <S extends SectionIDs,B extends BlocksIDs >(
     section: S,
     boxId: B,
-    layout: Layout<sectionIDS, blockIDS>,
-    span: BoxSpan,
-    bp: (typeof BREAKPOINTS)[number]
+    layout: Layout<sectionIDS, blockIDS, BP>,
+    span: ResolvedBoxSpan,
+    bp: BP
   ) => GridBox;
 
   /**
@@ -116,7 +125,8 @@ export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends Blocks
    *
    * @param section - The section identifier to get transformations for
    * @param layout - The complete layout configuration
-   * @returns Box transformations for blocks within the specified section
+   * @returns Box transformations for blocks within the specified section; breakpoints
+   * that are left out inherit from the nearest smaller breakpoint
    *
    * @example
    * ```typescript
@@ -127,8 +137,8 @@ export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends Blocks
    */
   sectionBoxTransforms: <S extends SectionIDs, B extends BlocksIDs>(
     section: S,
-    layout: Layout<sectionIDS, blockIDS>
-  ) => BoxTransformations<B>;
+    layout: Layout<sectionIDS, blockIDS, BP>
+  ) => PartialBoxTransformations<B, Ext, BP>;
 
   /**
    * Provides default section-level transformations for the entire layout.
@@ -154,7 +164,7 @@ export type ThemeForLayout<sectionIDS extends SectionIDs,blockIDS extends Blocks
    * // }
    * ```
    */
-  layoutTransforms: (layout: Layout<sectionIDS, blockIDS>) => BoxTransformations<sectionIDS>;
+  layoutTransforms: (layout: Layout<sectionIDS, blockIDS, BP>) => PartialBoxTransformations<sectionIDS, Ext, BP>;
 
   /**
    * Configuration options for grid node rendering and visual appearance.